@@ -66,6 +66,7 @@ function randomScores(judgeCount: number): { aScores: number[], bScores: number[
 function generateRandomTournament(skaterCount: number, judgeCount: number): SkaterScores[] {
   const names = ['Anna', 'Ben', 'Clara', 'David', 'Emma', 'Felix', 'Grace', 'Hannah', 'Iris', 'Julia'];
   return Array.from({ length: skaterCount }, (_, i) => ({
+    id: `L${i + 1}`,
     name: names[i] || `Skater${i}`,
     ...randomScores(judgeCount)
   }));
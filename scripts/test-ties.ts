@@ -7,6 +7,7 @@ import { calculateRankings } from '../src/utils/scoring';
 const skaters: SkaterScores[] = [
   // Rank 1: Anna - beats everyone (7 MV)
   {
+    id: 'Anna',
     name: 'Anna',
     aScores: [2.9, 2.8, 2.9],
     bScores: [2.8, 2.7, 2.8],
@@ -17,11 +18,13 @@ const skaters: SkaterScores[] = [
   // They both lose to Anna
   // The tie is their head-to-head
   {
+    id: 'Ben',
     name: 'Ben',
     aScores: [2.6, 2.5, 2.4],  // J1: 5.2, J2: 5.0, J3: 4.8
     bScores: [2.6, 2.5, 2.4],  // Sum: 7.5
   },
   {
+    id: 'Clara',
     name: 'Clara',
     aScores: [2.4, 2.5, 2.6],  // J1: 4.8, J2: 5.0, J3: 5.2 (mirrored!)
     bScores: [2.4, 2.5, 2.6],  // Sum: 7.5 (same!)
@@ -30,11 +33,13 @@ const skaters: SkaterScores[] = [
   // Rank 4: David & Emma - TIED at 4.5 MV
   // Both beat Felix, Grace, Hannah, and tie with each other
   {
+    id: 'David',
     name: 'David',
     aScores: [2.2, 2.3, 2.2],  // J1: 4.6, J2: 4.7, J3: 4.6
     bScores: [2.4, 2.4, 2.4],  // Sum: 7.2 (higher)
   },
   {
+    id: 'Emma',
     name: 'Emma',
     aScores: [2.2, 2.2, 2.3],  // J1: 4.6, J2: 4.6, J3: 4.7 (similar pattern)
     bScores: [2.4, 2.4, 2.4],  // Sum: 7.2 (same! Will need comparison-all)
@@ -42,11 +47,13 @@ const skaters: SkaterScores[] = [
 
   // Rank 6: Felix & Grace - TIED, need final tie-breakers
   {
+    id: 'Felix',
     name: 'Felix',
     aScores: [1.9, 2.0, 1.9],
     bScores: [1.9, 2.0, 1.9],  // Sum: 5.8
   },
   {
+    id: 'Grace',
     name: 'Grace',
     aScores: [1.9, 1.9, 2.0],
     bScores: [1.9, 1.9, 2.0],  // Sum: 5.8 (same)
@@ -54,6 +61,7 @@ const skaters: SkaterScores[] = [
 
   // Rank 8: Hannah - loses to everyone (0 MV)
   {
+    id: 'Hannah',
     name: 'Hannah',
     aScores: [1.6, 1.7, 1.6],
     bScores: [1.7, 1.7, 1.7],
@@ -1,27 +1,224 @@
+import { useMemo, useState } from 'react';
 import { Container, Stack } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
 
-import { useUrlState } from './hooks/useUrlState';
+import type { CompetitionDocument } from './types/CompetitionDocument';
+import type { ScoreChange } from './types/ScoreChange';
+import type { SharePayload, ShareSettings } from './types/SharePayload';
+
+import { useUrlSearchParam, useUrlState } from './hooks/useUrlState';
 import { useScoreCalculation } from './hooks/useScoreCalculation';
 import { AppHeader } from './components/AppHeader/AppHeader';
 import { ScoreInput } from './components/ScoreInput/ScoreInput';
+import { CompetitionDetails } from './components/CompetitionDetails/CompetitionDetails';
+import { PrintView } from './components/PrintView/PrintView';
+import { CalculationTrace } from './components/CalculationTrace/CalculationTrace';
+import { ComparisonMatrix } from './components/ComparisonMatrix/ComparisonMatrix';
+import { JudgePlacements } from './components/JudgePlacements/JudgePlacements';
+import { JudgeAnalysis } from './components/JudgeAnalysis/JudgeAnalysis';
 import { HeadToHeadNetwork } from './components/HeadToHeadNetwork/HeadToHeadNetwork';
 import { SkaterResultTable } from './components/SkaterResultTable/SkaterResultTable';
+import { LiveStandings } from './components/LiveStandings/LiveStandings';
+import { MethodComparison } from './components/MethodComparison/MethodComparison';
+import { WhatIfPanel } from './components/WhatIf/WhatIfPanel';
 import { AppFooter } from './components/AppFooter/AppFooter';
+import {
+  createCompetitionDocument,
+  documentToInput,
+  getDocumentRuleset,
+  serializeCompetitionDocument,
+} from './utils/document';
+import { downloadFile } from './utils/download';
+import { parseSegments } from './utils/parser';
+import { calculateRankings } from './utils/scoring';
+import { applyScoreChanges, compareRankings, toSkaterScores } from './utils/whatIf';
 
 function App() {
-  const [input, setInput] = useUrlState();
-  const { results, error } = useScoreCalculation(input);
+  const [shared, setShared] = useUrlState();
+  const [viewParam, setViewParam] = useUrlSearchParam('view');
+  const [selectedSegment, setSelectedSegment] = useState(0);
+  const [whatIfEnabled, setWhatIfEnabled] = useState(false);
+  const [traceOpened, setTraceOpened] = useState(false);
+  const [scoreChanges, setScoreChanges] = useState<ScoreChange[]>([]);
+  const { input, metadata, judgeNames } = shared;
+  const { judgeCount: declaredJudgeCount, combinationRule, missingScorePolicy, ruleset } = shared.settings;
+
+  const updateShared = (changes: Partial<SharePayload>) => setShared(current => ({ ...current, ...changes }));
+  const updateSettings = (changes: Partial<ShareSettings>) =>
+    setShared(current => ({ ...current, settings: { ...current.settings, ...changes } }));
+  const { competition, diagnostics, error, judgeCount } = useScoreCalculation(input, {
+    judgeCount: declaredJudgeCount,
+    combinationRule,
+    missingScorePolicy,
+    ruleset,
+    trace: traceOpened, // The protocol is only calculated while it is open
+  });
+
+  // Detailed views show the selected segment (the only one for single-segment input)
+  const segmentIndex = Math.min(selectedSegment, Math.max(competition.segments.length - 1, 0));
+  const results = useMemo(() => competition.segments[segmentIndex]?.results ?? [], [competition, segmentIndex]);
+  const trace = competition.segments[segmentIndex]?.trace;
+  // Live mode ranks the selected segment in the order of the input
+  const startOrder = useMemo(
+    () => parseSegments(input, { judgeCount }).segments[segmentIndex]?.skaters ?? [],
+    [input, judgeCount, segmentIndex]
+  );
+
+  // What-if mode ranks a copy of the segment with the changed scores; the input stays untouched
+  const simulatedResults = useMemo(
+    () => whatIfEnabled && scoreChanges.length > 0
+      ? calculateRankings(applyScoreChanges(results.map(toSkaterScores), scoreChanges), { missingScorePolicy, ruleset })
+      : undefined,
+    [whatIfEnabled, scoreChanges, results, missingScorePolicy, ruleset]
+  );
+  const rankingChanges = useMemo(
+    () => simulatedResults ? compareRankings(results, simulatedResults) : [],
+    [results, simulatedResults]
+  );
+  const previousRanks = useMemo(
+    () => simulatedResults ? new Map(results.map(result => [result.id, result.rank])) : undefined,
+    [results, simulatedResults]
+  );
+  const changedIds = useMemo(
+    () => new Set(rankingChanges.filter(change => change.rankBefore !== change.rankAfter).map(change => change.id)),
+    [rankingChanges]
+  );
+
+  const handleSegmentChange = (index: number) => {
+    setSelectedSegment(index);
+    setScoreChanges([]);
+  };
+
+  const handleSaveDocument = () => {
+    const { segments } = parseSegments(input, { judgeCount });
+    if (segments.length === 0) {
+      notifications.show({ title: 'Nothing to save', message: 'Enter some scores first', color: 'red' });
+      return;
+    }
+
+    const document = createCompetitionDocument(segments, {
+      judgeCount,
+      combinationRule,
+      missingScorePolicy,
+      ruleset,
+      metadata,
+      judgeNames,
+    });
+    const fileName = (metadata.title || 'competition').toLowerCase().replace(/[^a-z0-9äöüß]+/g, '-').replace(/^-|-$/g, '');
+    downloadFile(serializeCompetitionDocument(document), `${fileName || 'competition'}.json`, 'application/json');
+  };
+
+  const handleOpenDocument = (document: CompetitionDocument) => {
+    setShared({
+      input: documentToInput(document),
+      settings: {
+        judgeCount: document.judges.length,
+        combinationRule: document.ruleset.combinationRule,
+        missingScorePolicy: document.ruleset.missingScorePolicy,
+        ruleset: getDocumentRuleset(document),
+      },
+      metadata: document.metadata,
+      judgeNames: document.judges.map(judge => judge.name ?? ''),
+    });
+    setSelectedSegment(0);
+    setScoreChanges([]);
+  };
+
+  if (viewParam === 'print' && competition.segments.length > 0) {
+    return (
+      <PrintView
+        competition={competition}
+        judgeCount={judgeCount}
+        metadata={metadata}
+        judgeNames={judgeNames}
+        combinationRule={combinationRule}
+        missingScorePolicy={missingScorePolicy}
+        ruleset={ruleset}
+        onClose={() => setViewParam(null)}
+      />
+    );
+  }
 
   return (
     <Container size="xl" py="md">
       <Stack gap="md">
         <AppHeader />
-        <ScoreInput input={input} onInputChange={setInput} error={error} />
+        <ScoreInput
+          input={input}
+          onInputChange={(value) => updateShared({ input: value })}
+          judgeCount={judgeCount}
+          judgeCountDeclared={declaredJudgeCount !== undefined}
+          onJudgeCountChange={(count) => updateSettings({ judgeCount: count })}
+          missingScorePolicy={missingScorePolicy}
+          onMissingScorePolicyChange={(policy) => updateSettings({ missingScorePolicy: policy })}
+          ruleset={ruleset}
+          onRulesetChange={(selected) => updateSettings({ ruleset: selected })}
+          diagnostics={diagnostics}
+          error={error}
+          onOpenDocument={handleOpenDocument}
+          onSaveDocument={handleSaveDocument}
+        />
+        <CompetitionDetails
+          metadata={metadata}
+          onMetadataChange={(changed) => updateShared({ metadata: changed })}
+          judgeCount={judgeCount}
+          judgeNames={judgeNames}
+          onJudgeNamesChange={(names) => updateShared({ judgeNames: names })}
+        />
 
         {results.length > 0 && (
           <Stack gap="md">
-            <SkaterResultTable results={results} />
-            <HeadToHeadNetwork results={results} maxHeight={800} />
+            <LiveStandings skaters={startOrder} missingScorePolicy={missingScorePolicy} ruleset={ruleset} />
+            <WhatIfPanel
+              results={results}
+              judgeCount={judgeCount}
+              enabled={whatIfEnabled}
+              onEnabledChange={setWhatIfEnabled}
+              changes={scoreChanges}
+              onChangesChange={setScoreChanges}
+              rankingChanges={rankingChanges}
+            />
+            <SkaterResultTable
+              results={simulatedResults ?? results}
+              judgeCount={judgeCount}
+              missingScorePolicy={missingScorePolicy}
+              ruleset={ruleset}
+              competition={competition}
+              selectedSegment={segmentIndex}
+              onSegmentChange={handleSegmentChange}
+              combinationRule={combinationRule}
+              onCombinationRuleChange={(rule) => updateSettings({ combinationRule: rule })}
+              onPrint={() => setViewParam('print')}
+              previousRanks={previousRanks}
+            />
+            <ComparisonMatrix results={results} segmentName={competition.segments[segmentIndex].name} />
+            <JudgePlacements
+              results={results}
+              judgeCount={judgeCount}
+              judgeNames={judgeNames}
+              missingScorePolicy={missingScorePolicy}
+              ruleset={ruleset}
+            />
+            <JudgeAnalysis
+              results={results}
+              judgeCount={judgeCount}
+              judgeNames={judgeNames}
+              missingScorePolicy={missingScorePolicy}
+              ruleset={ruleset}
+            />
+            <MethodComparison results={results} missingScorePolicy={missingScorePolicy} ruleset={ruleset} />
+            <CalculationTrace
+              trace={trace}
+              opened={traceOpened}
+              onOpenedChange={setTraceOpened}
+              segmentName={competition.segments[segmentIndex].name}
+            />
+            <HeadToHeadNetwork
+              results={simulatedResults ?? results}
+              maxHeight={800}
+              highlightedIds={changedIds}
+              segmentName={competition.segments[segmentIndex].name}
+            />
           </Stack>
         )}
 
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Anchor, Badge, Button, Collapse, Group, Paper, Stack, Table, Text } from '@mantine/core';
+import { IconChevronDown, IconChevronLeft, IconChevronRight, IconDownload } from '@tabler/icons-react';
+
+import type { RankingTrace, TraceGroup } from '../../types/RankingTrace';
+import { downloadFile } from '../../utils/download';
+import { formatTieBreakValue, getTieBreakLevelName, getTieBreakValueLabel } from '../SkaterResultTable/tieBreakLabels';
+
+interface CalculationTraceProps {
+  trace?: RankingTrace; // Only calculated while the protocol is open
+  opened: boolean;
+  onOpenedChange: (opened: boolean) => void;
+  segmentName?: string; // Used for the file name of the downloaded protocol
+}
+
+function formatRanks(group: TraceGroup): string {
+  const lastRank = group.firstRank + group.skaterIds.length - 1;
+  return lastRank > group.firstRank ? `Ranks ${group.firstRank}–${lastRank}` : `Rank ${group.firstRank}`;
+}
+
+/**
+ * First step: the pairwise vote matrix and the resulting M.V. of every skater
+ */
+function VoteMatrixStep({ trace }: { trace: RankingTrace }) {
+  return (
+    <Stack gap="xs">
+      <Text size="sm" c="dimmed">
+        Judges for the skater in the row against the skater in the column (½ per tied judge).
+        A majority of the judges wins the comparison and counts 1 M.V., a draw counts ½.
+      </Text>
+      <Table.ScrollContainer minWidth={300}>
+        <Table withTableBorder withColumnBorders ff="monospace" fz="sm">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th />
+              {trace.skaters.map(skater => <Table.Th key={skater.id} ta="center">{skater.name}</Table.Th>)}
+              <Table.Th ta="center">M.V.</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {trace.skaters.map((skater, i) => (
+              <Table.Tr key={skater.id}>
+                <Table.Th>{skater.name}</Table.Th>
+                {trace.votes[i].map((votes, j) => (
+                  <Table.Td key={j} ta="center" c={votes === null ? 'dimmed' : undefined}>
+                    {votes === null ? '–' : votes}
+                  </Table.Td>
+                ))}
+                <Table.Td ta="center" fw={700}>{trace.majorityVictories[skater.id]}</Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+    </Stack>
+  );
+}
+
+/**
+ * Step of one M.V. group: the values of every tie-break level and which level separated each pair
+ */
+function GroupStep({ trace, group }: { trace: RankingTrace; group: TraceGroup }) {
+  const nameOf = (id: string) => trace.skaters.find(skater => skater.id === id)?.name ?? id;
+
+  if (group.skaterIds.length === 1) {
+    return (
+      <Text size="sm">
+        {nameOf(group.skaterIds[0])} is the only skater with {group.majorityVictories} M.V. - no tie-break needed.
+      </Text>
+    );
+  }
+
+  return (
+    <Stack gap="xs">
+      <Text size="sm" c="dimmed">
+        {group.skaterIds.length} skaters share {group.majorityVictories} M.V. The tie-break levels are applied in order;
+        the first level with different values decides.
+      </Text>
+      <Table.ScrollContainer minWidth={300}>
+        <Table withTableBorder withColumnBorders ff="monospace" fz="sm">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Rank</Table.Th>
+              <Table.Th>Skater</Table.Th>
+              {group.levels.map(({ level }) => (
+                <Table.Th key={level} ta="center">{getTieBreakValueLabel(level)}</Table.Th>
+              ))}
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {group.skaterIds.map((id, k) => (
+              <Table.Tr key={id}>
+                <Table.Td>{group.ranks[k]}</Table.Td>
+                <Table.Th>{nameOf(id)}</Table.Th>
+                {group.levels.map(({ level, values }) => (
+                  <Table.Td key={level} ta="center">{formatTieBreakValue(values[id])}</Table.Td>
+                ))}
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+      <Stack gap={2}>
+        {group.separations.map(({ higherId, lowerId, level }) => (
+          <Text key={`${higherId}-${lowerId}`} size="xs" c={level === 'none' ? 'orange' : 'cyan'} fs="italic">
+            {level === 'none'
+              ? `${nameOf(higherId)} and ${nameOf(lowerId)} are equal on every level`
+              : `${nameOf(higherId)} ahead of ${nameOf(lowerId)} by ${getTieBreakLevelName(level)}`}
+          </Text>
+        ))}
+      </Stack>
+    </Stack>
+  );
+}
+
+/**
+ * Collapsible calculation protocol that replays the ranking step by step:
+ * the pairwise votes first, then every M.V. group with its tie-breaks.
+ * The full protocol can be downloaded as JSON, e.g. to answer a protest.
+ * Opening it turns on the trace in the calculation, so it costs nothing while closed.
+ */
+export function CalculationTrace({ trace, opened, onOpenedChange, segmentName }: CalculationTraceProps) {
+  const [step, setStep] = useState(0);
+
+  const stepCount = (trace?.groups.length ?? 0) + 1;
+  const currentStep = Math.min(step, stepCount - 1);
+  const group = currentStep > 0 ? trace?.groups[currentStep - 1] : undefined;
+
+  const handleDownload = () => {
+    const name = (segmentName ?? 'ranking').toLowerCase().replace(/[^a-z0-9äöüß]+/g, '-').replace(/^-|-$/g, '');
+    downloadFile(`${JSON.stringify(trace, null, 2)}\n`, `${name || 'ranking'}-protocol.json`, 'application/json');
+  };
+
+  return (
+    <Paper shadow="sm" p="md" withBorder radius="md">
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Anchor size="sm" onClick={() => onOpenedChange(!opened)} style={{ cursor: 'pointer' }}>
+            <Group gap={4}>
+              {opened ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+              Calculation protocol
+            </Group>
+          </Anchor>
+          {opened && trace && (
+            <Anchor size="sm" onClick={handleDownload} style={{ cursor: 'pointer' }}>
+              <Group gap={4}>
+                <IconDownload size={14} />
+                Download JSON
+              </Group>
+            </Anchor>
+          )}
+        </Group>
+        <Collapse in={opened && trace !== undefined}>
+          {trace && (
+            <Stack gap="sm">
+              <Group justify="space-between">
+                <Group gap="xs">
+                  <Badge variant="light">Step {currentStep + 1} of {stepCount}</Badge>
+                  <Text size="sm" fw={600}>
+                    {group ? `${formatRanks(group)} · ${group.majorityVictories} M.V.` : 'Pairwise comparisons'}
+                  </Text>
+                </Group>
+                <Group gap="xs">
+                  <Button
+                    size="xs"
+                    variant="default"
+                    radius="md"
+                    leftSection={<IconChevronLeft size={14} />}
+                    disabled={currentStep === 0}
+                    onClick={() => setStep(currentStep - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="default"
+                    radius="md"
+                    rightSection={<IconChevronRight size={14} />}
+                    disabled={currentStep === stepCount - 1}
+                    onClick={() => setStep(currentStep + 1)}
+                  >
+                    Next
+                  </Button>
+                </Group>
+              </Group>
+              {group ? <GroupStep trace={trace} group={group} /> : <VoteMatrixStep trace={trace} />}
+            </Stack>
+          )}
+        </Collapse>
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Anchor, Button, Collapse, Group, Menu, Paper, Stack, Table, Text, Tooltip } from '@mantine/core';
+import { IconChevronDown, IconChevronRight, IconDownload } from '@tabler/icons-react';
+
+import type { CrossTableCell } from '../../types/CrossTable';
+import type { SkaterResult } from '../../types/SkaterResult';
+import { buildCrossTable } from '../../utils/crossTable';
+import { formatCrossTableCsv } from '../../utils/csv';
+import type { CsvDelimiter } from '../../utils/csv';
+import { downloadFile } from '../../utils/download';
+
+interface ComparisonMatrixProps {
+  results: SkaterResult[];
+  segmentName?: string; // Used for the file name of the CSV export
+}
+
+const OUTCOME_COLORS: Record<CrossTableCell['outcome'], string> = {
+  win: 'var(--mantine-color-green-light)',
+  loss: 'var(--mantine-color-red-light)',
+  draw: 'var(--mantine-color-yellow-light)',
+};
+
+const OUTCOME_LABELS: Record<CrossTableCell['outcome'], string> = {
+  win: 'wins against',
+  loss: 'loses against',
+  draw: 'draws with',
+};
+
+/**
+ * Collapsible cross table (Kreuztabelle): every skater against every other skater,
+ * both axes in rank order. A cell shows the judge votes of the row skater and is
+ * coloured by the outcome; the row sum of wins (1) and draws (½) is the M.V.
+ */
+export function ComparisonMatrix({ results, segmentName }: ComparisonMatrixProps) {
+  const [opened, setOpened] = useState(false);
+  const table = buildCrossTable(results);
+
+  const handleExport = (delimiter: CsvDelimiter) => {
+    const name = segmentName ? `-${segmentName.toLowerCase().replace(/\s+/g, '-')}` : '';
+    // The byte order mark makes Excel read umlauts in names as UTF-8
+    downloadFile(`\uFEFF${formatCrossTableCsv(table, { delimiter })}`, `cross-table${name}.csv`, 'text/csv');
+  };
+
+  return (
+    <Paper shadow="sm" p="md" withBorder radius="md">
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Anchor size="sm" onClick={() => setOpened(!opened)} style={{ cursor: 'pointer' }}>
+            <Group gap={4}>
+              {opened ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+              Cross table
+            </Group>
+          </Anchor>
+          {opened && (
+            <Menu position="bottom-end" radius="md">
+              <Menu.Target>
+                <Button size="xs" variant="light" radius="md" leftSection={<IconDownload size={14} />}>
+                  Export CSV
+                </Button>
+              </Menu.Target>
+              <Menu.Dropdown>
+                <Menu.Item onClick={() => handleExport(',')}>Comma-separated (.csv)</Menu.Item>
+                <Menu.Item onClick={() => handleExport(';')}>Semicolon-separated (Excel, German)</Menu.Item>
+              </Menu.Dropdown>
+            </Menu>
+          )}
+        </Group>
+        <Collapse in={opened}>
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              Judge votes of the skater in the row against the skater in the column. Rows sum up to the M.V.:
+              1 per win, ½ per draw.
+            </Text>
+            <Table.ScrollContainer minWidth={300}>
+              <Table withTableBorder withColumnBorders ff="monospace" fz="sm">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Skater</Table.Th>
+                    {table.rows.map(row => (
+                      <Table.Th key={row.id} ta="center" title={row.name}>{row.rank}</Table.Th>
+                    ))}
+                    <Table.Th ta="center">M.V.</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {table.rows.map(row => (
+                    <Table.Tr key={row.id}>
+                      <Table.Th style={{ whiteSpace: 'nowrap' }}>
+                        {row.rank}. {row.name}
+                      </Table.Th>
+                      {row.cells.map((cell, j) => cell ? (
+                        <Tooltip
+                          key={table.rows[j].id}
+                          label={`${row.name} ${OUTCOME_LABELS[cell.outcome]} ${table.rows[j].name}`}
+                          withArrow
+                        >
+                          <Table.Td ta="center" style={{ backgroundColor: OUTCOME_COLORS[cell.outcome] }}>
+                            {cell.skaterVotes}:{cell.opponentVotes}
+                          </Table.Td>
+                        </Tooltip>
+                      ) : (
+                        <Table.Td key={table.rows[j].id} ta="center" c="dimmed">–</Table.Td>
+                      ))}
+                      <Table.Td ta="center" fw={700}>{row.majorityVictories}</Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+          </Stack>
+        </Collapse>
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Anchor, Collapse, Group, Paper, SimpleGrid, Stack, Text, TextInput } from '@mantine/core';
+import { IconChevronDown, IconChevronRight } from '@tabler/icons-react';
+
+import type { CompetitionMetadata } from '../../types/CompetitionDocument';
+
+interface CompetitionDetailsProps {
+  metadata: CompetitionMetadata;
+  onMetadataChange: (metadata: CompetitionMetadata) => void;
+  judgeCount: number;
+  judgeNames: string[];
+  onJudgeNamesChange: (names: string[]) => void;
+}
+
+const METADATA_INPUTS: Array<{ field: keyof CompetitionMetadata; label: string; placeholder: string; type?: string }> = [
+  { field: 'title', label: 'Event', placeholder: 'Landesmeisterschaft 2026' },
+  { field: 'category', label: 'Category', placeholder: 'Freiläufer Damen' },
+  { field: 'date', label: 'Date', placeholder: '', type: 'date' },
+  { field: 'venue', label: 'Venue', placeholder: 'Rollsporthalle' },
+  { field: 'organizer', label: 'Organizer', placeholder: 'RSC Example e.V.' },
+];
+
+/**
+ * Collapsible form for the event details and judge names that are saved with the competition
+ */
+export function CompetitionDetails({
+  metadata,
+  onMetadataChange,
+  judgeCount,
+  judgeNames,
+  onJudgeNamesChange,
+}: CompetitionDetailsProps) {
+  const [opened, setOpened] = useState(false);
+  const summary = [metadata.title, metadata.category].filter(Boolean).join(' · ');
+
+  const handleJudgeNameChange = (index: number, name: string) => {
+    const names = Array.from({ length: Math.max(judgeNames.length, index + 1) }, (_, i) => judgeNames[i] ?? '');
+    names[index] = name;
+    onJudgeNamesChange(names);
+  };
+
+  return (
+    <Paper shadow="sm" p="md" withBorder radius="md">
+      <Stack gap="sm">
+        <Group gap="xs">
+          <Anchor size="sm" onClick={() => setOpened(!opened)} style={{ cursor: 'pointer' }}>
+            <Group gap={4}>
+              {opened ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+              Competition details
+            </Group>
+          </Anchor>
+          {!opened && summary && <Text size="sm" c="dimmed">{summary}</Text>}
+        </Group>
+        <Collapse in={opened}>
+          <Stack gap="sm">
+            <SimpleGrid cols={{ base: 1, sm: 3 }} spacing="sm">
+              {METADATA_INPUTS.map(({ field, label, placeholder, type }) => (
+                <TextInput
+                  key={field}
+                  size="xs"
+                  radius="md"
+                  label={label}
+                  type={type}
+                  placeholder={placeholder}
+                  value={metadata[field] ?? ''}
+                  onChange={(e) => onMetadataChange({ ...metadata, [field]: e.currentTarget.value })}
+                />
+              ))}
+            </SimpleGrid>
+            <SimpleGrid cols={{ base: 2, sm: Math.min(judgeCount, 5) }} spacing="sm">
+              {Array.from({ length: judgeCount }, (_, i) => (
+                <TextInput
+                  key={i}
+                  size="xs"
+                  radius="md"
+                  label={`Judge ${i + 1}`}
+                  placeholder="Name"
+                  value={judgeNames[i] ?? ''}
+                  onChange={(e) => handleJudgeNameChange(i, e.currentTarget.value)}
+                />
+              ))}
+            </SimpleGrid>
+          </Stack>
+        </Collapse>
+      </Stack>
+    </Paper>
+  );
+}
@@ -3,4 +3,6 @@ import type { HeadToHeadNode } from './HeadToHeadNode';
 export interface HeadToHeadLink {
   source: string | HeadToHeadNode;
   target: string | HeadToHeadNode;
+  draw?: boolean; // Undirected: the judges were split evenly
+  cyclic?: boolean; // Victory inside a majority cycle
 }
@@ -1,30 +1,49 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import { Paper, Stack, Text, Group } from '@mantine/core';
+import { Button, Paper, Stack, Text, Group, Menu, SegmentedControl } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconDownload } from '@tabler/icons-react';
 import ForceGraph3D from 'react-force-graph-3d';
 import SpriteText from 'three-spritetext';
 
 import type { SkaterResult } from '../../types/SkaterResult';
+import { analyzeCondorcet } from '../../utils/condorcet';
+import { downloadFile } from '../../utils/download';
+import { formatGraphDot, formatGraphMl } from '../../utils/graphExport';
+import { renderSvgToPng, serializeSvg } from '../../utils/imageExport';
 import type { HeadToHeadNode } from './HeadToHeadNode';
 import type { HeadToHeadLink } from './HeadToHeadLink';
-import { buildGraph } from './buildGraph';
+import { buildGraph, getEndpointId } from './buildGraph';
 import { COLORS } from './colors';
+import { HeadToHeadNetwork2D } from './HeadToHeadNetwork2D';
+
+type NetworkView = '3d' | '2d';
+
+type GraphFormat = 'dot' | 'graphml';
 
 interface HeadToHeadNetworkProps {
   results: SkaterResult[];
   maxHeight?: number;
+  highlightedIds?: Set<string>; // Skaters drawn in the highlight color, e.g. changed placements
+  segmentName?: string; // Used for the file name of the image export
 }
 
 export function HeadToHeadNetwork({
   results,
   maxHeight = 800,
+  highlightedIds,
+  segmentName,
 }: HeadToHeadNetworkProps) {
+  const [view, setView] = useState<NetworkView>('3d');
   const [selectedNode, setSelectedNode] = useState<HeadToHeadNode | null>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: maxHeight });
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const graphRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
 
-  const graphData = useMemo(() => buildGraph(results), [results]);
+  const graphData = useMemo(() => buildGraph(results, highlightedIds), [results, highlightedIds]);
+  const condorcet = useMemo(() => analyzeCondorcet(results), [results]);
+  const nameOf = (id: string) => results.find(result => result.id === id)?.name ?? id;
 
   // Handle responsive sizing with aspect ratio
   useEffect(() => {
@@ -64,7 +83,7 @@ export function HeadToHeadNetwork({
       clearTimeout(timer);
       window.removeEventListener('resize', updateDimensions);
     };
-  }, [maxHeight]);
+  }, [maxHeight, view]);
 
   // Configure d3 forces for better node spacing
   useEffect(() => {
@@ -114,7 +133,7 @@ export function HeadToHeadNetwork({
 
       return () => clearTimeout(timer);
     }
-  }, [graphData]);
+  }, [graphData, view]);
 
   // Handle node click
   const handleNodeClick = useCallback((node: HeadToHeadNode) => {
@@ -161,8 +180,12 @@ export function HeadToHeadNetwork({
     return sprite;
   }, []);
 
-  // Link color - use source node color
+  const drawCount = graphData.links.filter(link => link.draw).length;
+
+  // Link color - use source node color, draws in neutral grey
   const linkColor = useCallback((link: HeadToHeadLink) => {
+    if (link.draw) return COLORS.DRAW;
+    if (link.cyclic) return COLORS.CYCLE;
     const sourceNode = typeof link.source === 'object' ? link.source : graphData.nodes.find(n => n.id === link.source);
     return sourceNode?.color || COLORS.CYAN;
   }, [graphData.nodes]);
@@ -173,69 +196,147 @@ export function HeadToHeadNetwork({
     return targetNode?.color || COLORS.CYAN;
   }, [graphData.nodes]);
 
+  const fileName = `head-to-head${segmentName ? `-${segmentName.toLowerCase().replace(/\s+/g, '-')}` : ''}`;
+
+  // Every victory and draw, or only the edges shown in the network
+  const handleGraphExport = (format: GraphFormat, reduced: boolean) => {
+    const links = reduced
+      ? graphData.links.map(link => ({ source: getEndpointId(link.source), target: getEndpointId(link.target) }))
+      : undefined;
+    const name = `${fileName}${reduced ? '-reduced' : ''}`;
+    if (format === 'dot') {
+      downloadFile(formatGraphDot(results, links), `${name}.dot`, 'text/vnd.graphviz');
+    } else {
+      downloadFile(formatGraphMl(results, links), `${name}.graphml`, 'application/graphml+xml');
+    }
+  };
+
+  const handleImageExport = async (format: 'svg' | 'png') => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    if (format === 'svg') {
+      downloadFile(serializeSvg(svg), `${fileName}.svg`, 'image/svg+xml');
+      return;
+    }
+    try {
+      downloadFile(await renderSvgToPng(svg), `${fileName}.png`);
+    } catch (err) {
+      notifications.show({
+        title: 'Could not export the image',
+        message: err instanceof Error ? err.message : 'Unknown error',
+        color: 'red',
+      });
+    }
+  };
+
   return (
     <Paper shadow="sm" p="md" withBorder radius="md" className="fade-in">
       <Stack gap="sm">
-        <Stack gap={4}>
-          <Text size="lg" fw={600}>Head-to-Head Network</Text>
-          <Text size="xs" c="dimmed">
-            Drag to rotate • Scroll to zoom • Click node to focus
-          </Text>
-        </Stack>
-
-        <div
-          ref={containerRef}
-          style={{
-            width: '100%',
-            height: `${dimensions.height}px`,
-            position: 'relative',
-            background: 'linear-gradient(180deg, #0a0a0a 0%, #1a1b1e 100%)',
-            borderRadius: '8px',
-            overflow: 'hidden',
-          }}
-        >
-          {dimensions.width > 0 && dimensions.height > 0 && (
-            <ForceGraph3D
-              ref={graphRef}
-              graphData={graphData}
-              width={dimensions.width}
-              height={dimensions.height}
-              backgroundColor="rgba(0,0,0,0)"
-              nodeLabel={(node: HeadToHeadNode) =>
-                `<span style="background: rgba(0,0,0,0.9); padding: 8px 12px; border-radius: 6px; font-family: sans-serif; display: inline-block;">` +
-                `<span style="font-weight: 600; color: ${node.color}; display: block; margin-bottom: 4px;">${node.name}</span>` +
-                `<span style="font-size: 12px; color: #c1c2c5; display: block;">Rank #${node.rank} • ${node.wins} wins</span>` +
-                `<span style="font-size: 11px; color: #909296; display: block; margin-top: 4px;">Click to focus</span>` +
-                `</span>`
-              }
-              nodeThreeObject={nodeThreeObject}
-              nodeThreeObjectExtend={true}
-              linkColor={linkColor}
-              linkWidth={2}
-              linkDirectionalArrowLength={8}
-              linkDirectionalArrowRelPos={1}
-              linkDirectionalArrowColor={linkColor}
-              linkCurvature={0.25}
-              linkOpacity={0.6}
-              linkDirectionalParticles={2}
-              linkDirectionalParticleSpeed={0.006}
-              linkDirectionalParticleWidth={2}
-              linkDirectionalParticleColor={linkDirectionalParticleColor}
-              enableNodeDrag={true}
-              enableNavigationControls={true}
-              controlType="trackball"
-              showNavInfo={false}
-              onNodeClick={handleNodeClick}
-              onNodeHover={handleNodeHover}
-              onBackgroundClick={handleBackgroundClick}
-              d3VelocityDecay={0.4}
-              d3AlphaDecay={0.0228}
-              warmupTicks={150}
-              cooldownTicks={Infinity}
-              cooldownTime={20000}
+        <Group justify="space-between" align="flex-start">
+          <Stack gap={4}>
+            <Text size="lg" fw={600}>Head-to-Head Network</Text>
+            <Text size="xs" c="dimmed">
+              {view === '3d'
+                ? 'Drag to rotate • Scroll to zoom • Click node to focus'
+                : 'One row per M.V. tier • Arrows point from winner to loser'}
+            </Text>
+          </Stack>
+          <Group gap="sm">
+            <SegmentedControl
+              size="xs"
+              radius="md"
+              data={[{ value: '3d', label: '3D' }, { value: '2d', label: '2D' }]}
+              value={view}
+              onChange={(value) => setView(value as NetworkView)}
             />
-          )}
-        </div>
+            <Menu position="bottom-end" radius="md">
+              <Menu.Target>
+                <Button size="xs" variant="light" radius="md" leftSection={<IconDownload size={14} />}>
+                  Export
+                </Button>
+              </Menu.Target>
+              <Menu.Dropdown>
+                {view === '2d' && (
+                  <>
+                    <Menu.Label>Image</Menu.Label>
+                    <Menu.Item onClick={() => handleImageExport('svg')}>Vector graphic (.svg)</Menu.Item>
+                    <Menu.Item onClick={() => handleImageExport('png')}>Image (.png)</Menu.Item>
+                  </>
+                )}
+                <Menu.Label>All victories and draws</Menu.Label>
+                <Menu.Item onClick={() => handleGraphExport('dot', false)}>Graphviz (.dot)</Menu.Item>
+                <Menu.Item onClick={() => handleGraphExport('graphml', false)}>GraphML (.graphml)</Menu.Item>
+                <Menu.Label>Edges shown in the network</Menu.Label>
+                <Menu.Item onClick={() => handleGraphExport('dot', true)}>Graphviz (.dot)</Menu.Item>
+                <Menu.Item onClick={() => handleGraphExport('graphml', true)}>GraphML (.graphml)</Menu.Item>
+              </Menu.Dropdown>
+            </Menu>
+          </Group>
+        </Group>
+
+        {view === '2d' && (
+          <div style={{ borderRadius: '8px', overflow: 'auto' }}>
+            <HeadToHeadNetwork2D graph={graphData} svgRef={svgRef} maxHeight={maxHeight} />
+          </div>
+        )}
+
+        {view === '3d' && (
+          <div
+            ref={containerRef}
+            style={{
+              width: '100%',
+              height: `${dimensions.height}px`,
+              position: 'relative',
+              background: 'linear-gradient(180deg, #0a0a0a 0%, #1a1b1e 100%)',
+              borderRadius: '8px',
+              overflow: 'hidden',
+            }}
+          >
+            {dimensions.width > 0 && dimensions.height > 0 && (
+              <ForceGraph3D
+                ref={graphRef}
+                graphData={graphData}
+                width={dimensions.width}
+                height={dimensions.height}
+                backgroundColor="rgba(0,0,0,0)"
+                nodeLabel={(node: HeadToHeadNode) =>
+                  `<span style="background: rgba(0,0,0,0.9); padding: 8px 12px; border-radius: 6px; font-family: sans-serif; display: inline-block;">` +
+                  `<span style="font-weight: 600; color: ${node.color}; display: block; margin-bottom: 4px;">${node.name}</span>` +
+                  `<span style="font-size: 12px; color: #c1c2c5; display: block;">Rank #${node.rank} • ${node.wins} wins</span>` +
+                  (node.cyclic ? `<span style="font-size: 12px; color: ${COLORS.CYCLE}; display: block;">In a majority cycle</span>` : '') +
+                  `<span style="font-size: 11px; color: #909296; display: block; margin-top: 4px;">Click to focus</span>` +
+                  `</span>`
+                }
+                nodeThreeObject={nodeThreeObject}
+                nodeThreeObjectExtend={true}
+                linkColor={linkColor}
+                linkWidth={2}
+                linkDirectionalArrowLength={(link: HeadToHeadLink) => (link.draw ? 0 : 8)}
+                linkDirectionalArrowRelPos={1}
+                linkDirectionalArrowColor={linkColor}
+                linkCurvature={0.25}
+                linkOpacity={0.6}
+                linkDirectionalParticles={(link: HeadToHeadLink) => (link.draw ? 0 : 2)}
+                linkDirectionalParticleSpeed={0.006}
+                linkDirectionalParticleWidth={2}
+                linkDirectionalParticleColor={linkDirectionalParticleColor}
+                enableNodeDrag={true}
+                enableNavigationControls={true}
+                controlType="trackball"
+                showNavInfo={false}
+                onNodeClick={handleNodeClick}
+                onNodeHover={handleNodeHover}
+                onBackgroundClick={handleBackgroundClick}
+                d3VelocityDecay={0.4}
+                d3AlphaDecay={0.0228}
+                warmupTicks={150}
+                cooldownTicks={Infinity}
+                cooldownTime={20000}
+              />
+            )}
+          </div>
+        )}
 
         <Group justify="space-between">
           <Group gap="md">
@@ -255,11 +356,44 @@ export function HeadToHeadNetwork({
               <div style={{ width: 16, height: 16, borderRadius: '50%', backgroundColor: COLORS.CYAN }} />
               <Text size="xs" c="dimmed">Others</Text>
             </Group>
+            {drawCount > 0 && (
+              <Group gap={4}>
+                <div style={{ width: 16, height: 2, backgroundColor: COLORS.DRAW }} />
+                <Text size="xs" c="dimmed">Draw</Text>
+              </Group>
+            )}
+            {condorcet.cyclicGroups.length > 0 && (
+              <Group gap={4}>
+                <div style={{ width: 16, height: 2, backgroundColor: COLORS.CYCLE }} />
+                <Text size="xs" c="dimmed">Majority cycle</Text>
+              </Group>
+            )}
+            {highlightedIds && highlightedIds.size > 0 && (
+              <Group gap={4}>
+                <div style={{ width: 16, height: 16, borderRadius: '50%', backgroundColor: COLORS.CHANGED }} />
+                <Text size="xs" c="dimmed">Changed placement</Text>
+              </Group>
+            )}
           </Group>
           <Text size="xs" c="dimmed">
-            {selectedNode ? 'Focused on ' + selectedNode.name : `${graphData.nodes.length} skaters • ${graphData.links.length} victories`}
+            {selectedNode && view === '3d' ? 'Focused on ' + selectedNode.name : `${graphData.nodes.length} skaters • ${graphData.links.length - drawCount} victories${drawCount > 0 ? ` • ${drawCount} draws` : ''}`}
           </Text>
         </Group>
+
+        {condorcet.cyclicGroups.map((group, index) => (
+          <Text key={index} size="xs" c="red">
+            Majority cycle: {group.map(nameOf).join(', ')} beat each other in a circle - only M.V. and the tie-breaks
+            decide their order
+          </Text>
+        ))}
+        {results.length > 1 && (
+          <Text size="xs" c="dimmed">
+            {condorcet.condorcetWinner
+              ? `Condorcet winner: ${nameOf(condorcet.condorcetWinner)} beat every other skater`
+              : `No Condorcet winner - Smith set: ${condorcet.smithSet.map(nameOf).join(', ')}`}
+            {condorcet.condorcetLoser && ` • Condorcet loser: ${nameOf(condorcet.condorcetLoser)}`}
+          </Text>
+        )}
       </Stack>
     </Paper>
   );
@@ -0,0 +1,120 @@
+import { useId, useMemo } from 'react';
+import type { RefObject } from 'react';
+
+import type { HeadToHeadGraph } from './HeadToHeadGraph';
+import type { HeadToHeadLink } from './HeadToHeadLink';
+import { getEndpointId } from './buildGraph';
+import { COLORS } from './colors';
+import { getEdgePath, getNodeRadius, layoutGraph } from './layoutGraph';
+
+interface HeadToHeadNetwork2DProps {
+  graph: HeadToHeadGraph;
+  svgRef?: RefObject<SVGSVGElement | null>; // For the image export
+  maxHeight: number;
+}
+
+const BACKGROUND = '#1a1b1e';
+const TEXT = '#c1c2c5';
+const DIMMED = '#909296';
+const FONT = 'Inter, -apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif';
+
+/**
+ * Flat SVG view of the head-to-head network for projectors, print and image export: one row
+ * per M.V. tier, an arrow from winner to loser, a dashed line for a draw and majority cycles in red.
+ * Colours are set as attributes, so the exported image looks the same outside the app.
+ */
+export function HeadToHeadNetwork2D({ graph, svgRef, maxHeight }: HeadToHeadNetwork2DProps) {
+  const markerPrefix = `arrow-${useId().replace(/[^a-zA-Z0-9-]/g, '')}`;
+  const layout = useMemo(() => layoutGraph(graph), [graph]);
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+
+  const getLinkColor = (link: HeadToHeadLink) => {
+    if (link.draw) return COLORS.DRAW;
+    if (link.cyclic) return COLORS.CYCLE;
+    return nodesById.get(getEndpointId(link.source))?.color ?? COLORS.CYAN;
+  };
+  const arrowColors = [...new Set(graph.links.filter(link => !link.draw).map(getLinkColor))];
+
+  return (
+    <svg
+      ref={svgRef}
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      width={layout.width}
+      height={layout.height}
+      style={{ width: '100%', height: 'auto', maxHeight, display: 'block' }}
+      fontFamily={FONT}
+    >
+      <defs>
+        {arrowColors.map((color, index) => (
+          <marker
+            key={color}
+            id={`${markerPrefix}-${index}`}
+            viewBox="0 0 10 10"
+            refX={9}
+            refY={5}
+            markerWidth={7}
+            markerHeight={7}
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+
+      <rect width={layout.width} height={layout.height} fill={BACKGROUND} />
+
+      {layout.tiers.map(tier => (
+        <text key={tier.majorityVictories} x={16} y={tier.y + 4} fontSize={12} fill={DIMMED}>
+          {tier.majorityVictories} M.V.
+        </text>
+      ))}
+
+      {graph.links.map(link => {
+        const source = nodesById.get(getEndpointId(link.source));
+        const target = nodesById.get(getEndpointId(link.target));
+        const from = source && layout.positions.get(source.id);
+        const to = target && layout.positions.get(target.id);
+        if (!source || !target || !from || !to) return null;
+
+        const color = getLinkColor(link);
+        return (
+          <path
+            key={`${source.id}-${target.id}`}
+            d={getEdgePath(from, to, getNodeRadius(source), getNodeRadius(target))}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            strokeOpacity={0.75}
+            strokeDasharray={link.draw ? '6 4' : undefined}
+            markerEnd={link.draw ? undefined : `url(#${markerPrefix}-${arrowColors.indexOf(color)})`}
+          />
+        );
+      })}
+
+      {graph.nodes.map(node => {
+        const position = layout.positions.get(node.id)!;
+        const radius = getNodeRadius(node);
+        return (
+          <g key={node.id}>
+            <title>{`${node.name}: rank ${node.rank}, ${node.wins} M.V.${node.cyclic ? ', in a majority cycle' : ''}`}</title>
+            <circle
+              cx={position.x}
+              cy={position.y}
+              r={radius}
+              fill={node.color}
+              stroke={node.cyclic ? COLORS.CYCLE : BACKGROUND}
+              strokeWidth={node.cyclic ? 3 : 2}
+            />
+            <text x={position.x} y={position.y + radius + 15} textAnchor="middle" fontSize={13} fontWeight={600} fill={TEXT}>
+              {node.name}
+            </text>
+            <text x={position.x} y={position.y + radius + 29} textAnchor="middle" fontSize={11} fill={DIMMED}>
+              #{node.rank}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -5,6 +5,7 @@ export interface HeadToHeadNode {
   wins: number;
   color: string;
   size: number;
+  cyclic: boolean; // Part of a majority cycle
   x?: number;
   y?: number;
   z?: number;
@@ -2,6 +2,7 @@ import type { SkaterResult } from '../../types/SkaterResult';
 import type { HeadToHeadNode } from './HeadToHeadNode';
 import type { HeadToHeadLink } from './HeadToHeadLink';
 import type { HeadToHeadGraph } from './HeadToHeadGraph';
+import { analyzeCondorcet } from '../../utils/condorcet';
 import { COLORS } from './colors';
 
 function getNodeColor(rank: number): string {
@@ -17,26 +18,48 @@ function getNodeSize(wins: number): number {
   return 8 + (wins * 2); // Scales with wins for clear visual hierarchy
 }
 
-export function buildGraph(results: SkaterResult[]): HeadToHeadGraph {
+/**
+ * ID of a link end - the 3D view replaces the IDs of its links with the node objects
+ */
+export function getEndpointId(endpoint: HeadToHeadLink['source']): string {
+  return typeof endpoint === 'object' ? endpoint.id : endpoint;
+}
+
+/**
+ * Builds the graph of direct victories and draws. Victories are directed and reduced
+ * transitively, draws are undirected and always kept. The reduction follows the rank order,
+ * which a majority cycle contradicts, so every victory inside a cycle is kept and marked.
+ * Highlighted skaters (e.g. changed placements in what-if mode) are drawn in a separate color.
+ */
+export function buildGraph(results: SkaterResult[], highlightedIds: Set<string> = new Set()): HeadToHeadGraph {
+  // Cyclic group of each skater in a majority cycle
+  const cycleGroup = new Map<string, number>();
+  analyzeCondorcet(results).cyclicGroups.forEach((group, index) => {
+    group.forEach(id => cycleGroup.set(id, index));
+  });
+  const inSameCycle = (source: string, target: string) =>
+    cycleGroup.has(source) && cycleGroup.get(source) === cycleGroup.get(target);
+
   const nodes: HeadToHeadNode[] = results.map(skater => ({
-    id: skater.name,
+    id: skater.id,
     name: skater.name,
     rank: skater.rank,
     wins: skater.majorityVictories,
-    color: getNodeColor(skater.rank),
+    color: highlightedIds.has(skater.id) ? COLORS.CHANGED : getNodeColor(skater.rank),
     size: getNodeSize(skater.majorityVictories),
+    cyclic: cycleGroup.has(skater.id),
   }));
 
   // Build M.V. map for grouping
   const mvMap = new Map<string, number>();
   results.forEach(skater => {
-    mvMap.set(skater.name, skater.majorityVictories);
+    mvMap.set(skater.id, skater.majorityVictories);
   });
 
   // Build rank map for quick lookups
   const rankMap = new Map<string, number>();
   results.forEach(skater => {
-    rankMap.set(skater.name, skater.rank);
+    rankMap.set(skater.id, skater.rank);
   });
 
   // Collect all direct victories
@@ -46,11 +69,11 @@ export function buildGraph(results: SkaterResult[]): HeadToHeadGraph {
 
     const victories = new Set<string>();
     skater.headToHeadResults.forEach(h2h => {
-      if (h2h.won) {
-        victories.add(h2h.opponent);
+      if (h2h.outcome === 'win') {
+        victories.add(h2h.opponentId);
       }
     });
-    allLinks.set(skater.name, victories);
+    allLinks.set(skater.id, victories);
   });
 
   // Apply global transitive reduction
@@ -88,19 +111,19 @@ export function buildGraph(results: SkaterResult[]): HeadToHeadGraph {
   const sortedSkaters = [...results].sort((a, b) => a.rank - b.rank);
 
   sortedSkaters.forEach(skater => {
-    const directVictories = allLinks.get(skater.name);
+    const directVictories = allLinks.get(skater.id);
     if (!directVictories) return;
 
     const necessaryVictories = new Set<string>();
 
     directVictories.forEach(target => {
       // Check if this victory can be inferred through any intermediate skater
-      if (!hasPathThrough(skater.name, target, allLinks)) {
+      if (inSameCycle(skater.id, target) || !hasPathThrough(skater.id, target, allLinks)) {
         necessaryVictories.add(target);
       }
     });
 
-    reducedLinks.set(skater.name, necessaryVictories);
+    reducedLinks.set(skater.id, necessaryVictories);
   });
 
   // Convert to link objects
@@ -110,9 +133,19 @@ export function buildGraph(results: SkaterResult[]): HeadToHeadGraph {
       links.push({
         source,
         target,
+        ...(inSameCycle(source, target) && { cyclic: true }),
       });
     });
   });
 
+  // Draws are found from both sides, add each pair once
+  results.forEach(skater => {
+    skater.headToHeadResults?.forEach(h2h => {
+      if (h2h.outcome === 'draw' && skater.id < h2h.opponentId) {
+        links.push({ source: skater.id, target: h2h.opponentId, draw: true });
+      }
+    });
+  });
+
   return { nodes, links };
 }
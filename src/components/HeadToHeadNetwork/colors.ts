@@ -3,4 +3,7 @@ export const COLORS = {
   SILVER: '#c0c0c0',
   BRONZE: '#cd7f32',
   CYAN: '#22b8cf',
+  CHANGED: '#ff922b',
+  DRAW: '#909296',
+  CYCLE: '#fa5252',
 } as const;
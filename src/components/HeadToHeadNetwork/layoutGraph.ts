@@ -0,0 +1,86 @@
+import type { HeadToHeadGraph } from './HeadToHeadGraph';
+import type { HeadToHeadNode } from './HeadToHeadNode';
+
+const NODE_SPACING = 150;
+const ROW_SPACING = 120;
+const MARGIN_X = 110; // Room for the tier labels on the left
+const MARGIN_Y = 70; // Room for the arcs above the top row and the labels below the bottom row
+const MAX_ARC_LIFT = 100; // Arcs peak at half the lift
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface GraphLayout {
+  width: number;
+  height: number;
+  tiers: Array<{ majorityVictories: number; y: number }>; // Rows from the most M.V. down
+  positions: Map<string, Point>;
+}
+
+/**
+ * Radius of a node in the 2D view, growing with its wins like in the 3D view
+ */
+export function getNodeRadius(node: HeadToHeadNode): number {
+  return node.size / 2 + 4;
+}
+
+/**
+ * Layered layout by rank: one row per M.V. tier, most M.V. at the top, and within a row
+ * the skaters in rank order. Rows are centred on the widest one.
+ */
+export function layoutGraph({ nodes }: HeadToHeadGraph): GraphLayout {
+  const tierValues = [...new Set(nodes.map(node => node.wins))].sort((a, b) => b - a);
+  const rows = tierValues.map(wins =>
+    nodes.filter(node => node.wins === wins).sort((a, b) => a.rank - b.rank || a.name.localeCompare(b.name))
+  );
+  const widest = Math.max(1, ...rows.map(row => row.length));
+
+  const positions = new Map<string, Point>();
+  const tiers = rows.map((row, rowIdx) => {
+    const y = MARGIN_Y + rowIdx * ROW_SPACING;
+    const offset = ((widest - row.length) * NODE_SPACING) / 2;
+    row.forEach((node, i) => {
+      positions.set(node.id, { x: MARGIN_X + offset + i * NODE_SPACING + NODE_SPACING / 2, y });
+    });
+    return { majorityVictories: tierValues[rowIdx], y };
+  });
+
+  return {
+    width: MARGIN_X * 2 + widest * NODE_SPACING,
+    height: MARGIN_Y * 2 + Math.max(0, rows.length - 1) * ROW_SPACING,
+    tiers,
+    positions,
+  };
+}
+
+/**
+ * SVG path of an edge between the borders of two nodes. Edges between rows are straight,
+ * edges within a row arc above it so they do not run through the skaters in between.
+ */
+export function getEdgePath(from: Point, to: Point, fromRadius: number, toRadius: number): string {
+  if (from.y === to.y) {
+    const lift = Math.min(30 + Math.abs(to.x - from.x) * 0.2, MAX_ARC_LIFT);
+    const control = { x: (from.x + to.x) / 2, y: from.y - lift };
+    const start = moveTowards(from, control, fromRadius);
+    const end = moveTowards(to, control, toRadius);
+    return `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`;
+  }
+
+  const start = moveTowards(from, to, fromRadius);
+  const end = moveTowards(to, from, toRadius);
+  return `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
+}
+
+function moveTowards(from: Point, to: Point, distance: number): Point {
+  const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+  return {
+    x: round(from.x + ((to.x - from.x) / length) * distance),
+    y: round(from.y + ((to.y - from.y) / length) * distance),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
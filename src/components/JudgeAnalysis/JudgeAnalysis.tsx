@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Anchor, Badge, Collapse, Group, Paper, Stack, Table, Text, Tooltip } from '@mantine/core';
+import { IconChevronDown, IconChevronRight } from '@tabler/icons-react';
+
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { Ruleset } from '../../types/Ruleset';
+import type { SkaterResult } from '../../types/SkaterResult';
+import { calculateJudgeAnalytics } from '../../utils/judgeAnalytics';
+
+interface JudgeAnalysisProps {
+  results: SkaterResult[];
+  judgeCount: number;
+  judgeNames?: string[];
+  missingScorePolicy: MissingScorePolicy;
+  ruleset: Ruleset;
+}
+
+function formatCoefficient(value: number | null): string {
+  return value === null ? '–' : value.toFixed(2);
+}
+
+function formatDeviation(value: number | null): string {
+  if (value === null) return '–';
+  const rounded = Math.round(value * 100) / 100;
+  return rounded > 0 ? `+${rounded.toFixed(2)}` : rounded.toFixed(2);
+}
+
+/**
+ * Agreement of the panel described in words (Kendall's W)
+ */
+function describeAgreement(kendallW: number): string {
+  if (kendallW >= 0.9) return 'very strong agreement';
+  if (kendallW >= 0.7) return 'strong agreement';
+  if (kendallW >= 0.5) return 'moderate agreement';
+  return 'weak agreement';
+}
+
+/**
+ * Collapsible judge consistency and bias figures: rank correlation of each judge with the
+ * final ranking, mean deviation from the panel median, dissenting votes in head-to-head
+ * majorities, and the agreement of the whole panel (Kendall's W).
+ */
+export function JudgeAnalysis({ results, judgeCount, judgeNames = [], missingScorePolicy, ruleset }: JudgeAnalysisProps) {
+  const [opened, setOpened] = useState(false);
+  const { judges, kendallW } = calculateJudgeAnalytics(results, judgeCount, { missingScorePolicy, ruleset });
+
+  return (
+    <Paper shadow="sm" p="md" withBorder radius="md">
+      <Stack gap="sm">
+        <Group gap="xs">
+          <Anchor size="sm" onClick={() => setOpened(!opened)} style={{ cursor: 'pointer' }}>
+            <Group gap={4}>
+              {opened ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+              Judge analysis
+            </Group>
+          </Anchor>
+          {kendallW !== null && (
+            <Tooltip label="Kendall's W: 1 if every judge ordered the field the same way, 0 without agreement" withArrow>
+              <Badge variant="light" style={{ cursor: 'help' }}>
+                Panel agreement W = {kendallW.toFixed(2)} · {describeAgreement(kendallW)}
+              </Badge>
+            </Tooltip>
+          )}
+        </Group>
+        <Collapse in={opened}>
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              Correlation of each judge's own order (A+B total per judge) with the final ranking: 1 means the same
+              order, -1 the reverse. Deviations compare each score with the median of the panel for the same skater.
+              A dissent is a vote for the loser of a head-to-head majority.
+            </Text>
+            <Table.ScrollContainer minWidth={500}>
+              <Table withTableBorder withColumnBorders fz="sm">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Judge</Table.Th>
+                    <Table.Th ta="center">Kendall τ</Table.Th>
+                    <Table.Th ta="center">Spearman ρ</Table.Th>
+                    <Table.Th ta="center">Ø A vs. median</Table.Th>
+                    <Table.Th ta="center">Ø B vs. median</Table.Th>
+                    <Table.Th ta="center">Dissents</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {judges.map(judge => (
+                    <Table.Tr key={judge.judge}>
+                      <Table.Th>
+                        J{judge.judge}
+                        {judgeNames[judge.judge - 1] && (
+                          <Text span size="sm" c="dimmed" fw={400}> {judgeNames[judge.judge - 1]}</Text>
+                        )}
+                      </Table.Th>
+                      <Table.Td ta="center" ff="monospace">{formatCoefficient(judge.kendallTau)}</Table.Td>
+                      <Table.Td ta="center" ff="monospace">{formatCoefficient(judge.spearmanRho)}</Table.Td>
+                      <Table.Td ta="center" ff="monospace">{formatDeviation(judge.aDeviation)}</Table.Td>
+                      <Table.Td ta="center" ff="monospace">{formatDeviation(judge.bDeviation)}</Table.Td>
+                      <Table.Td ta="center" ff="monospace">
+                        {judge.dissents} of {judge.majorities}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+          </Stack>
+        </Collapse>
+      </Stack>
+    </Paper>
+  );
+}
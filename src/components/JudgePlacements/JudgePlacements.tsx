@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Anchor, Collapse, Group, Paper, Stack, Table, Text, Tooltip } from '@mantine/core';
+import { IconChevronDown, IconChevronRight } from '@tabler/icons-react';
+
+import type { JudgePlacement } from '../../types/JudgePlacement';
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { Ruleset } from '../../types/Ruleset';
+import type { SkaterResult } from '../../types/SkaterResult';
+import { calculateJudgePlacements } from '../../utils/judgePlacements';
+
+interface JudgePlacementsProps {
+  results: SkaterResult[];
+  judgeCount: number;
+  judgeNames?: string[];
+  missingScorePolicy: MissingScorePolicy;
+  ruleset: Ruleset;
+}
+
+function getDeviationColor(deviation: number | null): string | undefined {
+  if (!deviation) return undefined;
+  return deviation > 0 ? 'var(--mantine-color-orange-light)' : 'var(--mantine-color-cyan-light)';
+}
+
+function getPlacementTooltip({ placement, tied, deviation }: JudgePlacement, rank: number): string {
+  if (placement === null) return 'Judge left out because of a missing score';
+  const shared = tied ? ' (shared)' : '';
+  if (!deviation) return `Place ${placement}${shared}, same as the majority`;
+  return `Place ${placement}${shared}, ${Math.abs(deviation)} ${deviation > 0 ? 'lower' : 'higher'} than the majority (${rank})`;
+}
+
+/**
+ * Collapsible table of each judge's own placement of the field next to the majority rank.
+ * Placements that differ from the majority are highlighted: orange if the judge placed the skater
+ * lower, cyan if higher. Shared placements of skaters a judge could not separate are marked with "=".
+ */
+export function JudgePlacements({ results, judgeCount, judgeNames = [], missingScorePolicy, ruleset }: JudgePlacementsProps) {
+  const [opened, setOpened] = useState(false);
+  const rows = calculateJudgePlacements(results, judgeCount, { missingScorePolicy, ruleset });
+  const judges = Array.from({ length: judgeCount }, (_, i) => i);
+
+  return (
+    <Paper shadow="sm" p="md" withBorder radius="md">
+      <Stack gap="sm">
+        <Anchor size="sm" onClick={() => setOpened(!opened)} style={{ cursor: 'pointer' }}>
+          <Group gap={4}>
+            {opened ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+            Judge placements
+          </Group>
+        </Anchor>
+        <Collapse in={opened}>
+          <Stack gap="xs">
+            <Text size="sm" c="dimmed">
+              How each judge placed the field on their own (A+B total per judge). Highlighted placements differ
+              from the majority rank; "=" marks skaters a judge placed equal.
+            </Text>
+            <Table.ScrollContainer minWidth={300}>
+              <Table withTableBorder withColumnBorders ff="monospace" fz="sm">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Rank</Table.Th>
+                    <Table.Th>Skater</Table.Th>
+                    {judges.map(judgeIdx => (
+                      <Table.Th key={judgeIdx} ta="center" title={judgeNames[judgeIdx] || undefined}>
+                        J{judgeIdx + 1}
+                      </Table.Th>
+                    ))}
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {rows.map(row => (
+                    <Table.Tr key={row.id}>
+                      <Table.Td fw={700}>{row.rank}</Table.Td>
+                      <Table.Th style={{ whiteSpace: 'nowrap' }}>{row.name}</Table.Th>
+                      {row.placements.map((placement, judgeIdx) => (
+                        <Tooltip key={judgeIdx} label={getPlacementTooltip(placement, row.rank)} withArrow>
+                          <Table.Td
+                            ta="center"
+                            c={placement.placement === null ? 'dimmed' : undefined}
+                            style={{ backgroundColor: getDeviationColor(placement.deviation) }}
+                          >
+                            {placement.placement === null ? '–' : `${placement.placement}${placement.tied ? '=' : ''}`}
+                          </Table.Td>
+                        </Tooltip>
+                      ))}
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+          </Stack>
+        </Collapse>
+      </Stack>
+    </Paper>
+  );
+}
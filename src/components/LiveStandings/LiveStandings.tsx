@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { Badge, Button, Group, Paper, Slider, Stack, Switch, Table, Text } from '@mantine/core';
+import { IconChevronLeft, IconChevronRight, IconTrophy } from '@tabler/icons-react';
+
+import type { LiveStanding } from '../../types/LiveSnapshot';
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { Ruleset } from '../../types/Ruleset';
+import type { SkaterScores } from '../../types/SkaterScores';
+import { calculateLiveSnapshots } from '../../utils/live';
+
+interface LiveStandingsProps {
+  skaters: SkaterScores[]; // In start order
+  missingScorePolicy: MissingScorePolicy;
+  ruleset: Ruleset;
+}
+
+function formatGained(gained: number): string {
+  return gained === 0.5 ? '+½' : `+${gained}`;
+}
+
+function RankMovement({ standing }: { standing: LiveStanding }) {
+  if (standing.previousRank === undefined) {
+    return <Badge size="sm" variant="filled" color="orange">new</Badge>;
+  }
+  if (standing.previousRank === standing.rank) return null;
+  return (
+    <Text span size="xs" c={standing.rank < standing.previousRank ? 'green' : 'red'}>
+      {standing.rank < standing.previousRank ? '▲' : '▼'} {standing.previousRank}
+    </Text>
+  );
+}
+
+/**
+ * Live competition mode: ranks the field in start order as the scores come in. Every snapshot
+ * shows the provisional ranking after one more skater, the leader, and the M.V. the earlier
+ * skaters gained against the newest one. The timeline follows the latest skater until the
+ * audience steps back.
+ */
+export function LiveStandings({ skaters, missingScorePolicy, ruleset }: LiveStandingsProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null); // null follows the latest skater
+
+  const snapshots = useMemo(
+    () => (enabled ? calculateLiveSnapshots(skaters, { missingScorePolicy, ruleset }) : []),
+    [enabled, skaters, missingScorePolicy, ruleset]
+  );
+  const latest = snapshots.length - 1;
+  const current = selected === null ? latest : Math.min(selected, latest);
+  const snapshot = snapshots[current];
+
+  const handleSelect = (index: number) => setSelected(index >= latest ? null : index);
+
+  const newest = snapshot?.standings.find(standing => standing.id === snapshot.newestId);
+  const leaders = snapshot?.standings.filter(standing => standing.rank === 1) ?? [];
+
+  return (
+    <Paper shadow="sm" p="md" withBorder radius="md">
+      <Stack gap="sm">
+        <Switch
+          label="Live mode"
+          description="Provisional ranking after each skater, in the order of the input"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.currentTarget.checked)}
+        />
+
+        {enabled && snapshot && newest && (
+          <Stack gap="sm">
+            <Group justify="space-between">
+              <Group gap="xs">
+                <Badge variant="light">After skater {snapshot.skaterCount} of {snapshots.length}</Badge>
+                <Text size="sm" fw={600}>{newest.name} · provisional rank {newest.rank}</Text>
+              </Group>
+              <Group gap="xs">
+                <Button
+                  size="xs"
+                  variant="default"
+                  radius="md"
+                  leftSection={<IconChevronLeft size={14} />}
+                  disabled={current === 0}
+                  onClick={() => handleSelect(current - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  size="xs"
+                  variant="default"
+                  radius="md"
+                  rightSection={<IconChevronRight size={14} />}
+                  disabled={current === latest}
+                  onClick={() => handleSelect(current + 1)}
+                >
+                  Next
+                </Button>
+              </Group>
+            </Group>
+
+            {snapshots.length > 1 && (
+              <Slider
+                min={1}
+                max={snapshots.length}
+                step={1}
+                value={current + 1}
+                onChange={(value) => handleSelect(value - 1)}
+                label={(value) => `After skater ${value}`}
+                marks={snapshots.length <= 20 ? snapshots.map(({ skaterCount }) => ({ value: skaterCount })) : undefined}
+                mb="xs"
+              />
+            )}
+
+            <Group gap="xs">
+              <IconTrophy size={16} color="var(--mantine-color-yellow-5)" />
+              <Text size="sm">
+                {leaders.length === 1 ? 'Leader: ' : 'Leaders: '}
+                <Text span fw={700}>{leaders.map(leader => leader.name).join(', ')}</Text>
+              </Text>
+            </Group>
+
+            <Table.ScrollContainer minWidth={300}>
+              <Table withTableBorder fz="sm">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Rank</Table.Th>
+                    <Table.Th>Skater</Table.Th>
+                    <Table.Th ta="center">M.V.</Table.Th>
+                    <Table.Th ta="center">Against {newest.name}</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {snapshot.standings.map(standing => (
+                    <Table.Tr
+                      key={standing.id}
+                      style={standing.id === newest.id ? { backgroundColor: 'var(--mantine-color-orange-light)' } : undefined}
+                    >
+                      <Table.Td>
+                        <Group gap="xs" wrap="nowrap">
+                          <Text span fw={700}>{standing.rank}</Text>
+                          <RankMovement standing={standing} />
+                        </Group>
+                      </Table.Td>
+                      <Table.Th>{standing.name}</Table.Th>
+                      <Table.Td ta="center" ff="monospace">{standing.majorityVictories}</Table.Td>
+                      <Table.Td ta="center" ff="monospace" c={standing.majorityVictoriesGained ? 'green' : 'dimmed'}>
+                        {standing.majorityVictoriesGained === undefined ? '–' : formatGained(standing.majorityVictoriesGained)}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+          </Stack>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
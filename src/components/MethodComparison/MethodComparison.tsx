@@ -0,0 +1,109 @@
+import { useMemo, useState } from 'react';
+import { Anchor, Collapse, Group, Paper, Stack, Table, Text, Tooltip } from '@mantine/core';
+import { IconChevronDown, IconChevronRight } from '@tabler/icons-react';
+
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { MethodRank, RankingMethod } from '../../types/RankingMethod';
+import type { Ruleset } from '../../types/Ruleset';
+import type { SkaterResult } from '../../types/SkaterResult';
+import { compareRankingMethods, KEMENY_YOUNG_MAX_SKATERS } from '../../utils/rankingMethods';
+
+interface MethodComparisonProps {
+  results: SkaterResult[];
+  missingScorePolicy: MissingScorePolicy;
+  ruleset: Ruleset;
+}
+
+const METHOD_LABELS: Record<RankingMethod, { label: string; description: string }> = {
+  sum: { label: 'Sum', description: 'Sum of all A- and B-scores' },
+  'trimmed-mean': { label: 'Trimmed mean', description: 'ISU style: mean A + mean B, highest and lowest dropped from 5 judges' },
+  borda: { label: 'Borda', description: 'A point for every skater a judge placed lower, half a point for equal' },
+  schulze: { label: 'Schulze', description: 'Strongest chains of judge majorities, the score is the number of skaters beaten' },
+  'kemeny-young': { label: 'Kemeny-Young', description: 'The order agreeing with the most judge preferences' },
+};
+
+function getDifferenceColor(methodRank: number, rank: number): string | undefined {
+  if (methodRank === rank) return undefined;
+  return methodRank > rank ? 'var(--mantine-color-orange-light)' : 'var(--mantine-color-cyan-light)';
+}
+
+function getRankTooltip(method: RankingMethod, { rank: methodRank, score }: MethodRank, rank: number): string {
+  const scoreText = score === undefined ? '' : ` (${Number.isInteger(score) ? score : score.toFixed(2)})`;
+  if (methodRank === rank) return `Place ${methodRank}${scoreText}, same as the majority`;
+  return `Place ${methodRank}${scoreText} by ${METHOD_LABELS[method].label}, ${methodRank > rank ? 'lower' : 'higher'} than the majority (${rank})`;
+}
+
+/**
+ * Collapsible table ranking the same scores with other methods next to the majority rank.
+ * Places that differ from the majority are highlighted: orange if the method places the skater
+ * lower, cyan if higher.
+ */
+export function MethodComparison({ results, missingScorePolicy, ruleset }: MethodComparisonProps) {
+  const [opened, setOpened] = useState(false);
+  const comparison = useMemo(
+    () => (opened ? compareRankingMethods(results, { missingScorePolicy, ruleset }) : null),
+    [opened, results, missingScorePolicy, ruleset]
+  );
+  const differing = comparison?.rows.filter(row =>
+    comparison.methods.some(method => row.ranks[method]?.rank !== row.rank)
+  ).length ?? 0;
+
+  return (
+    <Paper shadow="sm" p="md" withBorder radius="md">
+      <Stack gap="sm">
+        <Anchor size="sm" onClick={() => setOpened(!opened)} style={{ cursor: 'pointer' }}>
+          <Group gap={4}>
+            {opened ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+            Other ranking methods
+          </Group>
+        </Anchor>
+        <Collapse in={opened}>
+          {comparison && (
+            <Stack gap="xs">
+              <Text size="sm" c="dimmed">
+                The same scores ranked without the majority system. Highlighted places differ from the official
+                rank; {differing === 0 ? 'every method agrees here.' : `${differing} of ${comparison.rows.length} skaters would place differently.`}
+                {!comparison.methods.includes('kemeny-young') && ` Kemeny-Young is only computed for up to ${KEMENY_YOUNG_MAX_SKATERS} skaters.`}
+              </Text>
+              <Table.ScrollContainer minWidth={300}>
+                <Table withTableBorder withColumnBorders ff="monospace" fz="sm">
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Rank</Table.Th>
+                      <Table.Th>Skater</Table.Th>
+                      {comparison.methods.map(method => (
+                        <Tooltip key={method} label={METHOD_LABELS[method].description} withArrow multiline w={220}>
+                          <Table.Th ta="center" style={{ cursor: 'help', whiteSpace: 'nowrap' }}>
+                            {METHOD_LABELS[method].label}
+                          </Table.Th>
+                        </Tooltip>
+                      ))}
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {comparison.rows.map(row => (
+                      <Table.Tr key={row.id}>
+                        <Table.Td fw={700}>{row.rank}</Table.Td>
+                        <Table.Th style={{ whiteSpace: 'nowrap' }}>{row.name}</Table.Th>
+                        {comparison.methods.map(method => {
+                          const methodRank = row.ranks[method]!;
+                          return (
+                            <Tooltip key={method} label={getRankTooltip(method, methodRank, row.rank)} withArrow>
+                              <Table.Td ta="center" style={{ backgroundColor: getDifferenceColor(methodRank.rank, row.rank) }}>
+                                {methodRank.rank}
+                              </Table.Td>
+                            </Tooltip>
+                          );
+                        })}
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              </Table.ScrollContainer>
+            </Stack>
+          )}
+        </Collapse>
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,206 @@
+import { Button } from '@mantine/core';
+import { IconArrowLeft, IconPrinter } from '@tabler/icons-react';
+
+import type { CombinationRule } from '../../types/CombinationRule';
+import type { CompetitionMetadata } from '../../types/CompetitionDocument';
+import type { CompetitionResult } from '../../types/CompetitionResult';
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { Ruleset } from '../../types/Ruleset';
+import type { SegmentResult } from '../../types/SegmentResult';
+import { getMissingScorePolicyDescription } from '../SkaterResultTable/missingScoreLabels';
+import { formatTieBreakChain, formatTieBreakValue, getTieBreakValueLabel } from '../SkaterResultTable/tieBreakLabels';
+
+import styles from './PrintView.module.css';
+
+interface PrintViewProps {
+  competition: CompetitionResult;
+  judgeCount: number;
+  metadata: CompetitionMetadata;
+  judgeNames: string[];
+  combinationRule: CombinationRule;
+  missingScorePolicy: MissingScorePolicy;
+  ruleset: Ruleset;
+  onClose: () => void;
+}
+
+function formatScore(score: number | null | undefined): string {
+  return score === null || score === undefined ? '–' : score.toFixed(1);
+}
+
+function formatDate(date: string): string {
+  const parsed = new Date(`${date}T00:00:00`);
+  return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString();
+}
+
+interface PrintHeaderProps {
+  metadata: CompetitionMetadata;
+  judgeNames: string[];
+  judgeCount: number;
+  subtitle?: string;
+}
+
+function PrintHeader({ metadata, judgeNames, judgeCount, subtitle }: PrintHeaderProps) {
+  const details = [metadata.date && formatDate(metadata.date), metadata.venue, metadata.organizer].filter(Boolean);
+  const judges = Array.from({ length: judgeCount }, (_, i) =>
+    judgeNames[i]?.trim() ? `J${i + 1} ${judgeNames[i].trim()}` : `J${i + 1}`
+  );
+
+  return (
+    <header className={styles.header}>
+      <h1 className={styles.title}>{metadata.title || 'Result List'}</h1>
+      {(metadata.category || subtitle) && (
+        <p className={styles.subtitle}>{[metadata.category, subtitle].filter(Boolean).join(' – ')}</p>
+      )}
+      {details.length > 0 && <p className={styles.details}>{details.join(' · ')}</p>}
+      <p className={styles.details}>Judges: {judges.join(' · ')}</p>
+    </header>
+  );
+}
+
+function SegmentResultList({ segment, judgeCount }: { segment: SegmentResult; judgeCount: number }) {
+  const judges = Array.from({ length: judgeCount }, (_, i) => i);
+
+  return (
+    <table className={styles.table}>
+      <thead>
+        <tr>
+          <th rowSpan={2}>Rank</th>
+          <th rowSpan={2}>No.</th>
+          <th rowSpan={2}>Name</th>
+          <th rowSpan={2} className={styles.numeric}>M.V.</th>
+          <th rowSpan={2}>Tie-breaks</th>
+          <th rowSpan={2} className={styles.numeric}>Total</th>
+          {judges.map(j => (
+            <th key={j} colSpan={2} className={`${styles.numeric} ${styles.judgeStart}`}>J{j + 1}</th>
+          ))}
+        </tr>
+        <tr>
+          {judges.map(j => [
+            <th key={`a${j}`} className={`${styles.numeric} ${styles.judgeStart}`}>A</th>,
+            <th key={`b${j}`} className={styles.numeric}>B</th>,
+          ])}
+        </tr>
+      </thead>
+      <tbody>
+        {segment.results.map(result => (
+          <tr key={result.id}>
+            <td className={styles.numeric}>{result.rank}.</td>
+            <td className={styles.numeric}>{result.startNumber ?? ''}</td>
+            <td>{result.name}</td>
+            <td className={styles.numeric}>{result.majorityVictories}</td>
+            <td className={styles.ladder}>
+              {result.tieBreakInfo && result.tieBreakInfo.length > 0
+                ? result.tieBreakInfo
+                  .map(({ level, value }) => `${getTieBreakValueLabel(level)} ${formatTieBreakValue(value)}`)
+                  .join(' › ')
+                : <span className={styles.muted}>–</span>}
+            </td>
+            <td className={styles.numeric}>{result.totalScore.toFixed(1)}</td>
+            {judges.map(j => [
+              <td key={`a${j}`} className={`${styles.numeric} ${styles.judgeStart}`}>{formatScore(result.aScores[j])}</td>,
+              <td key={`b${j}`} className={styles.numeric}>{formatScore(result.bScores[j])}</td>,
+            ])}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function CombinedResultList({ competition, showWeights }: { competition: CompetitionResult; showWeights: boolean }) {
+  return (
+    <table className={styles.table}>
+      <thead>
+        <tr>
+          <th>Rank</th>
+          <th>Name</th>
+          {competition.segments.map((segment, idx) => (
+            <th key={idx} className={styles.numeric}>
+              {segment.name}{showWeights && segment.weight !== 1 && ` ×${segment.weight}`}
+            </th>
+          ))}
+          <th className={styles.numeric}>Placements</th>
+          <th className={styles.numeric}>Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        {competition.combined.map(result => (
+          <tr key={result.id}>
+            <td className={styles.numeric}>{result.rank}.</td>
+            <td>{result.name}</td>
+            {result.segmentPlacements.map((placement, idx) => (
+              <td key={idx} className={styles.numeric}>{placement ?? '–'}</td>
+            ))}
+            <td className={styles.numeric}>{result.placementSum}</td>
+            <td className={styles.numeric}>{result.totalScore.toFixed(1)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Printable official result list (Ergebnisliste): event header, judges and the full
+ * ranking of every segment, each segment on its own page. Multi-segment competitions
+ * start with the overall placement.
+ */
+export function PrintView({
+  competition,
+  judgeCount,
+  metadata,
+  judgeNames,
+  combinationRule,
+  missingScorePolicy,
+  ruleset,
+  onClose,
+}: PrintViewProps) {
+  const isMultiSegment = competition.segments.length > 1;
+  const hasMissingScores = competition.segments.some(segment =>
+    segment.results.some(result => [...result.aScores, ...result.bScores].some(score => score === null))
+  );
+  const footer = (
+    <p className={styles.footer}>
+      Ranking by the majority system ({ruleset.name}) · Tie-breaks: {formatTieBreakChain(ruleset.tieBreakChain)}
+      {hasMissingScores && <><br />{getMissingScorePolicyDescription(missingScorePolicy)} (–)</>}
+    </p>
+  );
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.toolbar}>
+        <Button size="xs" variant="default" radius="md" leftSection={<IconArrowLeft size={14} />} onClick={onClose}>
+          Back
+        </Button>
+        <Button size="xs" radius="md" leftSection={<IconPrinter size={14} />} onClick={() => window.print()}>
+          Print
+        </Button>
+      </div>
+
+      {isMultiSegment && (
+        <section className={styles.sheet}>
+          <PrintHeader metadata={metadata} judgeNames={judgeNames} judgeCount={judgeCount} subtitle="Overall placement" />
+          {competition.combinationError
+            ? <p>{competition.combinationError}</p>
+            : <CombinedResultList competition={competition} showWeights={combinationRule === 'weighted-placement'} />}
+          <p className={styles.footer}>
+            {combinationRule === 'weighted-placement' ? 'Weighted sum' : 'Sum'} of segment placements · Tie-breaks: deciding segment › total score
+          </p>
+        </section>
+      )}
+
+      {competition.segments.map((segment, idx) => (
+        <section key={idx} className={styles.sheet}>
+          <PrintHeader
+            metadata={metadata}
+            judgeNames={judgeNames}
+            judgeCount={judgeCount}
+            subtitle={isMultiSegment ? segment.name : undefined}
+          />
+          <SegmentResultList segment={segment} judgeCount={judgeCount} />
+          {footer}
+        </section>
+      ))}
+    </div>
+  );
+}
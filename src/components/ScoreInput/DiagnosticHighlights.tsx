@@ -0,0 +1,57 @@
+import { Fragment } from 'react';
+import type { ReactNode } from 'react';
+
+import type { ParseDiagnostic } from '../../types/ParseDiagnostic';
+
+import styles from './ScoreInput.module.css';
+
+interface DiagnosticHighlightsProps {
+  input: string;
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Splits a line into plain text and marked ranges for its diagnostics.
+ * Overlapping ranges are clipped so every character is marked at most once.
+ */
+function renderLine(line: string, diagnostics: ParseDiagnostic[]): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  const sorted = [...diagnostics].sort((a, b) => a.startColumn - b.startColumn);
+  for (const [idx, diagnostic] of sorted.entries()) {
+    const start = Math.max(diagnostic.startColumn - 1, cursor);
+    const end = Math.min(diagnostic.endColumn - 1, line.length);
+    if (end <= start) continue;
+
+    parts.push(line.slice(cursor, start));
+    parts.push(
+      <mark key={idx} className={diagnostic.severity === 'error' ? styles.error : styles.warning}>
+        {line.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  parts.push(line.slice(cursor));
+
+  return parts;
+}
+
+/**
+ * Transparent copy of the input text laid over the textarea,
+ * marking the ranges of all diagnostics in place.
+ */
+export function DiagnosticHighlights({ input, diagnostics }: DiagnosticHighlightsProps) {
+  const lines = input.split('\n');
+
+  return (
+    <div className={`${styles.highlights} ${styles.editorText}`} aria-hidden>
+      {lines.map((line, idx) => (
+        <Fragment key={idx}>
+          {renderLine(line, diagnostics.filter(d => d.line === idx + 1))}
+          {'\n'}
+        </Fragment>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Group, Stack, Text, UnstyledButton } from '@mantine/core';
+import { IconAlertCircle, IconAlertTriangle } from '@tabler/icons-react';
+
+import type { ParseDiagnostic } from '../../types/ParseDiagnostic';
+
+interface DiagnosticListProps {
+  diagnostics: ParseDiagnostic[];
+  onSelect: (diagnostic: ParseDiagnostic) => void;
+  maxItems?: number;
+}
+
+export function DiagnosticList({ diagnostics, onSelect, maxItems = 8 }: DiagnosticListProps) {
+  if (diagnostics.length === 0) return null;
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  const summary = [
+    errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'line skipped' : 'lines skipped'}`,
+    warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Stack gap={4}>
+      <Text size="xs" fw={600} c="dimmed">{summary}</Text>
+      {diagnostics.slice(0, maxItems).map((diagnostic, idx) => (
+        <UnstyledButton key={idx} onClick={() => onSelect(diagnostic)}>
+          <Group gap="xs" wrap="nowrap" align="flex-start">
+            {diagnostic.severity === 'error' ? (
+              <IconAlertCircle size={16} color="var(--mantine-color-red-6)" style={{ flexShrink: 0 }} />
+            ) : (
+              <IconAlertTriangle size={16} color="var(--mantine-color-yellow-6)" style={{ flexShrink: 0 }} />
+            )}
+            <Text size="xs" c="dimmed" ff="monospace" style={{ whiteSpace: 'nowrap' }}>
+              {diagnostic.line}:{diagnostic.startColumn}
+            </Text>
+            <Text size="xs">{diagnostic.message}</Text>
+          </Group>
+        </UnstyledButton>
+      ))}
+      {diagnostics.length > maxItems && (
+        <Text size="xs" c="dimmed" fs="italic">
+          … and {diagnostics.length - maxItems} more
+        </Text>
+      )}
+    </Stack>
+  );
+}
@@ -1,34 +1,196 @@
-import { Alert, Anchor, Button, Group, Paper, Stack, Text, Textarea } from '@mantine/core';
+import { useRef } from 'react';
+import type { ClipboardEvent } from 'react';
+import { Alert, Anchor, Box, Button, FileButton, Group, Paper, Select, Stack, Text, Textarea } from '@mantine/core';
 import { modals } from '@mantine/modals';
 import { notifications } from '@mantine/notifications';
-import { IconShare } from '@tabler/icons-react';
+import { IconDeviceFloppy, IconFolderOpen, IconShare, IconUpload } from '@tabler/icons-react';
 
+import type { CompetitionDocument } from '../../types/CompetitionDocument';
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { ParseDiagnostic } from '../../types/ParseDiagnostic';
+import type { Ruleset } from '../../types/Ruleset';
+import type { SkaterScores } from '../../types/SkaterScores';
+import { importScoreSheet } from '../../utils/csv';
+import { parseCompetitionDocument } from '../../utils/document';
+import { formatInput } from '../../utils/parser';
+import { findRulesetByKey, getRulesetKey, getRulesets } from '../../utils/rulesets';
+import { isShareUrlTooLong } from '../../utils/sharePayload';
 import { PLACEHOLDER_TEXT, EXAMPLE_TEXT } from './examples';
+import { DiagnosticHighlights } from './DiagnosticHighlights';
+import { DiagnosticList } from './DiagnosticList';
+
+import styles from './ScoreInput.module.css';
 
 interface ScoreInputProps {
   input: string;
   onInputChange: (value: string) => void;
+  judgeCount: number;
+  judgeCountDeclared: boolean;
+  onJudgeCountChange: (count: number | undefined) => void;
+  missingScorePolicy: MissingScorePolicy;
+  onMissingScorePolicyChange: (policy: MissingScorePolicy) => void;
+  ruleset: Ruleset;
+  onRulesetChange: (ruleset: Ruleset) => void;
+  diagnostics: ParseDiagnostic[];
   error?: string;
+  onOpenDocument: (document: CompetitionDocument) => void;
+  onSaveDocument: () => void;
 }
 
-export function ScoreInput({ input, onInputChange, error }: ScoreInputProps) {
-  const handleLoadExample = () => {
+const JUDGE_COUNT_OPTIONS = Array.from({ length: 9 }, (_, i) => String(i + 1));
+
+const MISSING_SCORE_OPTIONS: Array<{ value: MissingScorePolicy; label: string }> = [
+  { value: 'zero', label: 'Missing scores: count as 0' },
+  { value: 'exclude-judge', label: 'Missing scores: exclude judge' },
+  { value: 'block', label: 'Missing scores: block ranking' },
+];
+
+/**
+ * Rulesets to choose from - the version is only shown if an id has several
+ */
+function getRulesetOptions(): Array<{ value: string; label: string }> {
+  const rulesets = getRulesets();
+  return rulesets.map(ruleset => ({
+    value: getRulesetKey(ruleset),
+    label: rulesets.filter(other => other.id === ruleset.id).length > 1
+      ? `${ruleset.name} (v${ruleset.version})`
+      : ruleset.name,
+  }));
+}
+
+/**
+ * Builds the format hint for the current panel size, e.g. "Name: A1 A2 A3 / B1 B2 B3"
+ */
+function getFormatHint(judgeCount: number): string {
+  const scores = (prefix: string) =>
+    judgeCount <= 4
+      ? Array.from({ length: judgeCount }, (_, i) => `${prefix}${i + 1}`).join(' ')
+      : `${prefix}1 … ${prefix}${judgeCount}`;
+  return `Name: ${scores('A')} / ${scores('B')}`;
+}
+
+export function ScoreInput({
+  input,
+  onInputChange,
+  judgeCount,
+  judgeCountDeclared,
+  onJudgeCountChange,
+  missingScorePolicy,
+  onMissingScorePolicyChange,
+  ruleset,
+  onRulesetChange,
+  diagnostics,
+  error,
+  onOpenDocument,
+  onSaveDocument,
+}: ScoreInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Select the range of a diagnostic in the textarea
+  const handleSelectDiagnostic = (diagnostic: ParseDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const lineStart = input
+      .split('\n')
+      .slice(0, diagnostic.line - 1)
+      .reduce((offset, line) => offset + line.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(lineStart + diagnostic.startColumn - 1, lineStart + diagnostic.endColumn - 1);
+  };
+
+  // Asks before replacing input the user has typed (the example can be replaced freely)
+  const confirmReplace = (replacement: string, confirmLabel: string, onConfirm: () => void) => {
     if (input.trim() && input !== EXAMPLE_TEXT) {
       modals.openConfirmModal({
         title: 'Replace current input?',
         children: (
           <Text size="sm">
-            This will replace your current input with the example data. Your current data will be lost.
+            This will replace your current input with {replacement}. Your current data will be lost.
           </Text>
         ),
-        labels: { confirm: 'Load example', cancel: 'Cancel' },
+        labels: { confirm: confirmLabel, cancel: 'Cancel' },
         confirmProps: { color: 'cyan' },
         radius: 'lg',
-        onConfirm: () => onInputChange(EXAMPLE_TEXT),
+        onConfirm,
       });
     } else {
-      onInputChange(EXAMPLE_TEXT);
+      onConfirm();
+    }
+  };
+
+  const handleLoadExample = () => {
+    confirmReplace('the example data', 'Load example', () => onInputChange(EXAMPLE_TEXT));
+  };
+
+  const handleOpen = async (file: File | null) => {
+    if (!file) return;
+
+    let document: CompetitionDocument;
+    try {
+      document = parseCompetitionDocument(await file.text());
+    } catch (err) {
+      notifications.show({
+        title: `Could not open ${file.name}`,
+        message: err instanceof Error ? err.message : 'Unknown error',
+        color: 'red',
+      });
+      return;
+    }
+
+    confirmReplace('the saved competition', 'Open', () => onOpenDocument(document));
+  };
+
+  const handleImport = async (file: File | null) => {
+    if (!file) return;
+
+    let skaters: SkaterScores[];
+    try {
+      ({ skaters } = importScoreSheet(await file.text()));
+    } catch (err) {
+      notifications.show({
+        title: `Could not import ${file.name}`,
+        message: err instanceof Error ? err.message : 'Unknown error',
+        color: 'red',
+      });
+      return;
+    }
+
+    if (skaters.length === 0) {
+      notifications.show({
+        title: 'Nothing imported',
+        message: `No scores found in ${file.name}`,
+        color: 'red',
+      });
+      return;
     }
+
+    confirmReplace('the imported score sheet', 'Import', () => {
+      onInputChange(formatInput(skaters));
+      notifications.show({
+        title: 'Score sheet imported',
+        message: `${skaters.length} ${skaters.length === 1 ? 'skater' : 'skaters'} from ${file.name}`,
+        color: 'cyan',
+      });
+    });
+  };
+
+  // Cells copied from a spreadsheet arrive tab-separated - convert them to score lines
+  const handlePaste = (event: ClipboardEvent<HTMLTextAreaElement>) => {
+    const text = event.clipboardData.getData('text/plain');
+    if (!text.includes('\t')) return;
+
+    const { skaters } = importScoreSheet(text);
+    if (skaters.length === 0) return;
+
+    event.preventDefault();
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    onInputChange(input.slice(0, selectionStart) + formatInput(skaters) + input.slice(selectionEnd));
+    notifications.show({
+      title: 'Spreadsheet cells converted',
+      message: `${skaters.length} ${skaters.length === 1 ? 'skater' : 'skaters'} pasted as score lines`,
+      color: 'cyan',
+    });
   };
 
   const handleClear = () => {
@@ -51,8 +213,20 @@ export function ScoreInput({ input, onInputChange, error }: ScoreInputProps) {
   };
 
   const handleShare = async () => {
+    const url = window.location.href;
+    // Messengers cut long links, so large competitions are shared as a file instead
+    if (isShareUrlTooLong(url)) {
+      onSaveDocument();
+      notifications.show({
+        title: 'Link too long, file downloaded',
+        message: `The link would have ${url.length} characters and may be cut off. Share the downloaded file instead - it opens with "Open".`,
+        color: 'yellow',
+      });
+      return;
+    }
+
     try {
-      await navigator.clipboard.writeText(window.location.href);
+      await navigator.clipboard.writeText(url);
       notifications.show({
         title: 'Link copied!',
         message: 'Share this link to let others see your results',
@@ -70,7 +244,46 @@ export function ScoreInput({ input, onInputChange, error }: ScoreInputProps) {
   return (
     <Paper shadow="sm" p="md" withBorder radius="md">
       <Stack gap="sm">
-        <Group justify="flex-end" align="center">
+        <Group justify="space-between" align="center">
+          <Group gap="xs">
+            <Select
+              size="xs"
+              w={160}
+              radius="md"
+              aria-label="Judges"
+              data={[
+                { value: 'auto', label: judgeCountDeclared ? 'Judges: auto' : `Judges: auto (${judgeCount})` },
+                ...JUDGE_COUNT_OPTIONS.map(count => ({ value: count, label: `Judges: ${count}` })),
+              ]}
+              value={judgeCountDeclared ? String(judgeCount) : 'auto'}
+              onChange={(value) => onJudgeCountChange(value && value !== 'auto' ? Number(value) : undefined)}
+              allowDeselect={false}
+            />
+            <Select
+              size="xs"
+              w={230}
+              radius="md"
+              aria-label="Missing scores"
+              data={MISSING_SCORE_OPTIONS}
+              value={missingScorePolicy}
+              onChange={(value) => value && onMissingScorePolicyChange(value as MissingScorePolicy)}
+              allowDeselect={false}
+            />
+            <Select
+              size="xs"
+              w={260}
+              radius="md"
+              aria-label="Ruleset"
+              title={ruleset.description}
+              data={getRulesetOptions()}
+              value={getRulesetKey(ruleset)}
+              onChange={(value) => {
+                const selected = value ? findRulesetByKey(value) : undefined;
+                if (selected) onRulesetChange(selected);
+              }}
+              allowDeselect={false}
+            />
+          </Group>
           <Group gap="md">
             <Anchor
               size="sm"
@@ -79,6 +292,38 @@ export function ScoreInput({ input, onInputChange, error }: ScoreInputProps) {
             >
               Load example
             </Anchor>
+            <FileButton onChange={handleOpen} accept=".json,application/json">
+              {(props) => (
+                <Anchor
+                  {...props}
+                  size="sm"
+                  style={{ cursor: 'pointer', display: 'inline-flex', alignItems: 'center', gap: 4 }}
+                >
+                  <IconFolderOpen size={14} />
+                  Open
+                </Anchor>
+              )}
+            </FileButton>
+            <Anchor
+              size="sm"
+              onClick={onSaveDocument}
+              style={{ cursor: 'pointer', display: 'inline-flex', alignItems: 'center', gap: 4 }}
+            >
+              <IconDeviceFloppy size={14} />
+              Save
+            </Anchor>
+            <FileButton onChange={handleImport} accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values">
+              {(props) => (
+                <Anchor
+                  {...props}
+                  size="sm"
+                  style={{ cursor: 'pointer', display: 'inline-flex', alignItems: 'center', gap: 4 }}
+                >
+                  <IconUpload size={14} />
+                  Import CSV
+                </Anchor>
+              )}
+            </FileButton>
             <Anchor
               size="sm"
               onClick={handleClear}
@@ -97,17 +342,26 @@ export function ScoreInput({ input, onInputChange, error }: ScoreInputProps) {
             </Button>
           </Group>
         </Group>
-        <Textarea
-          value={input}
-          onChange={(e) => onInputChange(e.currentTarget.value)}
-          rows={10}
-          placeholder={PLACEHOLDER_TEXT}
-          styles={{ input: { fontFamily: 'monospace' } }}
-          radius="md"
-        />
+        <Box className={styles.editor}>
+          <DiagnosticHighlights input={input} diagnostics={diagnostics} />
+          <Textarea
+            ref={textareaRef}
+            value={input}
+            onChange={(e) => onInputChange(e.currentTarget.value)}
+            onPaste={handlePaste}
+            autosize
+            minRows={10}
+            placeholder={PLACEHOLDER_TEXT}
+            classNames={{ input: styles.editorText }}
+            radius="md"
+          />
+        </Box>
         <Text size="xs" style={{ fontStyle: 'italic' }}>
-          <Text c="dimmed" span ff="monospace">Format:</Text> <Text span ff="monospace">Name: A1 A2 A3 / B1 B2 B3</Text>
+          <Text c="dimmed" span ff="monospace">Format:</Text> <Text span ff="monospace">{getFormatHint(judgeCount)}</Text>
+          {' · '}
+          <Text c="dimmed" span ff="monospace">Segments:</Text> <Text span ff="monospace">[Pflicht] … [Kür x2]</Text>
         </Text>
+        <DiagnosticList diagnostics={diagnostics} onSelect={handleSelectDiagnostic} />
         {error && (
           <Alert color="orange" radius="md">
             {error}
@@ -0,0 +1,91 @@
+import { Badge, Group, Table, Text, Tooltip } from '@mantine/core';
+
+import type { CombinedResult } from '../../types/CombinedResult';
+import type { CombinedTieBreakLevel } from '../../types/CombinedTieBreakLevel';
+import type { SegmentResult } from '../../types/SegmentResult';
+
+interface CombinedTableProps {
+  combined: CombinedResult[];
+  segments: SegmentResult[];
+  showWeights: boolean;
+}
+
+function getCombinedTieBreakLabel(level: CombinedTieBreakLevel, segments: SegmentResult[]): string {
+  switch (level) {
+    case 'deciding-segment': {
+      const deciding = segments.reduce((best, segment) => (segment.weight >= best.weight ? segment : best));
+      return `${deciding.name} placement`;
+    }
+    case 'total-score':
+      return 'Total score';
+    default:
+      return '';
+  }
+}
+
+export function CombinedTable({ combined, segments, showWeights }: CombinedTableProps) {
+  return (
+    <Table.ScrollContainer minWidth={600}>
+      <Table striped highlightOnHover>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Rank</Table.Th>
+            <Table.Th>Name</Table.Th>
+            {segments.map((segment, idx) => (
+              <Table.Th key={idx} ta="center">
+                {segment.name}
+                {showWeights && segment.weight !== 1 && (
+                  <Text span size="xs" c="dimmed"> ×{segment.weight}</Text>
+                )}
+              </Table.Th>
+            ))}
+            <Table.Th ta="center">
+              <Tooltip
+                label="Sum of segment placements (Platzziffern) - lower is better"
+                position="top"
+                withArrow
+                multiline
+                w={220}
+              >
+                <Text span style={{ borderBottom: '1px dotted', cursor: 'help' }}>Placements</Text>
+              </Tooltip>
+            </Table.Th>
+            <Table.Th ta="center">Total</Table.Th>
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {combined.map((result) => (
+            <Table.Tr key={result.id}>
+              <Table.Td>
+                <Badge variant={result.rank <= 3 ? 'filled' : 'light'} size="lg">
+                  {result.rank}
+                </Badge>
+              </Table.Td>
+              <Table.Td fw={600}>
+                <Group gap="xs" wrap="nowrap">
+                  <Text span fw={600}>{result.name}</Text>
+                  {result.tieBreakLevel && (
+                    <Badge size="sm" variant="light" c="cyan">
+                      {getCombinedTieBreakLabel(result.tieBreakLevel, segments)}
+                    </Badge>
+                  )}
+                </Group>
+              </Table.Td>
+              {result.segmentPlacements.map((placement, idx) => (
+                <Table.Td key={idx} ta="center" ff="monospace">
+                  {placement ?? <Text span size="sm" c="dimmed">—</Text>}
+                </Table.Td>
+              ))}
+              <Table.Td ta="center" ff="monospace" fw={600}>
+                {result.placementSum}
+              </Table.Td>
+              <Table.Td ta="center" ff="monospace">
+                {result.totalScore.toFixed(1)}
+              </Table.Td>
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+    </Table.ScrollContainer>
+  );
+}
@@ -1,19 +1,33 @@
-import { Group, Text } from '@mantine/core';
+import { Group, Text, Tooltip } from '@mantine/core';
 import { IconAlertTriangle } from '@tabler/icons-react';
 
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import { getMissingScorePolicyDescription } from './missingScoreLabels';
+
 interface JudgeScoresProps {
   aScores: (number | null)[];
   bScores: (number | null)[];
+  judgeCount: number;
+  missingScorePolicy?: MissingScorePolicy;
+}
+
+/**
+ * Pads a score list to the panel size so A- and B-scores line up per judge
+ */
+function padToPanel(scores: (number | null)[], judgeCount: number): (number | null)[] {
+  return Array.from({ length: Math.max(judgeCount, scores.length) }, (_, idx) => scores[idx] ?? null);
 }
 
-export function JudgeScores({ aScores, bScores }: JudgeScoresProps) {
-  const hasNullScores = aScores.some(s => s === null) || bScores.some(s => s === null);
+export function JudgeScores({ aScores, bScores, judgeCount, missingScorePolicy = 'zero' }: JudgeScoresProps) {
+  const paddedA = padToPanel(aScores, judgeCount);
+  const paddedB = padToPanel(bScores, judgeCount);
+  const hasNullScores = paddedA.some(s => s === null) || paddedB.some(s => s === null);
 
   return (
     <Group gap="md" wrap="nowrap">
-      <Text size="sm" c="dimmed" ff="monospace">
+      <Text size="sm" c="dimmed" ff="monospace" style={{ whiteSpace: 'nowrap' }}>
         <strong>A:</strong>{' '}
-        {aScores.map((s, idx) => {
+        {paddedA.map((s, idx) => {
           const score = s !== null ? s.toFixed(1) : '-';
           return (
             <span key={idx}>
@@ -24,7 +38,7 @@ export function JudgeScores({ aScores, bScores }: JudgeScoresProps) {
         })}
         <br />
         <strong>B:</strong>{' '}
-        {bScores.map((s, idx) => {
+        {paddedB.map((s, idx) => {
           const score = s !== null ? s.toFixed(1) : '-';
           return (
             <span key={idx}>
@@ -35,7 +49,9 @@ export function JudgeScores({ aScores, bScores }: JudgeScoresProps) {
         })}
       </Text>
       {hasNullScores && (
-        <IconAlertTriangle size={16} color="orange" style={{ flexShrink: 0 }} />
+        <Tooltip label={getMissingScorePolicyDescription(missingScorePolicy)} position="top" withArrow multiline w={220}>
+          <IconAlertTriangle size={16} color="orange" style={{ flexShrink: 0, cursor: 'help' }} />
+        </Tooltip>
       )}
     </Group>
   );
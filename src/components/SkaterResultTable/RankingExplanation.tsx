@@ -1,15 +1,27 @@
+import { useMemo } from 'react';
 import { Group, Stack, Text } from '@mantine/core';
 
+import type { HeadToHeadOutcome } from '../../types/HeadToHeadOutcome';
 import type { HeadToHeadResult } from '../../types/HeadToHeadResult';
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { Ruleset } from '../../types/Ruleset';
+import type { RequiredScoreChange } from '../../types/Sensitivity';
 import type { SkaterResult } from '../../types/SkaterResult';
 import type { TieBreakLevel } from '../../types/TieBreakLevel';
+import { findMajorityCycle } from '../../utils/condorcet';
+import { DRIV_2025 } from '../../utils/rulesets';
+import { calculateSkaterSensitivity } from '../../utils/sensitivity';
+import { getMissingScorePolicyDescription } from './missingScoreLabels';
+import { formatTieBreakValue } from './tieBreakLabels';
 
 interface RankingExplanationProps {
   result: SkaterResult;
   allResults: SkaterResult[];
+  missingScorePolicy?: MissingScorePolicy;
+  ruleset?: Ruleset;
 }
 
-function getTieBreakFriendlyLabel(level: TieBreakLevel): string {
+function getTieBreakFriendlyLabel(level: TieBreakLevel, ruleset: Ruleset): string {
   switch (level) {
     case 'direct-comparison':
       return 'tied votes';
@@ -18,33 +30,74 @@ function getTieBreakFriendlyLabel(level: TieBreakLevel): string {
     case 'comparison-all':
       return 'votes';
     case 'total-score':
-      return 'Total score';
+      return ruleset.totalScoreMethod === 'trimmed-mean' ? 'trimmed mean total' : 'total score';
     default:
       return '';
   }
 }
 
-export function RankingExplanation({ result, allResults }: RankingExplanationProps) {
+const OUTCOME_STYLES: Record<HeadToHeadOutcome, { symbol: string; color: string }> = {
+  win: { symbol: '✓', color: 'green' },
+  draw: { symbol: '½', color: 'yellow' },
+  loss: { symbol: '✗', color: 'red' },
+};
+
+/**
+ * 1-based judges with the given outcome
+ */
+function getJudgesWith(h: HeadToHeadResult, outcome: HeadToHeadOutcome): number[] {
+  return h.judgeOutcomes
+    .map((judgeOutcome, judgeIdx) => (judgeOutcome === outcome ? judgeIdx + 1 : null))
+    .filter(judge => judge !== null);
+}
+
+/**
+ * e.g. "+0.2 B from judge 3"
+ */
+function formatScoreChange({ delta, scoreType, judge }: RequiredScoreChange): string {
+  return `${delta > 0 ? '+' : '−'}${Math.abs(delta).toFixed(1)} ${scoreType.toUpperCase()} from judge ${judge}`;
+}
+
+export function RankingExplanation({
+  result,
+  allResults,
+  missingScorePolicy = 'zero',
+  ruleset = DRIV_2025,
+}: RankingExplanationProps) {
+  // Searched only while the tooltip is open: one placement at a time
+  const sensitivity = useMemo(
+    () => calculateSkaterSensitivity(allResults, result.id, { missingScorePolicy, ruleset }),
+    [allResults, result.id, missingScorePolicy, ruleset]
+  );
+
+  const cycle = useMemo(() => findMajorityCycle(allResults, result.id), [allResults, result.id]);
+
   if (!result.headToHeadResults) return null;
 
+  const hasMissingScores = [...result.aScores, ...result.bScores].some(score => score === null);
+
   const totalMatchups = result.headToHeadResults.length;
-  const wonMatchups = result.headToHeadResults.filter(h => h.won).length;
+  const wonMatchups = result.headToHeadResults.filter(h => h.outcome === 'win').length;
+  const drawnMatchups = result.headToHeadResults.filter(h => h.outcome === 'draw').length;
 
   // Find who this skater is tied with in M.V. count (if anyone)
   const tiedWith = allResults.filter(
-    r => r.name !== result.name &&
+    r => r.id !== result.id &&
          r.majorityVictories === result.majorityVictories &&
          r.rank !== result.rank  // Only show if they have different ranks (tie was broken)
   );
 
+  // Skaters equal on every tie-break level share the placement
+  const sharedWith = allResults.filter(r => r.id !== result.id && r.rank === result.rank);
+
   // Separate tied skaters into those ranked above and below
   const tiedAbove = tiedWith.filter(r => r.rank < result.rank);
   const tiedBelow = tiedWith.filter(r => r.rank > result.rank);
 
   // Sort opponents by the skater's rank order
   const sortedResults = [...result.headToHeadResults].sort((a, b) => {
-    const aResult = allResults.find(r => r.name === a.opponent);
-    const bResult = allResults.find(r => r.name === b.opponent);
+    const aResult = allResults.find(r => r.id === a.opponentId);
+    const bResult = allResults.find(r => r.id === b.opponentId);
     return (aResult?.rank ?? 999) - (bResult?.rank ?? 999);
   });
 
@@ -57,66 +110,119 @@ export function RankingExplanation({ result, allResults }: RankingExplanationPro
         </Text>
         <Text size="sm" c="dimmed">
           Beat {wonMatchups} of {totalMatchups} skaters
+          {drawnMatchups > 0 && ` • drew with ${drawnMatchups}`}
         </Text>
       </Stack>
 
+      {/* How missing scores of this skater were handled */}
+      {hasMissingScores && (
+        <Text size="xs" c="orange" fs="italic">
+          {getMissingScorePolicyDescription(missingScorePolicy)}
+        </Text>
+      )}
+
+      {/* Majorities alone cannot order a cycle */}
+      {cycle && (
+        <Text size="xs" c="red.4" fs="italic">
+          Majority cycle: {[...cycle, cycle[0]].map(id => allResults.find(r => r.id === id)?.name ?? id).join(' beat ')} - the
+          placement is contested
+        </Text>
+      )}
+
+      {sharedWith.length > 0 && (
+        <Text size="xs" c="orange" fs="italic">
+          Shares place {result.rank} with {sharedWith.map(r => r.name).join(', ')} - equal on every tie-break level
+        </Text>
+      )}
+
       {/* Tie-break explanation if needed */}
       {result.tieBreakLevel && result.tieBreakValue !== undefined && (tiedAbove.length > 0 || tiedBelow.length > 0) && (
         <Stack gap={2} mt={4}>
           {tiedAbove.length > 0 && tiedAbove.map(other => {
-            const formattedMyValue = result.tieBreakValue! % 1 === 0 ? result.tieBreakValue!.toFixed(0) : result.tieBreakValue!.toFixed(1);
-            const formattedOtherValue = other.tieBreakValue! % 1 === 0 ? other.tieBreakValue!.toFixed(0) : other.tieBreakValue!.toFixed(1);
+            const formattedMyValue = formatTieBreakValue(result.tieBreakValue!);
+            const formattedOtherValue = formatTieBreakValue(other.tieBreakValue!);
             return (
-              <Text key={other.name} size="xs" c="cyan" fs="italic">
-                Behind {other.name} ({formattedMyValue} vs {formattedOtherValue}) by {getTieBreakFriendlyLabel(result.tieBreakLevel!)}
+              <Text key={other.id} size="xs" c="cyan" fs="italic">
+                Behind {other.name} ({formattedMyValue} vs {formattedOtherValue}) by {getTieBreakFriendlyLabel(result.tieBreakLevel!, ruleset)}
               </Text>
             );
           })}
           {tiedBelow.length > 0 && tiedBelow.map(other => {
-            const formattedMyValue = result.tieBreakValue! % 1 === 0 ? result.tieBreakValue!.toFixed(0) : result.tieBreakValue!.toFixed(1);
-            const formattedOtherValue = other.tieBreakValue! % 1 === 0 ? other.tieBreakValue!.toFixed(0) : other.tieBreakValue!.toFixed(1);
+            const formattedMyValue = formatTieBreakValue(result.tieBreakValue!);
+            const formattedOtherValue = formatTieBreakValue(other.tieBreakValue!);
             return (
-              <Text key={other.name} size="xs" c="cyan" fs="italic">
-                Ahead of {other.name} ({formattedMyValue} vs {formattedOtherValue}) by {getTieBreakFriendlyLabel(result.tieBreakLevel!)}
+              <Text key={other.id} size="xs" c="cyan" fs="italic">
+                Ahead of {other.name} ({formattedMyValue} vs {formattedOtherValue}) by {getTieBreakFriendlyLabel(result.tieBreakLevel!, ruleset)}
               </Text>
             );
           })}
         </Stack>
       )}
 
+      {/* Smallest single score changes that would have moved the placement */}
+      <Stack gap={2} mt={4}>
+        {sensitivity.toPass && (
+          <Text size="xs" c="gray.4" fs="italic">
+            Would have needed {formatScoreChange(sensitivity.toPass)} to pass {sensitivity.toPass.opponent}
+          </Text>
+        )}
+        {sensitivity.toDrop && (
+          <Text size="xs" c="gray.4" fs="italic">
+            {formatScoreChange(sensitivity.toDrop)} would have dropped them behind {sensitivity.toDrop.opponent}
+          </Text>
+        )}
+        <Text size="xs" c="dimmed">
+          {sensitivity.stability === null
+            ? 'Stability: no single score change moves this placement'
+            : `Stability: ${sensitivity.stability.toFixed(1)} points on one score move this placement`}
+        </Text>
+      </Stack>
+
       {/* Compact list of comparisons */}
       <Stack gap={6} mt={6}>
-        {sortedResults.map((h: HeadToHeadResult) => (
-          <Group
-            key={h.opponent}
-            justify="space-between"
-            wrap="nowrap"
-            pl="md"
-            pr="md"
-            py={8}
-            style={{
-              backgroundColor: h.won
-                ? 'var(--mantine-color-green-9)'
-                : 'var(--mantine-color-red-9)',
-              borderRadius: '6px',
-              borderLeft: h.won
-                ? '3px solid var(--mantine-color-green-6)'
-                : '3px solid var(--mantine-color-red-6)',
-            }}
-          >
-            <Group gap={12} wrap="nowrap">
-              <Text size="lg" fw={700} c={h.won ? 'green' : 'red'} style={{ minWidth: '20px', textAlign: 'center' }}>
-                {h.won ? '✓' : '✗'}
-              </Text>
-              <Text size="sm" fw={500}>
-                {h.opponent}
-              </Text>
+        {sortedResults.map((h: HeadToHeadResult) => {
+          const { symbol, color } = OUTCOME_STYLES[h.outcome];
+          const tiedJudges = getJudgesWith(h, 'draw');
+          return (
+            <Group
+              key={h.opponentId}
+              justify="space-between"
+              wrap="nowrap"
+              pl="md"
+              pr="md"
+              py={8}
+              style={{
+                backgroundColor: `var(--mantine-color-${color}-9)`,
+                borderRadius: '6px',
+                borderLeft: `3px solid var(--mantine-color-${color}-6)`,
+              }}
+            >
+              <Group gap={12} wrap="nowrap">
+                <Text size="lg" fw={700} c={color} style={{ minWidth: '20px', textAlign: 'center' }}>
+                  {symbol}
+                </Text>
+                <Text size="sm" fw={500}>
+                  {h.outcome === 'draw' ? `drew with ${h.opponent}` : h.opponent}
+                </Text>
+              </Group>
+              <Stack gap={0} align="flex-end">
+                <Text size="sm" fw={700} c={h.outcome === 'loss' ? 'gray.4' : color} mr={4} style={{ whiteSpace: 'nowrap', textAlign: 'left' }}>
+                  {h.skaterVotes}:{h.opponentVotes} votes
+                </Text>
+                {tiedJudges.length > 0 && (
+                  <Text size="xs" c="gray.4" mr={4} style={{ whiteSpace: 'nowrap' }}>
+                    tied at {tiedJudges.length === 1 ? 'judge' : 'judges'} {tiedJudges.join(', ')}
+                  </Text>
+                )}
+                {h.excludedJudges && (
+                  <Text size="xs" c="orange" mr={4} style={{ whiteSpace: 'nowrap' }}>
+                    without {h.excludedJudges.length === 1 ? 'judge' : 'judges'} {h.excludedJudges.join(', ')}
+                  </Text>
+                )}
+              </Stack>
             </Group>
-            <Text size="sm" fw={700} c={h.won ? 'green' : 'gray.4'} mr={4} style={{ whiteSpace: 'nowrap', textAlign: 'left' }}>
-              {h.skaterVotes}:{h.opponentVotes} votes
-            </Text>
-          </Group>
-        ))}
+          );
+        })}
       </Stack>
     </Stack>
   );
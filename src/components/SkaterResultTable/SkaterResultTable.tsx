@@ -1,26 +1,169 @@
-import { Paper, Table } from '@mantine/core';
+import { useDeferredValue, useMemo } from 'react';
+import { Alert, Button, Group, Menu, Paper, SegmentedControl, Select, Stack, Table, Text } from '@mantine/core';
+import { IconDownload, IconPrinter } from '@tabler/icons-react';
 
+import type { CombinationRule } from '../../types/CombinationRule';
+import type { CompetitionResult } from '../../types/CompetitionResult';
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { Ruleset } from '../../types/Ruleset';
 import type { SkaterResult } from '../../types/SkaterResult';
+import { formatResultsCsv } from '../../utils/csv';
+import type { CsvDelimiter } from '../../utils/csv';
+import { downloadFile } from '../../utils/download';
+import { calculateRankRanges } from '../../utils/rankRanges';
+import { DRIV_2025 } from '../../utils/rulesets';
+import { CombinedTable } from './CombinedTable';
 import { TableHeader } from './TableHeader';
 import { TableRow } from './TableRow';
 
 interface SkaterResultTableProps {
   results: SkaterResult[];
+  judgeCount: number;
+  missingScorePolicy?: MissingScorePolicy;
+  ruleset?: Ruleset;
+  competition?: CompetitionResult;
+  selectedSegment?: number;
+  onSegmentChange?: (index: number) => void;
+  combinationRule?: CombinationRule;
+  onCombinationRuleChange?: (rule: CombinationRule) => void;
+  onPrint?: () => void;
+  previousRanks?: Map<string, number>; // Baseline ranks by skater ID in what-if mode
 }
 
-export function SkaterResultTable({ results }: SkaterResultTableProps) {
+const COMBINATION_RULE_OPTIONS: Array<{ value: CombinationRule; label: string }> = [
+  { value: 'placement-sum', label: 'Placement sum' },
+  { value: 'weighted-placement', label: 'Weighted placements' },
+];
+
+export function SkaterResultTable({
+  results,
+  judgeCount,
+  missingScorePolicy = 'zero',
+  ruleset = DRIV_2025,
+  competition,
+  selectedSegment = 0,
+  onSegmentChange,
+  combinationRule = 'placement-sum',
+  onCombinationRuleChange,
+  onPrint,
+  previousRanks,
+}: SkaterResultTableProps) {
+  const isMultiSegment = competition !== undefined && competition.segments.length > 1;
+
+  // While judges are still entering scores, show which final places are still possible.
+  // Worked out after the table has updated, so typing in the editor does not wait for it.
+  const deferredResults = useDeferredValue(results);
+  const rankRanges = useMemo(() => {
+    const incomplete = deferredResults.some(({ aScores, bScores }) =>
+      aScores.length < judgeCount || bScores.length < judgeCount || [...aScores, ...bScores].some(score => score === null)
+    );
+    if (!incomplete) return undefined;
+    return new Map(calculateRankRanges(deferredResults, { missingScorePolicy, ruleset }).map(range => [range.id, range]));
+  }, [deferredResults, judgeCount, missingScorePolicy, ruleset]);
+
+  const handleExport = (delimiter: CsvDelimiter) => {
+    const segmentName = isMultiSegment ? competition.segments[selectedSegment]?.name : undefined;
+    const fileName = segmentName ? `results-${segmentName.toLowerCase().replace(/\s+/g, '-')}.csv` : 'results.csv';
+    // The byte order mark makes Excel read umlauts in names as UTF-8
+    downloadFile(`\uFEFF${formatResultsCsv(results, judgeCount, { delimiter })}`, fileName, 'text/csv');
+  };
+
+  const exportMenu = (
+    <Group gap="xs">
+      {onPrint && (
+        <Button size="xs" variant="light" radius="md" leftSection={<IconPrinter size={14} />} onClick={onPrint}>
+          Print view
+        </Button>
+      )}
+      <Menu position="bottom-end" radius="md">
+        <Menu.Target>
+          <Button size="xs" variant="light" radius="md" leftSection={<IconDownload size={14} />}>
+            Export CSV
+          </Button>
+        </Menu.Target>
+        <Menu.Dropdown>
+          <Menu.Item onClick={() => handleExport(',')}>Comma-separated (.csv)</Menu.Item>
+          <Menu.Item onClick={() => handleExport(';')}>Semicolon-separated (Excel, German)</Menu.Item>
+        </Menu.Dropdown>
+      </Menu>
+    </Group>
+  );
+
+  const segmentTable = (
+    <Table.ScrollContainer minWidth={800}>
+      <Table striped highlightOnHover>
+        <TableHeader judgeCount={judgeCount} />
+        <Table.Tbody>
+          {results.map((result) => (
+            <TableRow
+              key={result.id}
+              result={result}
+              allResults={results}
+              judgeCount={judgeCount}
+              missingScorePolicy={missingScorePolicy}
+              ruleset={ruleset}
+              previousRank={previousRanks?.get(result.id)}
+              rankRange={rankRanges?.get(result.id)}
+            />
+          ))}
+        </Table.Tbody>
+      </Table>
+    </Table.ScrollContainer>
+  );
+
+  if (!isMultiSegment) {
+    return (
+      <Paper shadow="sm" p="md" withBorder radius="md" className="fade-in">
+        <Stack gap="sm">
+          <Group justify="flex-end">{exportMenu}</Group>
+          {segmentTable}
+        </Stack>
+      </Paper>
+    );
+  }
+
   return (
     <Paper shadow="sm" p="md" withBorder radius="md" className="fade-in">
-      <Table.ScrollContainer minWidth={800}>
-        <Table striped highlightOnHover>
-          <TableHeader />
-          <Table.Tbody>
-            {results.map((result) => (
-              <TableRow key={result.name} result={result} allResults={results} />
-            ))}
-          </Table.Tbody>
-        </Table>
-      </Table.ScrollContainer>
+      <Stack gap="md">
+        <Group justify="space-between" align="center">
+          <Text size="lg" fw={600}>Overall Placement</Text>
+          <Select
+            size="xs"
+            w={200}
+            radius="md"
+            aria-label="Combination rule"
+            data={COMBINATION_RULE_OPTIONS}
+            value={combinationRule}
+            onChange={(value) => value && onCombinationRuleChange?.(value as CombinationRule)}
+            allowDeselect={false}
+          />
+        </Group>
+        {competition.combinationError ? (
+          <Alert color="red" radius="md">
+            {competition.combinationError}
+          </Alert>
+        ) : (
+          <CombinedTable
+            combined={competition.combined}
+            segments={competition.segments}
+            showWeights={combinationRule === 'weighted-placement'}
+          />
+        )}
+        <Group justify="space-between" align="center">
+          <Text size="lg" fw={600}>Segment Results</Text>
+          <Group gap="sm">
+            <SegmentedControl
+              size="xs"
+              radius="md"
+              data={competition.segments.map((segment, idx) => ({ value: String(idx), label: segment.name }))}
+              value={String(selectedSegment)}
+              onChange={(value) => onSegmentChange?.(Number(value))}
+            />
+            {exportMenu}
+          </Group>
+        </Group>
+        {segmentTable}
+      </Stack>
     </Paper>
   );
 }
@@ -1,7 +1,11 @@
 import { Group, HoverCard, Stack, Table, Text } from '@mantine/core';
 import { IconInfoCircle } from '@tabler/icons-react';
 
-export function TableHeader() {
+interface TableHeaderProps {
+  judgeCount: number;
+}
+
+export function TableHeader({ judgeCount }: TableHeaderProps) {
   return (
     <Table.Thead>
       <Table.Tr>
@@ -30,7 +34,7 @@ export function TableHeader() {
           </HoverCard>
         </Table.Th>
         <Table.Th ta="center">Total</Table.Th>
-        <Table.Th>Judge Scores</Table.Th>
+        <Table.Th>Judge Scores ({judgeCount} {judgeCount === 1 ? 'judge' : 'judges'})</Table.Th>
       </Table.Tr>
     </Table.Thead>
   );
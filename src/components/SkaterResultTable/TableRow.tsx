@@ -1,49 +1,32 @@
 import { Badge, Group, Table, Text, Tooltip } from '@mantine/core';
 
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+import type { ClinchedPlacement, RankRange } from '../../types/RankRange';
+import type { Ruleset } from '../../types/Ruleset';
 import type { SkaterResult } from '../../types/SkaterResult';
 import type { TieBreakLevel } from '../../types/TieBreakLevel';
 import { RankingExplanation } from './RankingExplanation';
 import { JudgeScores } from './JudgeScores';
+import { formatTieBreakInfo } from './tieBreakLabels';
 
 import styles from './TableRow.module.css';
 
 interface TableRowProps {
   result: SkaterResult;
   allResults: SkaterResult[];
+  judgeCount: number;
+  missingScorePolicy: MissingScorePolicy;
+  ruleset: Ruleset;
+  previousRank?: number; // Baseline rank in what-if mode, shown if it differs
+  rankRange?: RankRange; // Final places still possible while scores are missing
 }
 
-function getTieBreakBadgeLabel(
-  tieBreakInfo?: Array<{ level: TieBreakLevel; value: number }>
-): string {
-  if (!tieBreakInfo || tieBreakInfo.length === 0) {
-    return '';
-  }
-
-  const parts: string[] = [];
-
-  for (const { level, value } of tieBreakInfo) {
-    const formattedValue = value % 1 === 0 ? value.toFixed(0) : value.toFixed(1);
-
-    switch (level) {
-      case 'direct-comparison':
-        parts.push(`Tied votes: ${formattedValue}`);
-        break;
-      case 'b-score-sum':
-        parts.push(`B-Score: ${formattedValue}`);
-        break;
-      case 'comparison-all':
-        parts.push(`Votes: ${formattedValue}`);
-        break;
-      case 'total-score':
-        parts.push(`Total: ${formattedValue}`);
-        break;
-    }
-  }
-
-  return parts.join(', ');
-}
+const CLINCHED_LABELS: Record<ClinchedPlacement, { label: string; color: string }> = {
+  win: { label: 'Win clinched', color: 'yellow' },
+  podium: { label: 'Podium clinched', color: 'teal' },
+};
 
-function getTieBreakTooltip(level: TieBreakLevel): string {
+function getTieBreakTooltip(level: TieBreakLevel, ruleset: Ruleset): string {
   switch (level) {
     case 'direct-comparison':
       return 'Judge votes when comparing against other skaters with the same rank';
@@ -52,7 +35,9 @@ function getTieBreakTooltip(level: TieBreakLevel): string {
     case 'comparison-all':
       return 'Total judge votes when comparing against all skaters in the competition';
     case 'total-score':
-      return 'Final total score (Technical + Artistic) used as last tie-breaker';
+      return ruleset.totalScoreMethod === 'trimmed-mean'
+        ? 'Trimmed mean of the A- and B-scores (highest and lowest dropped from 5 judges) used as last tie-breaker'
+        : 'Sum of all judge totals (A + B) used as last tie-breaker';
     default:
       return '';
   }
@@ -85,7 +70,18 @@ function getRankIcon(rank: number) {
   }
 }
 
-export function TableRow({ result, allResults }: TableRowProps) {
+export function TableRow({
+  result,
+  allResults,
+  judgeCount,
+  missingScorePolicy,
+  ruleset,
+  previousRank,
+  rankRange,
+}: TableRowProps) {
+  // Still tied after every tie-break level
+  const shared = result.tieBreakLevel === 'none';
+
   return (
     <Table.Tr className={getRowClassName(result.rank)}>
       <Table.Td>
@@ -95,14 +91,40 @@ export function TableRow({ result, allResults }: TableRowProps) {
             size="lg"
             className={result.rank === 1 ? styles.pulseBadge : ''}
           >
-            {result.rank}
+            {result.rank}{shared && '='}
           </Badge>
           {getRankIcon(result.rank)}
+          {previousRank !== undefined && previousRank !== result.rank && (
+            <Tooltip label={`Rank ${previousRank} without the what-if changes`} withArrow>
+              <Badge size="sm" variant="light" color="orange" style={{ cursor: 'help' }}>
+                {previousRank > result.rank ? '▲' : '▼'} was {previousRank}
+              </Badge>
+            </Tooltip>
+          )}
+          {rankRange && rankRange.bestRank !== rankRange.worstRank && (
+            <Tooltip label="Final places still possible once all scores are in" withArrow>
+              <Text size="xs" c="dimmed" ff="monospace" style={{ cursor: 'help', whiteSpace: 'nowrap' }}>
+                {rankRange.bestRank}–{rankRange.worstRank}
+              </Text>
+            </Tooltip>
+          )}
+          {rankRange?.clinched && (
+            <Badge size="sm" variant="light" color={CLINCHED_LABELS[rankRange.clinched].color}>
+              {CLINCHED_LABELS[rankRange.clinched].label}
+            </Badge>
+          )}
         </Group>
       </Table.Td>
       <Table.Td fw={600}>
         <Tooltip
-          label={<RankingExplanation result={result} allResults={allResults} />}
+          label={
+            <RankingExplanation
+              result={result}
+              allResults={allResults}
+              missingScorePolicy={missingScorePolicy}
+              ruleset={ruleset}
+            />
+          }
           position="right"
           multiline
           w={250}
@@ -115,27 +137,37 @@ export function TableRow({ result, allResults }: TableRowProps) {
           withinPortal
         >
           <Text span style={{ borderBottom: '1px dotted', cursor: 'help' }}>
+            {result.startNumber !== undefined && (
+              <Text span c="dimmed" ff="monospace" fw={400}>{result.startNumber} </Text>
+            )}
             {result.name}
           </Text>
         </Tooltip>
       </Table.Td>
       <Table.Td>
-        {result.tieBreakInfo && result.tieBreakInfo.length > 0 ? (
+        {(result.tieBreakInfo && result.tieBreakInfo.length > 0) || shared ? (
           <Group gap={4} style={{ flexWrap: 'wrap' }}>
-            {result.tieBreakInfo.map((info, idx) => (
+            {result.tieBreakInfo?.map((info, idx) => (
               <Tooltip
                 key={idx}
-                label={getTieBreakTooltip(info.level)}
+                label={getTieBreakTooltip(info.level, ruleset)}
                 position="top"
                 withArrow
                 multiline
                 w={220}
               >
                 <Badge size="sm" variant="light" c="cyan" style={{ cursor: 'help' }}>
-                  {getTieBreakBadgeLabel([info])}
+                  {formatTieBreakInfo([info])}
                 </Badge>
               </Tooltip>
             ))}
+            {shared && (
+              <Tooltip label="Equal on every tie-break level - the placement is shared" position="top" withArrow multiline w={220}>
+                <Badge size="sm" variant="light" color="orange" style={{ cursor: 'help' }}>
+                  Shared
+                </Badge>
+              </Tooltip>
+            )}
           </Group>
         ) : (
           <Text size="sm" c="dimmed">—</Text>
@@ -146,9 +178,19 @@ export function TableRow({ result, allResults }: TableRowProps) {
       </Table.Td>
       <Table.Td ta="center" ff="monospace">
         {result.totalScore.toFixed(1)}
+        <Tooltip label="Trimmed mean A + B" position="top" withArrow>
+          <Text size="xs" c="dimmed" ff="monospace" style={{ cursor: 'help' }}>
+            Ø {result.trimmedMeanScore.toFixed(2)}
+          </Text>
+        </Tooltip>
       </Table.Td>
       <Table.Td>
-        <JudgeScores aScores={result.aScores} bScores={result.bScores} />
+        <JudgeScores
+          aScores={result.aScores}
+          bScores={result.bScores}
+          judgeCount={judgeCount}
+          missingScorePolicy={missingScorePolicy}
+        />
       </Table.Td>
     </Table.Tr>
   );
@@ -0,0 +1,17 @@
+import type { MissingScorePolicy } from '../../types/MissingScorePolicy';
+
+/**
+ * Explains how missing scores affect the ranking under the given policy
+ */
+export function getMissingScorePolicyDescription(policy: MissingScorePolicy): string {
+  switch (policy) {
+    case 'zero':
+      return 'Missing scores count as 0 in every comparison, tie-break and the total';
+    case 'exclude-judge':
+      return 'Judges with a missing score are left out of every comparison, tie-break and the total for this skater';
+    case 'block':
+      return 'Missing scores block the ranking until they are entered';
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,57 @@
+import type { TieBreakLevel } from '../../types/TieBreakLevel';
+
+/**
+ * Short label of the value a tie-break level compares
+ */
+export function getTieBreakValueLabel(level: TieBreakLevel): string {
+  switch (level) {
+    case 'direct-comparison':
+      return 'Tied votes';
+    case 'b-score-sum':
+      return 'B-Score';
+    case 'comparison-all':
+      return 'Votes';
+    case 'total-score':
+      return 'Total';
+    default:
+      return '';
+  }
+}
+
+const TIE_BREAK_LEVEL_NAMES: Record<TieBreakLevel, string> = {
+  'direct-comparison': 'tied votes',
+  'b-score-sum': 'B-score sum',
+  'comparison-all': 'votes against all',
+  'total-score': 'total score',
+  'none': '',
+};
+
+/**
+ * Name of a tie-break level in running text, e.g. "B-score sum"
+ */
+export function getTieBreakLevelName(level: TieBreakLevel): string {
+  return TIE_BREAK_LEVEL_NAMES[level];
+}
+
+/**
+ * Tie-break levels in the order they are applied, e.g. "tied votes › B-score sum › total score"
+ */
+export function formatTieBreakChain(chain: TieBreakLevel[]): string {
+  return chain.map(getTieBreakLevelName).join(' › ');
+}
+
+/**
+ * Formats a tie-break value with up to two decimals (trimmed means), without trailing zeros
+ */
+export function formatTieBreakValue(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * The applied tie-break levels with their values, e.g. "Tied votes: 2, B-Score: 7.5"
+ */
+export function formatTieBreakInfo(tieBreakInfo?: Array<{ level: TieBreakLevel; value: number }>): string {
+  return (tieBreakInfo ?? [])
+    .map(({ level, value }) => `${getTieBreakValueLabel(level)}: ${formatTieBreakValue(value)}`)
+    .join(', ');
+}
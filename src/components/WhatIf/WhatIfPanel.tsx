@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { ActionIcon, Badge, Button, Group, Paper, SegmentedControl, Select, Stack, Switch, Table, Text } from '@mantine/core';
+import { IconMinus, IconPlus } from '@tabler/icons-react';
+
+import type { RankingChange } from '../../types/RankingChange';
+import type { ScoreChange } from '../../types/ScoreChange';
+import type { SkaterResult } from '../../types/SkaterResult';
+import { MAX_SCORE } from '../../utils/parser';
+import { setScoreChange } from '../../utils/whatIf';
+import { getTieBreakLevelName } from '../SkaterResultTable/tieBreakLabels';
+
+interface WhatIfPanelProps {
+  results: SkaterResult[]; // Baseline results
+  judgeCount: number;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  changes: ScoreChange[];
+  onChangesChange: (changes: ScoreChange[]) => void;
+  rankingChanges: RankingChange[];
+}
+
+const NUDGE_STEP = 0.1;
+
+function formatScore(score: number | null | undefined): string {
+  return score === null || score === undefined ? '–' : String(Math.round(score * 100) / 100);
+}
+
+function formatTieBreak(level: RankingChange['tieBreakLevelBefore']): string {
+  return level && level !== 'none' ? getTieBreakLevelName(level) : '–';
+}
+
+/**
+ * What-if mode: nudges single scores of the results without editing the input
+ * and lists how ranks, M.V. and deciding tie-breaks change against the baseline
+ */
+export function WhatIfPanel({
+  results,
+  judgeCount,
+  enabled,
+  onEnabledChange,
+  changes,
+  onChangesChange,
+  rankingChanges,
+}: WhatIfPanelProps) {
+  const [skaterId, setSkaterId] = useState<string | null>(null);
+  const [judge, setJudge] = useState('1');
+  const [scoreType, setScoreType] = useState<'a' | 'b'>('b');
+
+  const skater = results.find(result => result.id === skaterId) ?? results[0];
+  const judgeNumber = Math.min(Number(judge), judgeCount);
+  const scores = scoreType === 'a' ? skater?.aScores : skater?.bScores;
+  const original = scores?.[judgeNumber - 1] ?? null;
+  const existing = changes.find(change =>
+    change.skaterId === skater?.id && change.judge === judgeNumber && change.scoreType === scoreType
+  );
+  const current = existing ? existing.value : original;
+  const nameOf = (id: string) => results.find(result => result.id === id)?.name ?? id;
+
+  const handleNudge = (delta: number) => {
+    if (!skater) return;
+    const value = Math.round(Math.min(MAX_SCORE, Math.max(0, (current ?? 0) + delta)) * 100) / 100;
+    const others = changes.filter(change => change !== existing);
+    // Nudging back to the original score removes the change
+    onChangesChange(value === original ? others : setScoreChange(changes, { skaterId: skater.id, judge: judgeNumber, scoreType, value }));
+  };
+
+  return (
+    <Paper shadow="sm" p="md" withBorder radius="md">
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Switch
+            label="What-if mode"
+            description="Try single score changes without editing the input"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.currentTarget.checked)}
+          />
+          {enabled && changes.length > 0 && (
+            <Button size="xs" variant="default" radius="md" onClick={() => onChangesChange([])}>
+              Reset all changes
+            </Button>
+          )}
+        </Group>
+
+        {enabled && skater && (
+          <Stack gap="sm">
+            <Group gap="xs" align="center">
+              <Select
+                size="xs"
+                w={200}
+                radius="md"
+                aria-label="Skater"
+                data={results.map(result => ({ value: result.id, label: result.name }))}
+                value={skater.id}
+                onChange={setSkaterId}
+                allowDeselect={false}
+              />
+              <Select
+                size="xs"
+                w={110}
+                radius="md"
+                aria-label="Judge"
+                data={Array.from({ length: judgeCount }, (_, i) => ({ value: String(i + 1), label: `Judge ${i + 1}` }))}
+                value={String(judgeNumber)}
+                onChange={(value) => value && setJudge(value)}
+                allowDeselect={false}
+              />
+              <SegmentedControl
+                size="xs"
+                radius="md"
+                data={[{ value: 'a', label: 'A' }, { value: 'b', label: 'B' }]}
+                value={scoreType}
+                onChange={(value) => setScoreType(value as 'a' | 'b')}
+              />
+              <ActionIcon variant="light" radius="md" aria-label="Decrease score" onClick={() => handleNudge(-NUDGE_STEP)}>
+                <IconMinus size={14} />
+              </ActionIcon>
+              <Text ff="monospace" size="sm" fw={600}>
+                {existing ? `${formatScore(original)} → ${formatScore(current)}` : formatScore(original)}
+              </Text>
+              <ActionIcon variant="light" radius="md" aria-label="Increase score" onClick={() => handleNudge(NUDGE_STEP)}>
+                <IconPlus size={14} />
+              </ActionIcon>
+            </Group>
+
+            {changes.length > 0 && (
+              <Group gap={4}>
+                {changes.map(change => (
+                  <Badge
+                    key={`${change.skaterId}-${change.judge}-${change.scoreType}`}
+                    variant="light"
+                    color="orange"
+                    style={{ cursor: 'pointer' }}
+                    title="Remove change"
+                    onClick={() => onChangesChange(changes.filter(other => other !== change))}
+                  >
+                    {nameOf(change.skaterId)} J{change.judge} {change.scoreType.toUpperCase()}: {formatScore(change.value)} ✕
+                  </Badge>
+                ))}
+              </Group>
+            )}
+
+            {changes.length > 0 && rankingChanges.length === 0 && (
+              <Text size="sm" c="dimmed">The changes do not affect the ranking.</Text>
+            )}
+            {rankingChanges.length > 0 && (
+              <Table withTableBorder fz="sm">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Skater</Table.Th>
+                    <Table.Th ta="center">Rank</Table.Th>
+                    <Table.Th ta="center">M.V.</Table.Th>
+                    <Table.Th>Tie-break</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {rankingChanges.map(change => (
+                    <Table.Tr key={change.id}>
+                      <Table.Th>{change.name}</Table.Th>
+                      <Table.Td ta="center" ff="monospace" c={change.rankAfter < change.rankBefore ? 'green' : change.rankAfter > change.rankBefore ? 'red' : undefined}>
+                        {change.rankBefore} → {change.rankAfter}
+                      </Table.Td>
+                      <Table.Td ta="center" ff="monospace">
+                        {change.majorityVictoriesBefore} → {change.majorityVictoriesAfter}
+                      </Table.Td>
+                      <Table.Td>
+                        {formatTieBreak(change.tieBreakLevelBefore)} → {formatTieBreak(change.tieBreakLevelAfter)}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            )}
+          </Stack>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
@@ -1,38 +1,63 @@
 import { useEffect, useState } from 'react';
 
-import type { SkaterResult } from '../types/SkaterResult';
-import { parseInput } from '../utils/parser';
-import { calculateRankings } from '../utils/scoring';
+import type { CombinationRule } from '../types/CombinationRule';
+import type { CompetitionResult } from '../types/CompetitionResult';
+import type { MissingScorePolicy } from '../types/MissingScorePolicy';
+import type { ParseDiagnostic } from '../types/ParseDiagnostic';
+import type { Ruleset } from '../types/Ruleset';
+import { detectJudgeCount, parseSegments } from '../utils/parser';
+import { calculateCompetition } from '../utils/competition';
+import { DRIV_2025 } from '../utils/rulesets';
+
+interface ScoreCalculationOptions {
+  judgeCount?: number; // Declared panel size, detected from the input if omitted
+  combinationRule?: CombinationRule;
+  missingScorePolicy?: MissingScorePolicy;
+  ruleset?: Ruleset;
+  trace?: boolean; // Keep the calculation trace of every segment
+}
 
-export function useScoreCalculation(input: string) {
-  const [results, setResults] = useState<SkaterResult[]>([]);
+const EMPTY_COMPETITION: CompetitionResult = { segments: [], combined: [] };
+
+/**
+ * Parses the input and calculates the rankings of every segment and the combined placement.
+ * If no panel size is declared, it is detected from the input.
+ * Problems found while parsing are returned as diagnostics for the input editor.
+ */
+export function useScoreCalculation(input: string, options: ScoreCalculationOptions = {}) {
+  const { combinationRule = 'placement-sum', missingScorePolicy = 'zero', ruleset = DRIV_2025, trace = false } = options;
+  const [competition, setCompetition] = useState<CompetitionResult>(EMPTY_COMPETITION);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
   const [error, setError] = useState<string>('');
 
+  const judgeCount = options.judgeCount ?? detectJudgeCount(input);
+
   useEffect(() => {
     try {
       setError('');
 
       // Don't show error if input is empty or just whitespace
       if (!input.trim()) {
-        setResults([]);
+        setCompetition(EMPTY_COMPETITION);
+        setDiagnostics([]);
         return;
       }
 
-      const skatersData = parseInput(input);
+      const { segments, diagnostics: parseDiagnostics } = parseSegments(input, { judgeCount });
+      setDiagnostics(parseDiagnostics);
 
-      if (skatersData.length === 0) {
+      if (segments.length === 0) {
         setError('Hmm, I couldn\'t find any valid scores. Make sure each line has at least one number!');
-        setResults([]);
+        setCompetition(EMPTY_COMPETITION);
         return;
       }
 
-      const rankings = calculateRankings(skatersData);
-      setResults(rankings);
+      setCompetition(calculateCompetition(segments, combinationRule, { missingScorePolicy, ruleset, trace }));
     } catch (err) {
       setError(`Oops! ${err instanceof Error ? err.message : 'Something went wrong. Please check your input.'}`);
-      setResults([]);
+      setCompetition(EMPTY_COMPETITION);
     }
-  }, [input]);
+  }, [input, judgeCount, combinationRule, missingScorePolicy, ruleset, trace]);
 
-  return { results, error };
+  return { competition, diagnostics, error, judgeCount };
 }
@@ -1,32 +1,64 @@
 import { useEffect, useState } from 'react';
-import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
+import { notifications } from '@mantine/notifications';
 
+import type { SharePayload } from '../types/SharePayload';
+import { createSharePayload, decodeSharePayload, encodeSharePayload, LEGACY_SETTING_PARAMS } from '../utils/sharePayload';
+
+function readUrl(): { payload: SharePayload; error: string | null } {
+  const { hash, search } = window.location;
+  try {
+    return { payload: decodeSharePayload(hash.slice(1), search), error: null }; // Remove leading #
+  } catch (err) {
+    return { payload: createSharePayload(), error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Keeps the input, settings and event details in the URL hash as a versioned share payload.
+ * Older links (compressed input in the hash, settings in the query string) are read as well.
+ */
 export function useUrlState() {
-  const [input, setInput] = useState(() => {
-    // Load data from URL hash (everything after the #)
-    const hash = window.location.hash.slice(1); // Remove leading #
-
-    if (hash) {
-      try {
-        const decompressed = decompressFromEncodedURIComponent(hash);
-        return decompressed || '';
-      } catch {
-        // If decompression fails, return empty
-      }
+  const [initial] = useState(readUrl);
+  const [payload, setPayload] = useState(initial.payload);
+
+  useEffect(() => {
+    if (initial.error) {
+      notifications.show({ title: 'Could not open the link', message: initial.error, color: 'red' });
     }
-    return '';
-  });
+  }, [initial.error]);
+
+  // Update URL whenever the payload changes; the settings of older links move into the hash
+  useEffect(() => {
+    const { pathname, search } = window.location;
+    const params = new URLSearchParams(search);
+    LEGACY_SETTING_PARAMS.forEach(key => params.delete(key));
+    const query = params.toString();
+    const encoded = encodeSharePayload(payload);
+    window.history.replaceState({}, '', `${pathname}${query ? `?${query}` : ''}${encoded ? `#${encoded}` : ''}`);
+  }, [payload]);
+
+  return [payload, setPayload] as const;
+}
+
+/**
+ * Keeps a single view option in the URL query string (e.g. ?view=print)
+ */
+export function useUrlSearchParam(key: string) {
+  const [value, setValue] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get(key)
+  );
 
-  // Update URL whenever input changes
   useEffect(() => {
-    if (input.trim()) {
-      const compressed = compressToEncodedURIComponent(input);
-      window.history.replaceState({}, '', `#${compressed}`);
+    const { pathname, search, hash } = window.location;
+    const params = new URLSearchParams(search);
+    if (value) {
+      params.set(key, value);
     } else {
-      // Clear hash if input is empty
-      window.history.replaceState({}, '', window.location.pathname);
+      params.delete(key);
     }
-  }, [input]);
+    const query = params.toString();
+    window.history.replaceState({}, '', `${pathname}${query ? `?${query}` : ''}${hash}`);
+  }, [key, value]);
 
-  return [input, setInput] as const;
+  return [value, setValue] as const;
 }
@@ -0,0 +1,4 @@
+// How segment placements are combined into the final placement:
+// 'placement-sum': plain sum of placement numbers (Platzziffern)
+// 'weighted-placement': placement numbers multiplied by the segment weight
+export type CombinationRule = 'placement-sum' | 'weighted-placement';
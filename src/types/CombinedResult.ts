@@ -0,0 +1,11 @@
+import type { CombinedTieBreakLevel } from './CombinedTieBreakLevel';
+
+export interface CombinedResult {
+  id: string; // Unique participant key: "#<start number>" or "name:<display name>", "/2" etc. for repeated entries
+  name: string;
+  rank: number;
+  placementSum: number; // (Weighted) sum of segment placements - lower is better
+  segmentPlacements: (number | null)[]; // Placement per segment, null if the skater did not skate it
+  totalScore: number; // Sum of the segment total scores, used as the last tie-breaker
+  tieBreakLevel?: CombinedTieBreakLevel; // Which tie-breaker separated this skater (if any)
+}
@@ -0,0 +1 @@
+export type CombinedTieBreakLevel = 'deciding-segment' | 'total-score';
@@ -0,0 +1,48 @@
+import type { CombinationRule } from './CombinationRule';
+import type { CompetitionSegment } from './CompetitionSegment';
+import type { MissingScorePolicy } from './MissingScorePolicy';
+import type { SkaterScores } from './SkaterScores';
+
+export interface CompetitionMetadata {
+  title?: string; // Event, e.g. "Landesmeisterschaft 2026"
+  category?: string; // e.g. "Freiläufer Damen"
+  date?: string; // ISO date, e.g. "2026-10-19"
+  venue?: string;
+  organizer?: string;
+}
+
+export interface JudgeInfo {
+  id: string; // "J1", "J2", ... in panel order
+  name?: string;
+}
+
+export interface RulesetReference {
+  id: string; // Registered ruleset, e.g. "driv-2025"
+  version: number; // Version of the ruleset the competition is ranked with
+  combinationRule: CombinationRule; // How segment placements are combined
+  missingScorePolicy: MissingScorePolicy; // How null scores are handled
+}
+
+/**
+ * A skater as stored in a document. IDs are left out: they are derived from the input
+ * lines, which change whenever lines are moved, so they are derived again on opening.
+ */
+export type DocumentSkater = Omit<SkaterScores, 'id'>;
+
+export interface DocumentSegment extends Omit<CompetitionSegment, 'skaters'> {
+  skaters: DocumentSkater[];
+}
+
+/**
+ * A competition as a self-contained, versioned JSON document.
+ * Every skater has one A- and one B-score per judge, in the order of `judges`
+ * (null for a missing score).
+ */
+export interface CompetitionDocument {
+  format: 'rollkunstlauf-competition';
+  version: number; // Schema version, see COMPETITION_DOCUMENT_VERSION
+  metadata: CompetitionMetadata;
+  judges: JudgeInfo[];
+  ruleset: RulesetReference;
+  segments: DocumentSegment[];
+}
@@ -0,0 +1,8 @@
+import type { SegmentResult } from './SegmentResult';
+import type { CombinedResult } from './CombinedResult';
+
+export interface CompetitionResult {
+  segments: SegmentResult[];
+  combined: CombinedResult[]; // Final placement across all segments
+  combinationError?: string; // Why the segments could not be combined (combined is empty then)
+}
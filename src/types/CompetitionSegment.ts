@@ -0,0 +1,7 @@
+import type { SkaterScores } from './SkaterScores';
+
+export interface CompetitionSegment {
+  name: string; // e.g. "Pflicht", "Kurzprogramm", "Kür"
+  weight: number; // Factor for weighted combination (e.g. Kür counts twice), 1 by default
+  skaters: SkaterScores[];
+}
@@ -0,0 +1,11 @@
+/**
+ * Structure of the majority graph: skater X points to skater Y if most judges prefer X.
+ * All skater lists are in rank order.
+ */
+export interface CondorcetAnalysis {
+  components: string[][]; // Strongly connected components: skaters that reach each other through victories
+  cyclicGroups: string[][]; // Components of more than one skater, i.e. majority cycles
+  smithSet: string[]; // Smallest group whose members all beat every skater outside it
+  condorcetWinner: string | null; // Beats every other skater head-to-head
+  condorcetLoser: string | null; // Loses to every other skater head-to-head
+}
@@ -0,0 +1,24 @@
+import type { HeadToHeadOutcome } from './HeadToHeadOutcome';
+
+export interface CrossTableCell {
+  skaterVotes: number; // Judges for the row skater
+  opponentVotes: number; // Judges for the column skater
+  outcome: HeadToHeadOutcome;
+  points: number; // M.V. the row skater gets from this comparison: 1, ½ or 0
+}
+
+export interface CrossTableRow {
+  id: string;
+  name: string;
+  startNumber?: number;
+  rank: number;
+  cells: Array<CrossTableCell | null>; // One per skater in rank order, null on the diagonal
+  majorityVictories: number; // Row sum of the points
+}
+
+/**
+ * Pairwise comparison matrix (Kreuztabelle) with the skaters in rank order on both axes
+ */
+export interface CrossTable {
+  rows: CrossTableRow[];
+}
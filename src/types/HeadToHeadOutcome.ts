@@ -0,0 +1 @@
+export type HeadToHeadOutcome = 'win' | 'loss' | 'draw'; // From the point of view of the skater, a draw counts ½ M.V.
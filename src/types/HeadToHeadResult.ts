@@ -1,6 +1,12 @@
+import type { HeadToHeadOutcome } from './HeadToHeadOutcome';
+
 export interface HeadToHeadResult {
-  opponent: string;
-  won: boolean;
-  skaterVotes: number;
+  opponentId: string;
+  opponent: string; // Display name of the opponent
+  outcome: HeadToHeadOutcome; // Majority of the judges, a draw if both skaters got the same number of votes
+  won: boolean; // Same as outcome === 'win'
+  skaterVotes: number; // Judges preferring the skater, tied judges count for neither
   opponentVotes: number;
+  judgeOutcomes: Array<HeadToHeadOutcome | null>; // Vote of every judge for the skater (index 0 = judge 1), null if left out
+  excludedJudges?: number[]; // 1-based judges left out because of missing scores ('exclude-judge' policy)
 }
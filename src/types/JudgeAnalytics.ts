@@ -0,0 +1,14 @@
+export interface JudgeAnalytics {
+  judge: number; // 1-based position on the panel
+  kendallTau: number | null; // Rank correlation (tau-b) of the judge's order with the final ranking, null if undefined
+  spearmanRho: number | null; // Spearman rank correlation with the final ranking, null if undefined
+  aDeviation: number | null; // Mean difference of the judge's A-scores from the panel median, null without scores
+  bDeviation: number | null; // Same for the B-scores
+  dissents: number; // Head-to-head majorities in which the judge voted for the loser
+  majorities: number; // Head-to-head majorities the judge voted in (draws excluded)
+}
+
+export interface PanelAnalytics {
+  judges: JudgeAnalytics[];
+  kendallW: number | null; // Agreement of the whole panel, 0 (none) to 1 (identical orders); null if undefined
+}
@@ -0,0 +1,4 @@
+export type JudgeComparison =
+  | 'total-then-b' // Higher A+B wins, equal totals are decided by the B-score
+  | 'total-only' // Higher A+B wins, equal totals are a tie
+  | 'b-then-total'; // Higher B-score wins, equal B-scores are decided by A+B
@@ -0,0 +1,13 @@
+export interface JudgePlacement {
+  placement: number | null; // 1-based place in this judge's own order, null if the judge is left out ('exclude-judge')
+  tied: boolean; // The judge placed at least one other skater equal
+  deviation: number | null; // placement - majority rank: positive if the judge placed the skater lower
+}
+
+export interface JudgePlacementRow {
+  id: string;
+  name: string;
+  startNumber?: number;
+  rank: number; // Final majority rank
+  placements: JudgePlacement[]; // One per judge in panel order
+}
@@ -0,0 +1,20 @@
+/**
+ * A skater in the provisional ranking of a live competition
+ */
+export interface LiveStanding {
+  id: string;
+  name: string;
+  rank: number;
+  majorityVictories: number;
+  previousRank?: number; // Rank before the newest skater, missing for the newest skater
+  majorityVictoriesGained?: number; // M.V. from the comparison with the newest skater (1, ½ or 0), missing for the newest skater
+}
+
+/**
+ * Provisional ranking after a skater of the start order
+ */
+export interface LiveSnapshot {
+  skaterCount: number; // Skaters ranked so far, in start order
+  newestId: string;
+  standings: LiveStanding[]; // In rank order
+}
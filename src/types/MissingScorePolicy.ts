@@ -0,0 +1,4 @@
+export type MissingScorePolicy =
+  | 'zero' // A missing score counts as 0
+  | 'exclude-judge' // The judge is left out of every comparison involving the skater
+  | 'block'; // No ranking until all scores are entered
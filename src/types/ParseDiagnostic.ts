@@ -0,0 +1,19 @@
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type ParseDiagnosticCode =
+  | 'skipped-line' // Line without any numbers, ignored completely
+  | 'extra-numbers' // More numbers than the panel has judges, the rest is ignored
+  | 'missing-scores' // Fewer numbers than the panel has judges, padded with null
+  | 'suspicious-value' // Score outside the valid range or finer than 0.1 steps
+  | 'duplicate-name' // Same display name used twice within a segment
+  | 'duplicate-start-number' // Same start number used twice within a segment
+  | 'ambiguous-participant'; // Skater that cannot be matched safely across segments (repeated name or start number)
+
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  code: ParseDiagnosticCode;
+  line: number; // 1-based line in the input
+  startColumn: number; // 1-based, inclusive
+  endColumn: number; // 1-based, exclusive
+  message: string;
+}
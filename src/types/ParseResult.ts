@@ -0,0 +1,8 @@
+import type { CompetitionSegment } from './CompetitionSegment';
+import type { ParseDiagnostic } from './ParseDiagnostic';
+
+export interface ParseResult {
+  segments: CompetitionSegment[];
+  judgeCount: number; // Declared or detected panel size
+  diagnostics: ParseDiagnostic[]; // Problems found in the input, in line order
+}
@@ -0,0 +1,14 @@
+/**
+ * A placement that can no longer be lost, whatever the missing scores turn out to be
+ */
+export type ClinchedPlacement = 'win' | 'podium';
+
+/**
+ * Best and worst final placement still possible while judge scores are missing
+ */
+export interface RankRange {
+  id: string;
+  bestRank: number;
+  worstRank: number;
+  clinched: ClinchedPlacement | null;
+}
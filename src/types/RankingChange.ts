@@ -0,0 +1,15 @@
+import type { TieBreakLevel } from './TieBreakLevel';
+
+/**
+ * Difference of one skater between the baseline ranking and a simulated ranking
+ */
+export interface RankingChange {
+  id: string;
+  name: string;
+  rankBefore: number;
+  rankAfter: number;
+  majorityVictoriesBefore: number;
+  majorityVictoriesAfter: number;
+  tieBreakLevelBefore?: TieBreakLevel;
+  tieBreakLevelAfter?: TieBreakLevel;
+}
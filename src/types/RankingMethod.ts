@@ -0,0 +1,23 @@
+/**
+ * Alternative ways to rank the same scores, for comparison with the majority system
+ */
+export type RankingMethod = 'sum' | 'trimmed-mean' | 'borda' | 'schulze' | 'kemeny-young';
+
+export interface MethodRank {
+  id: string;
+  rank: number; // 1-based, equal for skaters the method cannot separate
+  score?: number; // Value the method ranks by - higher is better; not given for Kemeny-Young
+}
+
+export interface MethodComparisonRow {
+  id: string;
+  name: string;
+  startNumber?: number;
+  rank: number; // Official majority rank
+  ranks: Partial<Record<RankingMethod, MethodRank>>; // Missing for methods not applied to the field
+}
+
+export interface MethodComparison {
+  methods: RankingMethod[]; // Methods applied, in display order
+  rows: MethodComparisonRow[]; // In official order
+}
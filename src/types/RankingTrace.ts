@@ -0,0 +1,35 @@
+import type { MissingScorePolicy } from './MissingScorePolicy';
+import type { TieBreakLevel } from './TieBreakLevel';
+
+export interface TraceTieBreakLevel {
+  level: Exclude<TieBreakLevel, 'none'>;
+  values: Record<string, number>; // Value per skater ID - the higher value ranks better
+}
+
+export interface TraceSeparation {
+  higherId: string; // Skater ranked higher
+  lowerId: string;
+  level: TieBreakLevel; // First level of the chain at which the two differ, 'none' if they stay tied
+}
+
+export interface TraceGroup {
+  majorityVictories: number; // M.V. shared by the group
+  firstRank: number; // Rank of the first skater of the group
+  skaterIds: string[]; // In final order
+  ranks: number[]; // Rank of each skater in skaterIds, equal for skaters sharing a placement
+  levels: TraceTieBreakLevel[]; // Every level of the tie-break chain, empty for a group of one
+  separations: TraceSeparation[]; // Every pair of the group
+}
+
+/**
+ * Calculation protocol of one majority-system ranking: every intermediate number
+ * needed to explain a placement. Contains only plain data, so it can be saved as JSON.
+ */
+export interface RankingTrace {
+  ruleset: string; // Ruleset key, e.g. "driv-2025@1"
+  missingScorePolicy: MissingScorePolicy;
+  skaters: Array<{ id: string; name: string }>; // In input order
+  votes: Array<Array<number | null>>; // votes[i][j]: judges for skater i against skater j (0.5 per tied judge), null on the diagonal
+  majorityVictories: Record<string, number>; // M.V. per skater ID
+  groups: TraceGroup[]; // Skaters with equal M.V., best group first
+}
@@ -0,0 +1,17 @@
+import type { JudgeComparison } from './JudgeComparison';
+import type { TieBreakLevel } from './TieBreakLevel';
+import type { TotalScoreMethod } from './TotalScoreMethod';
+
+/**
+ * A named, versioned set of rules for the majority system. A competition is
+ * recomputed under the same rules by referencing `id` and `version`.
+ */
+export interface Ruleset {
+  id: string; // e.g. "driv-2025"
+  version: number; // Increased whenever the rules of an id change
+  name: string; // Display name
+  description: string;
+  judgeComparison: JudgeComparison; // How one judge decides between two skaters
+  tieBreakChain: Exclude<TieBreakLevel, 'none'>[]; // Applied in order to skaters with equal M.V.
+  totalScoreMethod: TotalScoreMethod; // Total used for the 'total-score' tie-break
+}
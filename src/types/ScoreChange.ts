@@ -0,0 +1,9 @@
+/**
+ * A single score of the results replaced for a what-if simulation
+ */
+export interface ScoreChange {
+  skaterId: string;
+  judge: number; // 1-based position on the panel
+  scoreType: 'a' | 'b';
+  value: number | null; // Simulated score, null for a missing score
+}
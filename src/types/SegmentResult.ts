@@ -0,0 +1,9 @@
+import type { RankingTrace } from './RankingTrace';
+import type { SkaterResult } from './SkaterResult';
+
+export interface SegmentResult {
+  name: string;
+  weight: number;
+  results: SkaterResult[]; // Majority-system ranking of this segment alone
+  trace?: RankingTrace; // Calculation protocol of the ranking, if requested
+}
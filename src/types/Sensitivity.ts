@@ -0,0 +1,19 @@
+import type { ScoreChange } from './ScoreChange';
+
+/**
+ * Smallest change to a single score that moves a skater past a neighbour in the ranking
+ */
+export interface RequiredScoreChange {
+  judge: number; // 1-based judge number
+  scoreType: ScoreChange['scoreType'];
+  delta: number; // Signed change in points, a multiple of 0.1
+  opponentId: string;
+  opponent: string; // Name of the skater passed or dropped behind
+}
+
+export interface SkaterSensitivity {
+  id: string;
+  toPass?: RequiredScoreChange; // Missing for the leader or if no single score change is enough
+  toDrop?: RequiredScoreChange; // Missing for the last place or if no single score change is enough
+  stability: number | null; // Smallest change in points that moves the placement at all, null if none does
+}
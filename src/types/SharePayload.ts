@@ -0,0 +1,22 @@
+import type { CombinationRule } from './CombinationRule';
+import type { CompetitionMetadata } from './CompetitionDocument';
+import type { MissingScorePolicy } from './MissingScorePolicy';
+import type { Ruleset } from './Ruleset';
+
+export interface ShareSettings {
+  judgeCount?: number; // Declared panel size, inferred from the scores otherwise
+  combinationRule: CombinationRule;
+  missingScorePolicy: MissingScorePolicy;
+  ruleset: Ruleset;
+}
+
+/**
+ * Everything a share link reproduces: the raw input as typed, the settings it is ranked with
+ * and the event details
+ */
+export interface SharePayload {
+  input: string;
+  settings: ShareSettings;
+  metadata: CompetitionMetadata;
+  judgeNames: string[]; // Names in panel order, empty for unnamed judges
+}
@@ -3,7 +3,8 @@ import type { TieBreakLevel } from './TieBreakLevel';
 import type { HeadToHeadResult } from './HeadToHeadResult';
 
 export interface SkaterResult extends SkaterScores {
-  totalScore: number; // Gesamtpunktzahl: sum of all judge totals (A+B per judge), used for display and Tie-break Level 4
+  totalScore: number; // Gesamtpunktzahl: sum of all judge totals (A+B per judge), used for display and Tie-break Level 4 ('sum')
+  trimmedMeanScore: number; // Trimmed mean A-score + trimmed mean B-score, used for Tie-break Level 4 ('trimmed-mean')
   rank: number;
   majorityVictories: number; // M.V. / Verhältniszahl - number of pairwise victories
   tieBreakLevel?: TieBreakLevel; // Which tie-breaker determined this skater's rank (if any)
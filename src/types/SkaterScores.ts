@@ -1,5 +1,7 @@
 export interface SkaterScores {
-  name: string;
+  id: string; // Stable identity: "#<start number>" if given, otherwise "L<input line>"
+  name: string; // Display name, not necessarily unique
+  startNumber?: number;
   aScores: (number | null)[];
   bScores: (number | null)[];
 }
@@ -0,0 +1,3 @@
+export type TotalScoreMethod =
+  | 'sum' // Sum of all judge totals (A + B)
+  | 'trimmed-mean'; // Trimmed mean A-score + trimmed mean B-score (highest and lowest dropped from 5 judges)
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+
+import type { CompetitionSegment } from '../types/CompetitionSegment';
+import { calculateCompetition } from './competition';
+
+/**
+ * Builds a segment where the skaters are ranked in the given order
+ * (every judge gives strictly decreasing scores).
+ */
+function rankedSegment(name: string, order: string[], weight: number = 1): CompetitionSegment {
+  return {
+    name,
+    weight,
+    skaters: order.map((skaterName, i) => ({
+      id: `L${i + 1}`,
+      name: skaterName,
+      aScores: [5 - i * 0.5, 5 - i * 0.5, 5 - i * 0.5],
+      bScores: [5 - i * 0.5, 5 - i * 0.5, 5 - i * 0.5],
+    })),
+  };
+}
+
+describe('calculateCompetition', () => {
+  it('should rank every segment with the majority system', () => {
+    const competition = calculateCompetition([
+      rankedSegment('Pflicht', ['Anna', 'Ben', 'Clara']),
+      rankedSegment('Kür', ['Clara', 'Anna', 'Ben']),
+    ]);
+
+    expect(competition.segments).toHaveLength(2);
+    expect(competition.segments[0].results.map(r => r.name)).toEqual(['Anna', 'Ben', 'Clara']);
+    expect(competition.segments[1].results.map(r => r.name)).toEqual(['Clara', 'Anna', 'Ben']);
+  });
+
+  it('should combine by placement sum', () => {
+    const competition = calculateCompetition([
+      rankedSegment('Pflicht', ['Anna', 'Ben', 'Clara']),
+      rankedSegment('Kür', ['Anna', 'Clara', 'Ben']),
+    ]);
+
+    const anna = competition.combined.find(r => r.name === 'Anna')!;
+    expect(anna.rank).toBe(1);
+    expect(anna.placementSum).toBe(2);
+    expect(anna.segmentPlacements).toEqual([1, 1]);
+  });
+
+  it('should break equal placement sums by the deciding segment', () => {
+    // Everyone has 4 placement points -> the Kür placement decides
+    const competition = calculateCompetition([
+      rankedSegment('Pflicht', ['Anna', 'Ben', 'Clara']),
+      rankedSegment('Kür', ['Clara', 'Ben', 'Anna']),
+    ]);
+
+    expect(competition.combined.map(r => r.name)).toEqual(['Clara', 'Ben', 'Anna']);
+    expect(competition.combined.map(r => r.placementSum)).toEqual([4, 4, 4]);
+    expect(competition.combined.map(r => r.rank)).toEqual([1, 2, 3]);
+    competition.combined.forEach(result => {
+      expect(result.tieBreakLevel).toBe('deciding-segment');
+    });
+  });
+
+  it('should weight segment placements for weighted-placement', () => {
+    // Pflicht x1, Kür x2: Anna 1 + 2*3 = 7, Ben 2 + 2*1 = 4, Clara 3 + 2*2 = 7
+    const segments = [
+      rankedSegment('Pflicht', ['Anna', 'Ben', 'Clara']),
+      rankedSegment('Kür', ['Ben', 'Clara', 'Anna'], 2),
+    ];
+
+    const plain = calculateCompetition(segments, 'placement-sum');
+    const weighted = calculateCompetition(segments, 'weighted-placement');
+
+    expect(plain.combined[0].name).toBe('Ben');
+    expect(weighted.combined.map(r => r.name)).toEqual(['Ben', 'Clara', 'Anna']);
+    expect(weighted.combined.map(r => r.placementSum)).toEqual([4, 7, 7]);
+  });
+
+  it('should rank skaters who missed a segment behind its last placement', () => {
+    const competition = calculateCompetition([
+      rankedSegment('Pflicht', ['Anna', 'Ben', 'Clara']),
+      rankedSegment('Kür', ['Anna', 'Ben']),
+    ]);
+
+    const clara = competition.combined.find(r => r.name === 'Clara')!;
+    expect(clara.segmentPlacements).toEqual([3, null]);
+    expect(clara.placementSum).toBe(6);
+    expect(clara.rank).toBe(3);
+  });
+
+  it('should use the heavier segment as deciding segment', () => {
+    // Equal sums, Anna wins the heavier Pflicht
+    const competition = calculateCompetition([
+      rankedSegment('Pflicht', ['Anna', 'Ben'], 2),
+      rankedSegment('Kür', ['Ben', 'Anna']),
+    ]);
+
+    expect(competition.combined.map(r => r.name)).toEqual(['Anna', 'Ben']);
+  });
+
+  it('should match skaters across segments by start number', () => {
+    const segment = (name: string, first: number): CompetitionSegment => ({
+      name,
+      weight: 1,
+      skaters: [
+        { id: `#${first}`, name: 'Lena', startNumber: first, aScores: [3, 3, 3], bScores: [3, 3, 3] },
+        { id: `#${3 - first}`, name: 'Lena', startNumber: 3 - first, aScores: [2, 2, 2], bScores: [2, 2, 2] },
+      ],
+    });
+    // Lena #1 wins the Pflicht, Lena #2 wins the Kür
+    const competition = calculateCompetition([segment('Pflicht', 1), segment('Kür', 2)]);
+
+    expect(competition.combined).toHaveLength(2);
+    expect(competition.combined.map(r => r.id)).toEqual(['#2', '#1']);
+    expect(competition.combined[0].segmentPlacements).toEqual([2, 1]);
+  });
+
+  it('should refuse to match skaters with the same name by their order', () => {
+    // The start order changes between segments, so the first "Lena" of the Kür need not be the first of the Pflicht
+    const competition = calculateCompetition([
+      rankedSegment('Pflicht', ['Lena', 'Lena', 'Marie']),
+      rankedSegment('Kür', ['Lena', 'Marie', 'Lena']),
+    ]);
+
+    expect(competition.combined).toEqual([]);
+    expect(competition.combinationError).toContain('"Lena" is listed 2× in Pflicht, 2× in Kür - add start numbers');
+    expect(competition.segments.map(s => s.results.length)).toEqual([3, 3]);
+  });
+
+  it('should keep every skater with the same name in a single segment', () => {
+    const competition = calculateCompetition([rankedSegment('Kür', ['Lena', 'Lena', 'Marie'])]);
+
+    expect(competition.combined.map(r => [r.name, r.rank])).toEqual([['Lena', 1], ['Lena', 2], ['Marie', 3]]);
+  });
+
+  it('should match skaters with the same name by start number', () => {
+    const lena = (startNumber: number, score: number) => ({
+      id: `#${startNumber}`, name: 'Lena', startNumber, aScores: [score, score, score], bScores: [score, score, score],
+    });
+    const competition = calculateCompetition([
+      { name: 'Pflicht', weight: 1, skaters: [lena(1, 3), lena(2, 2)] },
+      { name: 'Kür', weight: 1, skaters: [lena(2, 3)] },
+    ]);
+
+    expect(competition.combined.map(r => [r.id, r.segmentPlacements])).toEqual([['#2', [2, 1]], ['#1', [1, null]]]);
+  });
+
+  it('should refuse to combine a name with a start number in only some segments', () => {
+    const segments = [rankedSegment('Pflicht', ['Lena', 'Marie']), rankedSegment('Kür', ['Lena', 'Marie'])];
+    segments[0].skaters[0] = { ...segments[0].skaters[0], id: '#12', startNumber: 12 };
+    const competition = calculateCompetition(segments);
+
+    expect(competition.combined).toEqual([]);
+    expect(competition.combinationError).toContain('"Lena" has a start number in Pflicht but none in Kür');
+  });
+
+  it('should refuse to combine repeated start numbers', () => {
+    const segments = [rankedSegment('Pflicht', ['Lena', 'Marie']), rankedSegment('Kür', ['Lena', 'Marie'])];
+    segments[1].skaters = segments[1].skaters.map((skater, i) => ({ ...skater, name: `Skater ${i}`, startNumber: 7 }));
+    const competition = calculateCompetition(segments);
+
+    expect(competition.combinationError).toContain('Start number 7 is listed 2× in Kür');
+  });
+
+  it('should return a trivial combination for a single segment', () => {
+    const competition = calculateCompetition([rankedSegment('Kür', ['Anna', 'Ben'])]);
+
+    expect(competition.combined.map(r => [r.name, r.rank])).toEqual([['Anna', 1], ['Ben', 2]]);
+  });
+
+  it('should keep the calculation trace of every segment only if requested', () => {
+    const segments = [rankedSegment('Pflicht', ['Anna', 'Ben']), rankedSegment('Kür', ['Ben', 'Anna'])];
+
+    expect(calculateCompetition(segments).segments[0].trace).toBeUndefined();
+    const traced = calculateCompetition(segments, 'placement-sum', { trace: true });
+    expect(traced.segments.map(s => s.trace?.groups.map(g => g.skaterIds))).toEqual([[['L1'], ['L2']], [['L1'], ['L2']]]);
+  });
+
+  it('should handle an empty competition', () => {
+    expect(calculateCompetition([])).toEqual({ segments: [], combined: [] });
+  });
+});
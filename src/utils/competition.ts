@@ -0,0 +1,167 @@
+import type { CompetitionSegment } from '../types/CompetitionSegment';
+import type { CompetitionResult } from '../types/CompetitionResult';
+import type { CombinationRule } from '../types/CombinationRule';
+import type { CombinedResult } from '../types/CombinedResult';
+import type { SegmentResult } from '../types/SegmentResult';
+import { matchParticipants } from './participants';
+import { calculateRankings, calculateRankingsWithTrace } from './scoring';
+import type { RankingOptions } from './scoring';
+
+export interface CompetitionOptions extends RankingOptions {
+  /** Keep the calculation trace of every segment ranking */
+  trace?: boolean;
+}
+
+/**
+ * Index of the segment that decides ties in the combined placement:
+ * the segment with the highest weight, the later one on equal weights
+ * (e.g. the Kür after Pflicht or Kurzprogramm).
+ */
+function getDecidingSegmentIndex(segments: SegmentResult[]): number {
+  let deciding = 0;
+  for (let i = 1; i < segments.length; i++) {
+    if (segments[i].weight >= segments[deciding].weight) {
+      deciding = i;
+    }
+  }
+  return deciding;
+}
+
+/**
+ * Placement used in the sum for a skater who did not skate a segment:
+ * one behind the last placement of that segment.
+ */
+function getMissingPlacement(segment: SegmentResult): number {
+  return segment.results.length + 1;
+}
+
+/**
+ * Combines the segment placements into the final placement.
+ *
+ * Ranking is determined by the following criteria (in order):
+ * 1. Placement sum (Platzziffern): sum of segment placements, multiplied by the
+ *    segment weight for 'weighted-placement' - lower is better
+ * 2. Tie-break 1: Placement in the deciding segment (highest weight, last on equal weight)
+ * 3. Tie-break 2: Sum of the segment total scores
+ * 4. If all criteria are equal: Skaters share the placement
+ */
+function combineSegments(
+  segments: SegmentResult[],
+  participantKeys: Map<string, string>[], // Skater ID → participant key, per segment
+  rule: CombinationRule
+): CombinedResult[] {
+  // Collect skaters in order of first appearance
+  const participants = new Map<string, string>();
+  for (const [index, segment] of segments.entries()) {
+    for (const result of segment.results) {
+      const key = participantKeys[index].get(result.id)!;
+      if (!participants.has(key)) {
+        participants.set(key, result.name);
+      }
+    }
+  }
+
+  const decidingIndex = getDecidingSegmentIndex(segments);
+
+  const combined: CombinedResult[] = [...participants].map(([id, name]) => {
+    let placementSum = 0;
+    let totalScore = 0;
+    const segmentPlacements = segments.map((segment, index) => {
+      const factor = rule === 'weighted-placement' ? segment.weight : 1;
+      const result = segment.results.find(r => participantKeys[index].get(r.id) === id);
+      placementSum += factor * (result ? result.rank : getMissingPlacement(segment));
+      totalScore += result ? result.totalScore : 0;
+      return result ? result.rank : null;
+    });
+
+    return {
+      id,
+      name,
+      rank: 0,
+      placementSum: Math.round(placementSum * 100) / 100,
+      segmentPlacements,
+      totalScore: Math.round(totalScore * 10) / 10,
+    };
+  });
+
+  const decidingPlacement = (result: CombinedResult) =>
+    result.segmentPlacements[decidingIndex] ?? getMissingPlacement(segments[decidingIndex]);
+
+  combined.sort((a, b) => {
+    if (a.placementSum !== b.placementSum) return a.placementSum - b.placementSum;
+    if (decidingPlacement(a) !== decidingPlacement(b)) return decidingPlacement(a) - decidingPlacement(b);
+    return b.totalScore - a.totalScore;
+  });
+
+  // Assign ranks, skaters equal on every criterion share the placement
+  for (let i = 0; i < combined.length; i++) {
+    const current = combined[i];
+    const previous = combined[i - 1];
+    const next = combined[i + 1];
+
+    if (
+      previous &&
+      previous.placementSum === current.placementSum &&
+      decidingPlacement(previous) === decidingPlacement(current) &&
+      previous.totalScore === current.totalScore
+    ) {
+      current.rank = previous.rank;
+    } else {
+      current.rank = i + 1;
+    }
+
+    // Record the tie-breaker that separated this skater from a neighbour with the same sum
+    const neighbours = [previous, next].filter(
+      (other): other is CombinedResult => other !== undefined && other.placementSum === current.placementSum
+    );
+    if (neighbours.some(other => decidingPlacement(other) !== decidingPlacement(current))) {
+      current.tieBreakLevel = 'deciding-segment';
+    } else if (neighbours.some(other => other.totalScore !== current.totalScore)) {
+      current.tieBreakLevel = 'total-score';
+    }
+  }
+
+  return combined;
+}
+
+/**
+ * Calculates a competition with one or more segments (e.g. Pflicht + Kür).
+ * Every segment is ranked on its own with the majority system (calculateRankings),
+ * then the segment placements are combined into the final placement.
+ * The ranking options (e.g. the missing-score policy) apply to every segment.
+ * Segments whose skaters cannot be matched (see matchParticipants) are not combined.
+ */
+export function calculateCompetition(
+  segments: CompetitionSegment[],
+  rule: CombinationRule = 'placement-sum',
+  options: CompetitionOptions = {}
+): CompetitionResult {
+  const segmentResults: SegmentResult[] = segments.map(segment => {
+    if (options.trace) {
+      const { results, trace } = calculateRankingsWithTrace(segment.skaters, options);
+      return { name: segment.name, weight: segment.weight, results, trace };
+    }
+    return {
+      name: segment.name,
+      weight: segment.weight,
+      results: calculateRankings(segment.skaters, options),
+    };
+  });
+
+  const { keys, conflicts } = matchParticipants(segments);
+  if (conflicts.length > 0) {
+    return {
+      segments: segmentResults,
+      combined: [],
+      combinationError: `The segments cannot be combined: ${conflicts.map(conflict => conflict.message).join('; ')}`,
+    };
+  }
+
+  const participantKeys = segments.map((segment, index) =>
+    new Map(segment.skaters.map((skater, k) => [skater.id, keys[index][k]]))
+  );
+  return {
+    segments: segmentResults,
+    combined: segmentResults.length > 0 ? combineSegments(segmentResults, participantKeys, rule) : [],
+  };
+}
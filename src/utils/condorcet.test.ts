@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+
+import { analyzeCondorcet, findMajorityCycle } from './condorcet';
+import { calculateRankings } from './scoring';
+import * as scenarios from './test-generators';
+
+// Anna, Ben and Clara beat each other in a circle, all three beat Dora
+const cycle = [
+  { id: 'L1', name: 'Anna', aScores: [5.0, 3.0, 4.0], bScores: [5.0, 3.0, 4.0] },
+  { id: 'L2', name: 'Ben', aScores: [4.0, 5.0, 3.0], bScores: [4.0, 5.0, 3.0] },
+  { id: 'L3', name: 'Clara', aScores: [3.0, 4.0, 5.0], bScores: [3.0, 4.0, 5.0] },
+  { id: 'L4', name: 'Dora', aScores: [2.0, 2.0, 2.0], bScores: [2.0, 2.0, 2.0] },
+];
+
+describe('analyzeCondorcet', () => {
+  it('should find the Condorcet winner and loser of a field without cycles', () => {
+    const results = calculateRankings(scenarios.createLinearRanking(4, 3));
+    const analysis = analyzeCondorcet(results);
+
+    expect(analysis.condorcetWinner).toBe(results[0].id);
+    expect(analysis.condorcetLoser).toBe(results[3].id);
+    expect(analysis.smithSet).toEqual([results[0].id]);
+    expect(analysis.components).toEqual(results.map(result => [result.id]));
+    expect(analysis.cyclicGroups).toEqual([]);
+  });
+
+  it('should flag a majority cycle as one group', () => {
+    const analysis = analyzeCondorcet(calculateRankings(cycle));
+
+    expect(analysis.cyclicGroups).toHaveLength(1);
+    expect([...analysis.cyclicGroups[0]].sort()).toEqual(['L1', 'L2', 'L3']);
+    expect(analysis.components.at(-1)).toEqual(['L4']);
+  });
+
+  it('should put the whole cycle into the Smith set', () => {
+    const analysis = analyzeCondorcet(calculateRankings(cycle));
+
+    expect([...analysis.smithSet].sort()).toEqual(['L1', 'L2', 'L3']);
+    expect(analysis.condorcetWinner).toBeNull();
+    expect(analysis.condorcetLoser).toBe('L4');
+  });
+
+  it('should keep skaters who drew out of cycles, but in the Smith set', () => {
+    const analysis = analyzeCondorcet(calculateRankings(scenarios.createPairwisePerfectTie()));
+
+    expect(analysis.cyclicGroups).toEqual([]);
+    expect(analysis.smithSet).toHaveLength(2);
+    expect(analysis.condorcetWinner).toBeNull();
+    expect(analysis.condorcetLoser).toBeNull();
+  });
+});
+
+describe('findMajorityCycle', () => {
+  it('should find the cycle through a skater', () => {
+    const results = calculateRankings(cycle);
+
+    for (const id of ['L1', 'L2', 'L3']) {
+      const found = findMajorityCycle(results, id)!;
+
+      expect(found).toHaveLength(3);
+      expect(found[0]).toBe(id);
+      found.forEach((skaterId, index) => {
+        const next = found[(index + 1) % found.length];
+        const h2h = results.find(result => result.id === skaterId)!.headToHeadResults!.find(h => h.opponentId === next)!;
+        expect(h2h.outcome).toBe('win');
+      });
+    }
+  });
+
+  it('should return null for a skater outside every cycle', () => {
+    expect(findMajorityCycle(calculateRankings(cycle), 'L4')).toBeNull();
+  });
+
+  it('should throw for an unknown skater', () => {
+    expect(() => findMajorityCycle(calculateRankings(cycle), 'X')).toThrow('Unknown skater');
+  });
+});
@@ -0,0 +1,103 @@
+import type { CondorcetAnalysis } from '../types/CondorcetAnalysis';
+import type { HeadToHeadOutcome } from '../types/HeadToHeadOutcome';
+import type { SkaterResult } from '../types/SkaterResult';
+
+/**
+ * outcomes[i][j]: head-to-head outcome of skater i against skater j, null on the diagonal
+ */
+function getOutcomes(ranked: SkaterResult[]): Array<Array<HeadToHeadOutcome | null>> {
+  return ranked.map(skater => {
+    const byOpponent = new Map(skater.headToHeadResults?.map(h2h => [h2h.opponentId, h2h.outcome]));
+    return ranked.map(opponent => (opponent.id === skater.id ? null : byOpponent.get(opponent.id) ?? 'draw'));
+  });
+}
+
+/**
+ * reach[i][j]: whether j can be reached from i along the edges (transitive closure)
+ */
+function calculateReachability(edges: boolean[][]): boolean[][] {
+  const reach = edges.map(row => [...row]);
+  for (let k = 0; k < reach.length; k++) {
+    for (let i = 0; i < reach.length; i++) {
+      if (!reach[i][k]) continue;
+      for (let j = 0; j < reach.length; j++) {
+        if (reach[k][j]) reach[i][j] = true;
+      }
+    }
+  }
+  return reach;
+}
+
+/**
+ * Cycles and Condorcet structure of the majority graph, read from the head-to-head results.
+ *
+ * Skaters in a cyclic group beat each other in a circle (A beats B, B beats C, C beats A),
+ * so M.V. and the tie-breaks decide a result the majorities alone leave open. The Smith set
+ * is the top of the field: with a Condorcet winner it is that skater alone, otherwise it
+ * contains a cycle or skaters drawn with each other.
+ */
+export function analyzeCondorcet(results: SkaterResult[]): CondorcetAnalysis {
+  const ranked = [...results].sort((a, b) => a.rank - b.rank);
+  const ids = ranked.map(result => result.id);
+  const outcomes = getOutcomes(ranked);
+
+  const wins = calculateReachability(outcomes.map(row => row.map(outcome => outcome === 'win')));
+  const components: string[][] = [];
+  const assigned = new Set<number>();
+  ids.forEach((_, i) => {
+    if (assigned.has(i)) return;
+    const component = ids.map((_, j) => j).filter(j => j === i || (wins[i][j] && wins[j][i]));
+    component.forEach(j => assigned.add(j));
+    components.push(component.map(j => ids[j]));
+  });
+
+  // Without losing to them, a skater reaches every skater they beat or drew with
+  const unbeaten = calculateReachability(outcomes.map(row => row.map(outcome => outcome === 'win' || outcome === 'draw')));
+  const smithSet = ids.filter((_, i) => ids.every((_, j) => j === i || unbeaten[i][j]));
+
+  const beatsAll = (i: number, outcome: HeadToHeadOutcome) =>
+    ids.length > 1 && outcomes[i].every(other => other === null || other === outcome);
+  const winner = ids.findIndex((_, i) => beatsAll(i, 'win'));
+  const loser = ids.findIndex((_, i) => beatsAll(i, 'loss'));
+
+  return {
+    components,
+    cyclicGroups: components.filter(component => component.length > 1),
+    smithSet,
+    condorcetWinner: winner === -1 ? null : ids[winner],
+    condorcetLoser: loser === -1 ? null : ids[loser],
+  };
+}
+
+/**
+ * Shortest majority cycle through the skater, starting with them: each skater beats the next
+ * and the last beats the first. Null if the skater is not part of a cycle.
+ */
+export function findMajorityCycle(results: SkaterResult[], skaterId: string): string[] | null {
+  const beaten = new Map(results.map(result => [
+    result.id,
+    result.headToHeadResults?.filter(h2h => h2h.outcome === 'win').map(h2h => h2h.opponentId) ?? [],
+  ]));
+  if (!beaten.has(skaterId)) {
+    throw new Error(`Unknown skater: ${skaterId}`);
+  }
+
+  // Breadth-first search back to the skater
+  const previous = new Map<string, string>();
+  const queue = [skaterId];
+  for (let index = 0; index < queue.length; index++) {
+    const current = queue[index];
+    for (const next of beaten.get(current) ?? []) {
+      if (next === skaterId) {
+        const cycle = [current];
+        while (cycle[0] !== skaterId) cycle.unshift(previous.get(cycle[0])!);
+        return cycle;
+      }
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+
+import { buildCrossTable } from './crossTable';
+import { calculateRankings } from './scoring';
+import * as scenarios from './test-generators';
+
+// Anna beats both, Ben and Clara split the two judges (draw) - Clara ranks ahead by the B-score sum
+const skaters = [
+  { id: 'L1', name: 'Ben', aScores: [7.0, 3.0], bScores: [3.0, 3.0] },
+  { id: 'L2', name: 'Anna', aScores: [9.0, 9.0], bScores: [9.0, 9.0] },
+  { id: 'L3', name: 'Clara', aScores: [4.0, 3.5], bScores: [4.0, 4.0] },
+];
+
+describe('buildCrossTable', () => {
+  it('should order rows and columns by rank', () => {
+    const table = buildCrossTable(calculateRankings(skaters));
+
+    expect(table.rows.map(row => [row.rank, row.name])).toEqual([[1, 'Anna'], [2, 'Clara'], [3, 'Ben']]);
+    expect(table.rows.map(row => row.cells.map(cell => cell?.outcome ?? null))).toEqual([
+      [null, 'win', 'win'],
+      ['loss', null, 'draw'],
+      ['loss', 'draw', null],
+    ]);
+  });
+
+  it('should show the judge vote split of the row skater', () => {
+    const [anna, clara] = buildCrossTable(calculateRankings(skaters)).rows;
+
+    expect(anna.cells[1]).toEqual({ skaterVotes: 2, opponentVotes: 0, outcome: 'win', points: 1 });
+    expect(clara.cells[2]).toEqual({ skaterVotes: 1, opponentVotes: 1, outcome: 'draw', points: 0.5 });
+  });
+
+  it('should sum every row to the M.V.', () => {
+    for (const tournament of [
+      scenarios.createCircularPreferences(),
+      scenarios.createSplitDecision(),
+      scenarios.createPerfectTie(),
+      scenarios.createLinearRanking(6, 5),
+    ]) {
+      const results = calculateRankings(tournament);
+      for (const row of buildCrossTable(results).rows) {
+        expect(row.majorityVictories).toBe(results.find(r => r.id === row.id)!.majorityVictories);
+      }
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import type { CrossTable, CrossTableCell } from '../types/CrossTable';
+import type { HeadToHeadResult } from '../types/HeadToHeadResult';
+import type { SkaterResult } from '../types/SkaterResult';
+
+const OUTCOME_POINTS = { win: 1, draw: 0.5, loss: 0 };
+
+/**
+ * Cell of a head-to-head result
+ */
+function toCell({ skaterVotes, opponentVotes, outcome }: HeadToHeadResult): CrossTableCell {
+  return { skaterVotes, opponentVotes, outcome, points: OUTCOME_POINTS[outcome] };
+}
+
+/**
+ * Builds the pairwise comparison matrix (Kreuztabelle) from ranked results.
+ * Rows and columns follow the rank order; the row sum of the points is the skater's M.V.
+ */
+export function buildCrossTable(results: SkaterResult[]): CrossTable {
+  const ranked = [...results].sort((a, b) => a.rank - b.rank);
+
+  return {
+    rows: ranked.map(result => {
+      const cells = ranked.map(opponent => {
+        const headToHead = result.headToHeadResults?.find(h => h.opponentId === opponent.id);
+        return opponent.id === result.id || !headToHead ? null : toCell(headToHead);
+      });
+
+      return {
+        id: result.id,
+        name: result.name,
+        ...(result.startNumber !== undefined && { startNumber: result.startNumber }),
+        rank: result.rank,
+        cells,
+        majorityVictories: cells.reduce((sum, cell) => sum + (cell?.points ?? 0), 0),
+      };
+    }),
+  };
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+
+import type { SkaterResult } from '../types/SkaterResult';
+import type { CrossTable } from '../types/CrossTable';
+import { detectDelimiter, formatCrossTableCsv, formatResultsCsv, importScoreSheet, parseDelimited } from './csv';
+
+describe('parseDelimited', () => {
+  it('should detect tabs, semicolons and commas', () => {
+    expect(detectDelimiter('Name\tA1\tB1')).toBe('\t');
+    expect(detectDelimiter('Name;A1;B1\nLena;1,5;2,0')).toBe(';');
+    expect(detectDelimiter('Name,A1,B1')).toBe(',');
+  });
+
+  it('should split rows and fields', () => {
+    expect(parseDelimited('a,b\r\nc,d\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseDelimited('"Berg, Anna","say ""hi""","two\nlines"')).toEqual([
+      ['Berg, Anna', 'say "hi"', 'two\nlines'],
+    ]);
+  });
+});
+
+describe('importScoreSheet', () => {
+  it('should import columns by header', () => {
+    const sheet = importScoreSheet(`Nr;Name;A1;A2;A3;B1;B2;B3
+7;Lena;1,4;1,5;1,6;2,0;2,1;2,2
+3;Marie;1,8;1,7;1,6;2,3;2,2;2,1`);
+
+    expect(sheet.hasHeader).toBe(true);
+    expect(sheet.judgeCount).toBe(3);
+    expect(sheet.skaters).toEqual([
+      { id: '#7', name: 'Lena', startNumber: 7, aScores: [1.4, 1.5, 1.6], bScores: [2.0, 2.1, 2.2] },
+      { id: '#3', name: 'Marie', startNumber: 3, aScores: [1.8, 1.7, 1.6], bScores: [2.3, 2.2, 2.1] },
+    ]);
+  });
+
+  it('should recognize interleaved judge columns', () => {
+    const sheet = importScoreSheet(`Skater\tJ1 A\tJ1 B\tJ2 A\tJ2 B
+Lena\t1.4\t2.0\t1.5\t2.1`);
+
+    expect(sheet.skaters[0]).toMatchObject({ aScores: [1.4, 1.5], bScores: [2.0, 2.1] });
+  });
+
+  it('should recognize descriptive headers', () => {
+    const sheet = importScoreSheet(`Läufer,Technik 1,Technik 2,Ausdruck 1,Ausdruck 2
+Lena,1.4,1.5,2.0,2.1`);
+
+    expect(sheet.skaters[0]).toMatchObject({ name: 'Lena', aScores: [1.4, 1.5], bScores: [2.0, 2.1] });
+  });
+
+  it('should split unlabelled score columns in half', () => {
+    const sheet = importScoreSheet(`Name,,,,
+Lena,1.4,1.5,2.0,2.1`);
+
+    expect(sheet.skaters[0]).toMatchObject({ aScores: [1.4, 1.5], bScores: [2.0, 2.1] });
+  });
+
+  it('should import rows without header', () => {
+    const sheet = importScoreSheet(`12\tLena\t1,4\t1,5\t2,0\t2,1\t\t
+Marie\t1,8\t1,7\t2,3\t2,2`);
+
+    expect(sheet.hasHeader).toBe(false);
+    expect(sheet.skaters).toEqual([
+      { id: '#12', name: 'Lena', startNumber: 12, aScores: [1.4, 1.5], bScores: [2.0, 2.1] },
+      { id: 'L2', name: 'Marie', aScores: [1.8, 1.7], bScores: [2.3, 2.2] },
+    ]);
+  });
+
+  it('should treat empty cells as missing scores', () => {
+    const sheet = importScoreSheet(`Name,A1,A2,B1,B2
+Lena,1.4,,2.0,-`);
+
+    expect(sheet.skaters[0]).toMatchObject({ aScores: [1.4, null], bScores: [2.0, null] });
+  });
+
+  it('should skip rows without scores and generate missing names', () => {
+    const sheet = importScoreSheet(`Name,A1,B1
+Lena,,
+
+,1.5,2.0`);
+
+    expect(sheet.skaters).toEqual([{ id: 'L4', name: 'Skater 1', aScores: [1.5], bScores: [2.0] }]);
+  });
+
+  it('should reject binary files', () => {
+    expect(() => importScoreSheet('PK\u0003\u0004\0\0[Content_Types].xml')).toThrow('not a CSV or TSV file');
+  });
+});
+
+describe('formatResultsCsv', () => {
+  const results: SkaterResult[] = [
+    {
+      id: '#7',
+      name: 'Berg, Anna',
+      startNumber: 7,
+      aScores: [1.4, 1.5],
+      bScores: [2.0, 2.1],
+      totalScore: 7,
+      trimmedMeanScore: 3.5,
+      rank: 1,
+      majorityVictories: 1.5,
+      tieBreakLevel: 'b-score-sum',
+      tieBreakInfo: [
+        { level: 'direct-comparison', value: 1 },
+        { level: 'b-score-sum', value: 4.1 },
+      ],
+    },
+    {
+      id: 'L2',
+      name: 'Ben',
+      aScores: [1.4, null],
+      bScores: [1.9, 2.0],
+      totalScore: 5.3,
+      trimmedMeanScore: 2.65,
+      rank: 2,
+      majorityVictories: 1,
+    },
+  ];
+
+  it('should export rank, M.V., tie-break values, totals and judge scores', () => {
+    expect(formatResultsCsv(results, 2).split('\r\n')).toEqual([
+      'Rank,Start No.,Name,M.V.,Tie-break,Tied votes,B-Score sum,Votes (all),Total (tie-break),Total,Trimmed mean,A1,A2,B1,B2',
+      '1,7,"Berg, Anna",1.5,b-score-sum,1,4.1,,,7,3.5,1.4,1.5,2,2.1',
+      '2,,Ben,1,,,,,,5.3,2.65,1.4,,1.9,2',
+    ]);
+  });
+
+  it('should use the decimal comma with semicolons', () => {
+    const lines = formatResultsCsv(results, 2, { delimiter: ';' }).split('\r\n');
+
+    expect(lines[1]).toBe('1;7;Berg, Anna;1,5;b-score-sum;1;4,1;;;7;3,5;1,4;1,5;2;2,1');
+  });
+
+  it('should keep spreadsheets from running names as formulas', () => {
+    const formulas = [
+      { ...results[0], name: '=HYPERLINK("http://example.com")' },
+      { ...results[1], name: '@SUM(A1)', tieBreakInfo: [{ level: 'total-score' as const, value: -1.5 }] },
+    ];
+    const lines = formatResultsCsv(formulas, 2).split('\r\n');
+
+    expect(lines[1]).toContain(',"\'=HYPERLINK(""http://example.com"")",');
+    expect(lines[2]).toBe("2,,'@SUM(A1),1,,,,,-1.5,5.3,2.65,1.4,,1.9,2");
+    expect(importScoreSheet(lines.join('\r\n')).skaters.map(s => s.name)).toEqual(formulas.map(r => r.name));
+  });
+
+  it('should be imported again as a score sheet', () => {
+    const sheet = importScoreSheet(formatResultsCsv(results, 2));
+
+    expect(sheet.skaters.map(s => [s.name, s.aScores, s.bScores])).toEqual([
+      ['Berg, Anna', [1.4, 1.5], [2.0, 2.1]],
+      ['Ben', [1.4, null], [1.9, 2.0]],
+    ]);
+  });
+});
+
+describe('formatCrossTableCsv', () => {
+  const table: CrossTable = {
+    rows: [
+      {
+        id: '#3',
+        name: 'Marie',
+        startNumber: 3,
+        rank: 1,
+        cells: [null, { skaterVotes: 2, opponentVotes: 1, outcome: 'win', points: 1 }],
+        majorityVictories: 1,
+      },
+      {
+        id: '#7',
+        name: 'Lena',
+        startNumber: 7,
+        rank: 2,
+        cells: [{ skaterVotes: 1, opponentVotes: 2, outcome: 'loss', points: 0 }, null],
+        majorityVictories: 0,
+      },
+    ],
+  };
+
+  it('should export one row and column per skater with outcome and votes', () => {
+    expect(formatCrossTableCsv(table).split('\r\n')).toEqual([
+      'Rank,Start No.,Name,Marie,Lena,M.V.',
+      '1,3,Marie,,W 2:1,1',
+      '2,7,Lena,L 1:2,,0',
+    ]);
+  });
+
+  it('should use the decimal comma with semicolons', () => {
+    const draw: CrossTable = {
+      rows: table.rows.map(row => ({
+        ...row,
+        rank: 1,
+        cells: row.cells.map(cell => cell && { skaterVotes: 1, opponentVotes: 1, outcome: 'draw', points: 0.5 }),
+        majorityVictories: 0.5,
+      })),
+    };
+
+    expect(formatCrossTableCsv(draw, { delimiter: ';' }).split('\r\n')[1]).toBe('1;3;Marie;;D 1:1;0,5');
+  });
+});
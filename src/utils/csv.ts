@@ -0,0 +1,325 @@
+import type { CrossTable, CrossTableCell } from '../types/CrossTable';
+import type { SkaterResult } from '../types/SkaterResult';
+import type { SkaterScores } from '../types/SkaterScores';
+import type { TieBreakLevel } from '../types/TieBreakLevel';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface ScoreSheet {
+  skaters: SkaterScores[];
+  judgeCount: number;
+  hasHeader: boolean;
+}
+
+export interface CsvExportOptions {
+  /** Field delimiter. With ";" numbers use the German decimal comma (Excel in German locale). */
+  delimiter?: CsvDelimiter;
+}
+
+type ColumnKind = 'start-number' | 'name' | 'a' | 'b';
+
+const START_NUMBER_HEADER = /^(#|nr|no|num|number|start|startnr|startno|startnumber|startnummer|stnr)$/;
+const NAME_HEADER = /^((vor|nach)?name|skater|läufer(in)?|laeufer(in)?|teilnehmer(in)?|athlet(e|in)?|sportler(in)?)/;
+const JUDGE = '(j|judge|kr|wr|richter|kampfrichter)?';
+const A_HEADER = new RegExp(`^((a|anote|ascore|technical|technik|tech)${JUDGE}\\d*|${JUDGE}\\d+a)$`);
+const B_HEADER = new RegExp(`^((b|bnote|bscore|artistic|ausdruck|presentation)${JUDGE}\\d*|${JUDGE}\\d+b)$`);
+
+const FORMULA_START = /^[=+\-@]/; // Spreadsheets run cells starting with these as formulas
+const NUMBER = /^-?\d+([.,]\d+)?$/; // Negative numbers start with "-" too, but are harmless
+
+/**
+ * Detects the field delimiter from the first non-empty line.
+ * Tabs win (spreadsheet clipboard), then ";" (German CSV, where "," is the decimal separator), then ",".
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) ?? '';
+  if (firstLine.includes('\t')) return '\t';
+  if (firstLine.includes(';')) return ';';
+  return ',';
+}
+
+/**
+ * Splits CSV/TSV text into rows of fields (RFC 4180 quoting: "a ""quoted"" field").
+ * Quoted fields may contain delimiters and line breaks.
+ */
+export function parseDelimited(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Removes the "'" that escapeField puts in front of text that looks like a formula
+ */
+function unescapeFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+/**
+ * Parses a score cell, supporting both comma and period as decimal separator.
+ * Empty cells and placeholders like "-" are missing scores (null).
+ */
+function parseScoreCell(cell: string): number | null {
+  const normalized = cell.trim().replace(',', '.');
+  return /^(\d+(\.\d*)?|\.\d+)$/.test(normalized) ? parseFloat(normalized) : null;
+}
+
+/**
+ * Recognizes the column headers for start number, name, A-scores and B-scores
+ * (e.g. "Nr", "Name", "A1", "J2 A", "Technik 3", "B-Note KR1", "Artistic 2")
+ */
+function classifyHeader(cell: string): ColumnKind | null {
+  const normalized = cell.trim().toLowerCase().replace(/[\s._\-()]/g, '');
+  if (START_NUMBER_HEADER.test(normalized)) return 'start-number';
+  if (NAME_HEADER.test(normalized)) return 'name';
+  if (A_HEADER.test(normalized)) return 'a';
+  if (B_HEADER.test(normalized)) return 'b';
+  return null;
+}
+
+/**
+ * A header row contains no scores and names at least the name or score columns
+ */
+function detectHeader(row: string[]): Array<ColumnKind | null> | null {
+  if (row.some(cell => parseScoreCell(cell) !== null)) return null;
+
+  const columns = row.map(classifyHeader);
+  return columns.some(kind => kind === 'name' || kind === 'a' || kind === 'b') ? columns : null;
+}
+
+/**
+ * Columns of a row without header: an optional start number and name in front,
+ * the remaining cells are scores, the first half A-scores and the second half B-scores.
+ */
+function classifyRowWithoutHeader(row: string[]): Array<ColumnKind | null> {
+  const columns: Array<ColumnKind | null> = [];
+  let index = 0;
+
+  if (/^\d+$/.test(row[0]?.trim() ?? '') && row.length > 1 && parseScoreCell(row[1]) === null) {
+    columns.push('start-number');
+    index++;
+  }
+  if (row[index] !== undefined && parseScoreCell(row[index]) === null && row[index].trim() !== '') {
+    columns.push('name');
+    index++;
+  }
+
+  // Spreadsheets often export trailing empty cells
+  let scoreEnd = row.length;
+  while (scoreEnd > index && row[scoreEnd - 1].trim() === '') scoreEnd--;
+
+  const half = Math.ceil((scoreEnd - index) / 2);
+  for (let i = index; i < row.length; i++) {
+    columns.push(i >= scoreEnd ? null : i - index < half ? 'a' : 'b');
+  }
+  return columns;
+}
+
+/**
+ * Imports a score sheet from CSV/TSV text, e.g. a file exported from a spreadsheet
+ * or cells copied to the clipboard.
+ *
+ * A header row identifies the columns (start number, name, A- and B-scores per judge).
+ * If the header only names some columns, the other columns are treated as scores
+ * split in half. Without a header, the name comes first, followed by all A-scores
+ * and then all B-scores. Rows without any score are skipped.
+ *
+ * Throws for binary files (e.g. an Excel workbook instead of its CSV export).
+ */
+export function importScoreSheet(text: string): ScoreSheet {
+  // Text never contains NUL characters, workbooks and other binary files always do
+  if (text.includes('\0')) {
+    throw new Error('This is not a CSV or TSV file - save the spreadsheet as CSV first');
+  }
+
+  // Keep the row number (1-based) for line-based IDs like the parser
+  const rows = parseDelimited(text)
+    .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) {
+    return { skaters: [], judgeCount: 0, hasHeader: false };
+  }
+
+  let header = detectHeader(rows[0].cells);
+  const hasHeader = header !== null;
+  if (header && !header.some(kind => kind === 'a' || kind === 'b')) {
+    // Only the name is labelled - the remaining columns are scores split in half
+    const scoreColumns = header.flatMap((kind, index) => (kind === null ? [index] : []));
+    const half = Math.ceil(scoreColumns.length / 2);
+    header = header.map((kind, index) => {
+      const position = scoreColumns.indexOf(index);
+      return position === -1 ? kind : position < half ? 'a' : 'b';
+    });
+  }
+
+  const skaters: SkaterScores[] = [];
+  for (const { cells: row, rowNumber } of hasHeader ? rows.slice(1) : rows) {
+    const columns = header ?? classifyRowWithoutHeader(row);
+    const cellsOf = (kind: ColumnKind) => row.filter((_, index) => columns[index] === kind);
+
+    const aScores = cellsOf('a').map(parseScoreCell);
+    const bScores = cellsOf('b').map(parseScoreCell);
+    if (![...aScores, ...bScores].some(score => score !== null)) continue;
+
+    const startNumberCell = cellsOf('start-number')[0]?.trim() ?? '';
+    const startNumber = /^\d+$/.test(startNumberCell) ? parseInt(startNumberCell, 10) : undefined;
+    const name = cellsOf('name').map(unescapeFormula).join(' ').trim() || `Skater ${skaters.length + 1}`;
+
+    skaters.push({
+      id: startNumber !== undefined ? `#${startNumber}` : `L${rowNumber}`,
+      name,
+      ...(startNumber !== undefined && { startNumber }),
+      aScores,
+      bScores,
+    });
+  }
+
+  const judgeCount = Math.max(0, ...skaters.flatMap(s => [s.aScores.length, s.bScores.length]));
+  return { skaters, judgeCount, hasHeader };
+}
+
+/**
+ * Quotes a field if it contains the delimiter, quotes or line breaks.
+ * Text starting with "=", "+", "-" or "@" is prefixed with "'" so spreadsheets
+ * show it instead of running it as a formula (e.g. a name "=HYPERLINK(…)").
+ */
+function escapeField(field: string, delimiter: CsvDelimiter): string {
+  const text = FORMULA_START.test(field) && !NUMBER.test(field) ? `'${field}` : field;
+  if (text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Formats a number with up to two decimals; with ";" as delimiter, the decimal comma is used
+ */
+function formatCsvNumber(value: number | null | undefined, delimiter: CsvDelimiter): string {
+  if (value === null || value === undefined) return '';
+  const text = String(Math.round(value * 100) / 100);
+  return delimiter === ';' ? text.replace('.', ',') : text;
+}
+
+/**
+ * Joins rows of fields to CSV text with CRLF line breaks
+ */
+function joinRows(rows: string[][], delimiter: CsvDelimiter): string {
+  return rows
+    .map(row => row.map(field => escapeField(field, delimiter)).join(delimiter))
+    .join('\r\n');
+}
+
+const TIE_BREAK_COLUMNS: Array<{ level: TieBreakLevel; label: string }> = [
+  { level: 'direct-comparison', label: 'Tied votes' },
+  { level: 'b-score-sum', label: 'B-Score sum' },
+  { level: 'comparison-all', label: 'Votes (all)' },
+  { level: 'total-score', label: 'Total (tie-break)' },
+];
+
+/**
+ * Exports ranked results as CSV: rank, start number, name, majority victories (M.V.),
+ * the deciding tie-break level, the value of every tie-break level that was applied,
+ * the total score (sum and trimmed mean) and the A- and B-score of each judge.
+ */
+export function formatResultsCsv(
+  results: SkaterResult[],
+  judgeCount: number,
+  options: CsvExportOptions = {}
+): string {
+  const { delimiter = ',' } = options;
+  const formatNumber = (value: number | null | undefined) => formatCsvNumber(value, delimiter);
+
+  const judges = Array.from({ length: judgeCount }, (_, i) => i + 1);
+  const header = [
+    'Rank',
+    'Start No.',
+    'Name',
+    'M.V.',
+    'Tie-break',
+    ...TIE_BREAK_COLUMNS.map(column => column.label),
+    'Total',
+    'Trimmed mean',
+    ...judges.map(judge => `A${judge}`),
+    ...judges.map(judge => `B${judge}`),
+  ];
+
+  const rows = results.map(result => [
+    String(result.rank),
+    result.startNumber !== undefined ? String(result.startNumber) : '',
+    result.name,
+    formatNumber(result.majorityVictories),
+    result.tieBreakLevel && result.tieBreakLevel !== 'none' ? result.tieBreakLevel : '',
+    ...TIE_BREAK_COLUMNS.map(column =>
+      formatNumber(result.tieBreakInfo?.find(info => info.level === column.level)?.value)
+    ),
+    formatNumber(result.totalScore),
+    formatNumber(result.trimmedMeanScore),
+    ...judges.map(judge => formatNumber(result.aScores[judge - 1])),
+    ...judges.map(judge => formatNumber(result.bScores[judge - 1])),
+  ]);
+
+  return joinRows([header, ...rows], delimiter);
+}
+
+const OUTCOME_LETTERS: Record<CrossTableCell['outcome'], string> = { win: 'W', loss: 'L', draw: 'D' };
+
+/**
+ * Exports the pairwise comparison matrix (Kreuztabelle) as CSV: one row and one column per
+ * skater in rank order. A cell holds the outcome and the judge votes of the row skater,
+ * e.g. "W 2:1" (the letter keeps spreadsheets from reading the votes as a time), and
+ * the last column the M.V.
+ */
+export function formatCrossTableCsv(table: CrossTable, options: CsvExportOptions = {}): string {
+  const { delimiter = ',' } = options;
+  const formatVotes = (votes: number) => formatCsvNumber(votes, delimiter);
+
+  const header = ['Rank', 'Start No.', 'Name', ...table.rows.map(row => row.name), 'M.V.'];
+  const rows = table.rows.map(row => [
+    String(row.rank),
+    row.startNumber !== undefined ? String(row.startNumber) : '',
+    row.name,
+    ...row.cells.map(cell =>
+      cell ? `${OUTCOME_LETTERS[cell.outcome]} ${formatVotes(cell.skaterVotes)}:${formatVotes(cell.opponentVotes)}` : ''
+    ),
+    formatCsvNumber(row.majorityVictories, delimiter),
+  ]);
+
+  return joinRows([header, ...rows], delimiter);
+}
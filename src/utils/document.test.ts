@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+
+import type { CompetitionDocument } from '../types/CompetitionDocument';
+import {
+  COMPETITION_DOCUMENT_VERSION,
+  calculateDocument,
+  createCompetitionDocument,
+  documentToInput,
+  migrateCompetitionDocument,
+  parseCompetitionDocument,
+  serializeCompetitionDocument,
+  validateCompetitionDocument,
+} from './document';
+import { parseSegments } from './parser';
+import { getRuleset } from './rulesets';
+
+const INPUT = `[Pflicht]
+1 Anna: 3.0 3.1 3.2 / 3.0 3.1 3.2
+2 Ben: 2.0 2.1 / 2.0 2.1 2.2
+
+[Kür x2]
+1 Anna: 2.0 2.1 2.2 / 2.0 2.1 2.2
+2 Ben: 3.0 3.1 3.2 / 3.0 3.1 3.2`;
+
+function createDocument(): CompetitionDocument {
+  const { segments, judgeCount } = parseSegments(INPUT);
+  return createCompetitionDocument(segments, {
+    judgeCount,
+    combinationRule: 'weighted-placement',
+    metadata: { title: 'Landesmeisterschaft', category: 'Freiläufer Damen', venue: ' ' },
+    judgeNames: ['Maier', '', 'Schulz'],
+  });
+}
+
+describe('createCompetitionDocument', () => {
+  it('should contain version, metadata, judges, ruleset and skaters without IDs', () => {
+    const document = createDocument();
+
+    expect(document.format).toBe('rollkunstlauf-competition');
+    expect(document.version).toBe(COMPETITION_DOCUMENT_VERSION);
+    expect(document.metadata).toEqual({ title: 'Landesmeisterschaft', category: 'Freiläufer Damen' });
+    expect(document.judges).toEqual([{ id: 'J1', name: 'Maier' }, { id: 'J2' }, { id: 'J3', name: 'Schulz' }]);
+    expect(document.ruleset).toEqual({
+      id: 'driv-2025',
+      version: 1,
+      combinationRule: 'weighted-placement',
+      missingScorePolicy: 'zero',
+    });
+    expect(document.segments.map(s => [s.name, s.weight])).toEqual([['Pflicht', 1], ['Kür', 2]]);
+    expect(document.segments[0].skaters[0]).toEqual({
+      name: 'Anna',
+      startNumber: 1,
+      aScores: [3.0, 3.1, 3.2],
+      bScores: [3.0, 3.1, 3.2],
+    });
+  });
+
+  it('should pad scores to one per judge', () => {
+    expect(createDocument().segments[0].skaters[1].aScores).toEqual([2.0, 2.1, null]);
+  });
+});
+
+describe('validateCompetitionDocument', () => {
+  it('should accept a created document', () => {
+    expect(validateCompetitionDocument(createDocument())).toEqual([]);
+  });
+
+  it('should report problems with their path', () => {
+    const document = createDocument();
+    document.segments[0].skaters[1].aScores = [1, 'x' as unknown as number, 2];
+    document.segments[1].skaters[0].bScores = [1, 2];
+    document.segments[1].skaters[1].startNumber = 0;
+    (document.ruleset as { combinationRule: string }).combinationRule = 'best-of';
+
+    expect(validateCompetitionDocument(document)).toEqual([
+      'ruleset.combinationRule: expected one of placement-sum, weighted-placement',
+      'segments[0].skaters[1].aScores[1]: expected a non-negative number or null',
+      'segments[1].skaters[0].bScores: expected one score per judge (3)',
+      'segments[1].skaters[1].startNumber: expected a positive integer',
+    ]);
+  });
+
+  it('should reject rulesets that are not registered', () => {
+    const unknownVersion = createDocument();
+    unknownVersion.ruleset.version = 99;
+    const unknownId = createDocument();
+    unknownId.ruleset.id = 'isu';
+
+    expect(validateCompetitionDocument(unknownVersion)).toEqual([
+      'ruleset.version: unknown version 99 of ruleset "driv-2025"',
+    ]);
+    expect(validateCompetitionDocument(unknownId)).toEqual(['ruleset.id: unknown ruleset "isu"']);
+  });
+
+  it('should reject anything that is not a competition document', () => {
+    expect(validateCompetitionDocument([])).toEqual(['document: expected an object']);
+    expect(validateCompetitionDocument({ format: 'other' })).toContain('format: expected "rollkunstlauf-competition"');
+  });
+});
+
+describe('migrateCompetitionDocument', () => {
+  it('should apply every migration up to the target version', () => {
+    const migrations = {
+      1: (document: Record<string, unknown>) => ({ ...document, judges: ['renamed'] }),
+      2: (document: Record<string, unknown>) => ({ ...document, extra: true }),
+    };
+
+    expect(migrateCompetitionDocument({ version: 1 }, migrations, 3)).toEqual({
+      version: 3,
+      judges: ['renamed'],
+      extra: true,
+    });
+  });
+
+  it('should leave current documents unchanged', () => {
+    const document = createDocument();
+
+    expect(migrateCompetitionDocument(document)).toEqual(document);
+  });
+
+  it('should reject documents from a newer version', () => {
+    expect(() => migrateCompetitionDocument({ version: COMPETITION_DOCUMENT_VERSION + 1 })).toThrow(/newer/);
+  });
+
+  it('should reject versions without migration', () => {
+    expect(() => migrateCompetitionDocument({ version: 1 }, {}, 2)).toThrow(/No migration/);
+  });
+});
+
+describe('parseCompetitionDocument', () => {
+  it('should read a serialized document', () => {
+    const document = createDocument();
+
+    expect(parseCompetitionDocument(serializeCompetitionDocument(document))).toEqual(document);
+  });
+
+  it('should throw for invalid JSON and invalid documents', () => {
+    expect(() => parseCompetitionDocument('{')).toThrow('Not a valid JSON file');
+    expect(() => parseCompetitionDocument('{"format":"rollkunstlauf-competition","version":1}')).toThrow(
+      /^Invalid competition document: metadata: expected an object; judges: expected a non-empty array; ruleset: expected an object \(and 1 more\)$/
+    );
+  });
+});
+
+describe('calculateDocument', () => {
+  it('should rank the segments with the document ruleset', () => {
+    const competition = calculateDocument(createDocument());
+
+    expect(competition.segments[0].results.map(r => r.name)).toEqual(['Anna', 'Ben']);
+    // Ben wins the Kür, which counts twice
+    expect(competition.combined.map(r => r.name)).toEqual(['Ben', 'Anna']);
+  });
+
+  it('should identify skaters as the opened input does', () => {
+    const { segments, judgeCount } = parseSegments('Anna: 3 3 3 / 3 3 3\nBen: 2 2 2 / 2 2 2');
+    const document = createCompetitionDocument(segments, { judgeCount });
+    document.segments[0].skaters.reverse();
+
+    expect(calculateDocument(document).segments[0].results.map(r => [r.id, r.name])).toEqual([['L2', 'Anna'], ['L1', 'Ben']]);
+  });
+});
+
+describe('documentToInput', () => {
+  it('should be parsed back to the same segments', () => {
+    const document = createDocument();
+    const { segments } = parseSegments(documentToInput(document));
+
+    expect(segments).toMatchObject(document.segments);
+  });
+
+  it('should write a single default segment without header', () => {
+    const { segments, judgeCount } = parseSegments('Anna: 1 2 3 / 1 2 3');
+    const document = createCompetitionDocument(segments, { judgeCount });
+
+    expect(documentToInput(document)).toBe('Anna: 1 2 3 / 1 2 3');
+  });
+});
+
+describe('missing-score policy', () => {
+  it('should rank with the policy of the document', () => {
+    const { segments, judgeCount } = parseSegments('Anna: 3 3 3 / 3 3 3\nBen: 2 2 2 / 2 ? 2');
+    const document = createCompetitionDocument(segments, { judgeCount, missingScorePolicy: 'block' });
+
+    expect(() => calculateDocument(document)).toThrow(/blocked/);
+  });
+});
+
+describe('ruleset', () => {
+  it('should store and rank with the ruleset of the document', () => {
+    // One judge, equal totals: Ben wins by the B-score, unless equal totals are a tie
+    const { segments, judgeCount } = parseSegments('Anna: 5 / 3\nBen: 4 / 4');
+    const ruleset = getRuleset('majority-total-only')!;
+    const document = createCompetitionDocument(segments, { judgeCount, ruleset });
+
+    expect(document.ruleset).toMatchObject({ id: 'majority-total-only', version: 1 });
+    expect(calculateDocument(document).segments[0].results.map(r => r.majorityVictories)).toEqual([0.5, 0.5]);
+    expect(calculateDocument(createCompetitionDocument(segments, { judgeCount })).segments[0].results[0].name).toBe('Ben');
+  });
+});
@@ -0,0 +1,311 @@
+import type { CombinationRule } from '../types/CombinationRule';
+import type { CompetitionDocument, CompetitionMetadata, JudgeInfo } from '../types/CompetitionDocument';
+import type { CompetitionResult } from '../types/CompetitionResult';
+import type { CompetitionSegment } from '../types/CompetitionSegment';
+import type { MissingScorePolicy } from '../types/MissingScorePolicy';
+import type { Ruleset } from '../types/Ruleset';
+import { calculateCompetition } from './competition';
+import { formatInput, parseSegments } from './parser';
+import { DRIV_2025, getRuleset } from './rulesets';
+
+export const COMPETITION_DOCUMENT_FORMAT = 'rollkunstlauf-competition';
+
+/**
+ * Current schema version. Increase it together with a migration from the previous version.
+ */
+export const COMPETITION_DOCUMENT_VERSION = 1;
+
+/**
+ * Upgrades a document from one schema version to the next
+ */
+export type DocumentMigration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from (1 → 2 is stored under 1)
+ */
+export const DOCUMENT_MIGRATIONS: Record<number, DocumentMigration> = {};
+
+export const METADATA_FIELDS: Array<keyof CompetitionMetadata> = ['title', 'category', 'date', 'venue', 'organizer'];
+const COMBINATION_RULES: CombinationRule[] = ['placement-sum', 'weighted-placement'];
+const MISSING_SCORE_POLICIES: MissingScorePolicy[] = ['zero', 'exclude-judge', 'block'];
+
+interface CreateDocumentOptions {
+  judgeCount: number;
+  combinationRule?: CombinationRule;
+  missingScorePolicy?: MissingScorePolicy;
+  ruleset?: Ruleset;
+  metadata?: CompetitionMetadata;
+  judgeNames?: string[]; // Names in panel order, empty for unnamed judges
+}
+
+/**
+ * Builds a competition document from parsed segments.
+ * Score lists are padded with null (or cut) to the panel size, skater IDs are left out.
+ */
+export function createCompetitionDocument(
+  segments: CompetitionSegment[],
+  options: CreateDocumentOptions
+): CompetitionDocument {
+  const {
+    judgeCount,
+    combinationRule = 'placement-sum',
+    missingScorePolicy = 'zero',
+    ruleset = DRIV_2025,
+    metadata = {},
+    judgeNames = [],
+  } = options;
+  const toPanel = (scores: (number | null)[]) =>
+    Array.from({ length: judgeCount }, (_, i) => scores[i] ?? null);
+
+  const judges: JudgeInfo[] = Array.from({ length: judgeCount }, (_, i) => ({
+    id: `J${i + 1}`,
+    ...(judgeNames[i]?.trim() && { name: judgeNames[i].trim() }),
+  }));
+
+  return {
+    format: COMPETITION_DOCUMENT_FORMAT,
+    version: COMPETITION_DOCUMENT_VERSION,
+    metadata: Object.fromEntries(
+      METADATA_FIELDS.filter(field => metadata[field]?.trim()).map(field => [field, metadata[field]?.trim()])
+    ),
+    judges,
+    ruleset: { id: ruleset.id, version: ruleset.version, combinationRule, missingScorePolicy },
+    segments: segments.map(segment => ({
+      name: segment.name,
+      weight: segment.weight,
+      skaters: segment.skaters.map(({ name, startNumber, aScores, bScores }) => ({
+        name,
+        ...(startNumber !== undefined && { startNumber }),
+        aScores: toPanel(aScores),
+        bScores: toPanel(bScores),
+      })),
+    })),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a (migrated) document against the current schema.
+ * Returns a list of problems with their path, e.g. "segments[0].skaters[2].aScores[1]: ...";
+ * an empty list means the document is valid.
+ */
+export function validateCompetitionDocument(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return ['document: expected an object'];
+  }
+
+  if (value.format !== COMPETITION_DOCUMENT_FORMAT) {
+    errors.push(`format: expected "${COMPETITION_DOCUMENT_FORMAT}"`);
+  }
+  if (value.version !== COMPETITION_DOCUMENT_VERSION) {
+    errors.push(`version: expected ${COMPETITION_DOCUMENT_VERSION}`);
+  }
+
+  if (!isObject(value.metadata)) {
+    errors.push('metadata: expected an object');
+  } else {
+    for (const field of METADATA_FIELDS) {
+      if (value.metadata[field] !== undefined && typeof value.metadata[field] !== 'string') {
+        errors.push(`metadata.${field}: expected a string`);
+      }
+    }
+  }
+
+  let judgeCount = 0;
+  if (!Array.isArray(value.judges) || value.judges.length === 0) {
+    errors.push('judges: expected a non-empty array');
+  } else {
+    judgeCount = value.judges.length;
+    const judgeIds = new Set<unknown>();
+    value.judges.forEach((judge: unknown, i) => {
+      if (!isObject(judge) || typeof judge.id !== 'string' || !judge.id) {
+        errors.push(`judges[${i}].id: expected a non-empty string`);
+      } else if (judgeIds.has(judge.id)) {
+        errors.push(`judges[${i}].id: duplicate judge "${judge.id}"`);
+      } else {
+        judgeIds.add(judge.id);
+        if (judge.name !== undefined && typeof judge.name !== 'string') {
+          errors.push(`judges[${i}].name: expected a string`);
+        }
+      }
+    });
+  }
+
+  if (!isObject(value.ruleset)) {
+    errors.push('ruleset: expected an object');
+  } else {
+    if (typeof value.ruleset.id !== 'string' || !getRuleset(value.ruleset.id)) {
+      errors.push(`ruleset.id: unknown ruleset ${JSON.stringify(value.ruleset.id)}`);
+    } else if (!Number.isInteger(value.ruleset.version) || !getRuleset(value.ruleset.id, value.ruleset.version as number)) {
+      errors.push(`ruleset.version: unknown version ${JSON.stringify(value.ruleset.version)} of ruleset "${value.ruleset.id}"`);
+    }
+    if (!COMBINATION_RULES.includes(value.ruleset.combinationRule as CombinationRule)) {
+      errors.push(`ruleset.combinationRule: expected one of ${COMBINATION_RULES.join(', ')}`);
+    }
+    if (!MISSING_SCORE_POLICIES.includes(value.ruleset.missingScorePolicy as MissingScorePolicy)) {
+      errors.push(`ruleset.missingScorePolicy: expected one of ${MISSING_SCORE_POLICIES.join(', ')}`);
+    }
+  }
+
+  if (!Array.isArray(value.segments) || value.segments.length === 0) {
+    errors.push('segments: expected a non-empty array');
+    return errors;
+  }
+
+  value.segments.forEach((segment: unknown, s) => {
+    const path = `segments[${s}]`;
+    if (!isObject(segment)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    if (typeof segment.name !== 'string') {
+      errors.push(`${path}.name: expected a string`);
+    }
+    if (typeof segment.weight !== 'number' || !(segment.weight > 0)) {
+      errors.push(`${path}.weight: expected a positive number`);
+    }
+    if (!Array.isArray(segment.skaters)) {
+      errors.push(`${path}.skaters: expected an array`);
+      return;
+    }
+
+    segment.skaters.forEach((skater: unknown, k) => {
+      const skaterPath = `${path}.skaters[${k}]`;
+      if (!isObject(skater)) {
+        errors.push(`${skaterPath}: expected an object`);
+        return;
+      }
+      if (typeof skater.name !== 'string') {
+        errors.push(`${skaterPath}.name: expected a string`);
+      }
+      if (
+        skater.startNumber !== undefined &&
+        !(Number.isInteger(skater.startNumber) && (skater.startNumber as number) > 0)
+      ) {
+        errors.push(`${skaterPath}.startNumber: expected a positive integer`);
+      }
+
+      for (const key of ['aScores', 'bScores'] as const) {
+        const scores = skater[key];
+        if (!Array.isArray(scores) || (judgeCount > 0 && scores.length !== judgeCount)) {
+          errors.push(`${skaterPath}.${key}: expected one score per judge (${judgeCount})`);
+          continue;
+        }
+        scores.forEach((score: unknown, j) => {
+          if (score !== null && !(typeof score === 'number' && Number.isFinite(score) && score >= 0)) {
+            errors.push(`${skaterPath}.${key}[${j}]: expected a non-negative number or null`);
+          }
+        });
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Upgrades a document to the current schema version by applying the migrations
+ * of every version in between. Documents without a version are rejected,
+ * as are documents from a newer version of the app.
+ */
+export function migrateCompetitionDocument(
+  value: unknown,
+  migrations: Record<number, DocumentMigration> = DOCUMENT_MIGRATIONS,
+  targetVersion: number = COMPETITION_DOCUMENT_VERSION
+): unknown {
+  if (!isObject(value) || typeof value.version !== 'number') {
+    return value;
+  }
+  if (value.version > targetVersion) {
+    throw new Error(`Competition document version ${value.version} is newer than this app supports (${targetVersion})`);
+  }
+
+  let document = value;
+  while ((document.version as number) < targetVersion) {
+    const version = document.version as number;
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from competition document version ${version}`);
+    }
+    document = { ...migrate(document), version: version + 1 };
+  }
+  return document;
+}
+
+/**
+ * Reads a competition document from JSON: migrates older versions, then validates.
+ * Throws an error describing the first problems if the document is invalid.
+ */
+export function parseCompetitionDocument(json: string): CompetitionDocument {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+
+  const document = migrateCompetitionDocument(value);
+  const errors = validateCompetitionDocument(document);
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : '';
+    throw new Error(`Invalid competition document: ${errors.slice(0, 3).join('; ')}${more}`);
+  }
+  return document as CompetitionDocument;
+}
+
+/**
+ * Writes a competition document as formatted JSON
+ */
+export function serializeCompetitionDocument(document: CompetitionDocument): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * The registered ruleset a document references. Throws if it is not registered
+ * (validated documents always reference a registered ruleset).
+ */
+export function getDocumentRuleset(document: CompetitionDocument): Ruleset {
+  const { id, version } = document.ruleset;
+  const ruleset = getRuleset(id, version);
+  if (!ruleset) {
+    throw new Error(`Unknown ruleset ${id}@${version}`);
+  }
+  return ruleset;
+}
+
+/**
+ * Calculates the rankings of every segment and the combined placement of a document
+ * under the rules it references. Skaters get the IDs they get when the document is opened.
+ * Throws if the missing-score policy blocks the ranking.
+ */
+export function calculateDocument(document: CompetitionDocument): CompetitionResult {
+  const { combinationRule, missingScorePolicy } = document.ruleset;
+  const { segments } = parseSegments(documentToInput(document), { judgeCount: document.judges.length });
+  return calculateCompetition(segments, combinationRule, {
+    missingScorePolicy,
+    ruleset: getDocumentRuleset(document),
+  });
+}
+
+/**
+ * Converts a document back to input text. A single unweighted segment with a generated
+ * name is written without header, otherwise every segment starts with "[Name]" or "[Name xWeight]".
+ * Skater IDs are derived from the lines of this text when it is parsed.
+ */
+export function documentToInput(document: CompetitionDocument): string {
+  const [first] = document.segments;
+  if (document.segments.length === 1 && first.weight === 1 && /^Segment \d+$/.test(first.name)) {
+    return formatInput(first.skaters);
+  }
+
+  return document.segments
+    .map(segment => {
+      const weight = segment.weight !== 1 ? ` x${segment.weight}` : '';
+      return `[${segment.name.replace(/[[\]]/g, '')}${weight}]\n${formatInput(segment.skaters)}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,16 @@
+/**
+ * Lets the browser download the content as a file
+ */
+export function downloadFile(content: string | Blob, fileName: string, mimeType: string = 'text/plain') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
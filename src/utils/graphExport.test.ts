@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatGraphDot, formatGraphMl, getPairwiseLinks } from './graphExport';
+import { calculateRankings } from './scoring';
+
+// Anna beats both 2:1, Ben and "Clara" draw 1:1 with judge 3 tied
+const results = calculateRankings([
+  { id: 'L1', name: 'Anna', aScores: [5.0, 5.0, 3.0], bScores: [5.0, 5.0, 3.0] },
+  { id: 'L2', name: 'Ben', aScores: [4.0, 3.0, 4.0], bScores: [4.0, 3.0, 4.0] },
+  { id: 'L3', name: 'Clara "C" & Co', aScores: [2.5, 4.0, 4.0], bScores: [3.0, 4.0, 4.0] },
+]);
+
+describe('getPairwiseLinks', () => {
+  it('should list every victory and every draw once', () => {
+    expect(getPairwiseLinks(results)).toEqual([
+      { source: 'L1', target: 'L2' },
+      { source: 'L1', target: 'L3' },
+      { source: 'L2', target: 'L3' },
+    ]);
+  });
+});
+
+describe('formatGraphDot', () => {
+  it('should export nodes with rank, M.V. and total', () => {
+    const dot = formatGraphDot(results);
+
+    expect(dot).toMatch(/^digraph "head-to-head" \{\n/);
+    expect(dot).toContain('"L1" [label="Anna", rank=1, mv=2, total=26];');
+    expect(dot).toContain('"L3" [label="Clara \\"C\\" & Co", rank=3, mv=0.5, total=21.5];');
+    expect(dot.endsWith('}\n')).toBe(true);
+  });
+
+  it('should export vote splits and draws without an arrow', () => {
+    const dot = formatGraphDot(results);
+
+    expect(dot).toContain('"L1" -> "L2" [label="2:1", votes_for=2, votes_against=1, draw=false];');
+    expect(dot).toContain('"L2" -> "L3" [label="1:1", votes_for=1, votes_against=1, draw=true, dir=none, style=dashed];');
+  });
+
+  it('should only export the given links', () => {
+    const dot = formatGraphDot(results, [{ source: 'L1', target: 'L2' }]);
+
+    expect(dot.match(/->/g)).toHaveLength(1);
+    expect(dot).toContain('"L3" [label=');
+  });
+
+  it('should reject links without a head-to-head result', () => {
+    expect(() => formatGraphDot(results, [{ source: 'L1', target: 'X' }])).toThrow('No head-to-head result');
+  });
+});
+
+describe('formatGraphMl', () => {
+  it('should declare the attributes and escape names', () => {
+    const graphMl = formatGraphMl(results);
+
+    expect(graphMl).toContain('<key id="mv" for="node" attr.name="mv" attr.type="double"/>');
+    expect(graphMl).toContain('<key id="draw" for="edge" attr.name="draw" attr.type="boolean"/>');
+    expect(graphMl).toContain(
+      '<node id="L3"><data key="label">Clara &quot;C&quot; &amp; Co</data><data key="rank">3</data><data key="mv">0.5</data><data key="total">21.5</data></node>'
+    );
+  });
+
+  it('should export draws as undirected edges', () => {
+    const graphMl = formatGraphMl(results);
+
+    expect(graphMl).toContain(
+      '<edge id="e0" source="L1" target="L2"><data key="votes_for">2</data><data key="votes_against">1</data><data key="draw">false</data></edge>'
+    );
+    expect(graphMl).toContain('<edge id="e2" source="L2" target="L3" directed="false">');
+    expect(graphMl.match(/<edge /g)).toHaveLength(3);
+  });
+});
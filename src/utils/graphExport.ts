@@ -0,0 +1,123 @@
+import type { HeadToHeadResult } from '../types/HeadToHeadResult';
+import type { SkaterResult } from '../types/SkaterResult';
+
+/**
+ * Edge of an exported graph: a victory from source over target, or a draw between them
+ */
+export interface GraphExportLink {
+  source: string;
+  target: string;
+}
+
+interface ExportEdge {
+  source: SkaterResult;
+  target: SkaterResult;
+  headToHead: HeadToHeadResult; // Of source against target
+}
+
+/**
+ * Every victory and every draw (once per pair) of the head-to-head results
+ */
+export function getPairwiseLinks(results: SkaterResult[]): GraphExportLink[] {
+  return results.flatMap(skater =>
+    (skater.headToHeadResults ?? [])
+      .filter(h2h => h2h.outcome === 'win' || (h2h.outcome === 'draw' && skater.id < h2h.opponentId))
+      .map(h2h => ({ source: skater.id, target: h2h.opponentId }))
+  );
+}
+
+function getEdges(results: SkaterResult[], links: GraphExportLink[]): ExportEdge[] {
+  const byId = new Map(results.map(result => [result.id, result]));
+  return links.map(({ source, target }) => {
+    const headToHead = byId.get(source)?.headToHeadResults?.find(h2h => h2h.opponentId === target);
+    if (!headToHead) {
+      throw new Error(`No head-to-head result for ${source} against ${target}`);
+    }
+    return { source: byId.get(source)!, target: byId.get(target)!, headToHead };
+  });
+}
+
+function ranked(results: SkaterResult[]): SkaterResult[] {
+  return [...results].sort((a, b) => a.rank - b.rank);
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Head-to-head graph in Graphviz DOT format. Nodes carry rank, M.V. and total score, edges
+ * the judge votes of the winner and loser and whether the pair drew; draws have no arrow.
+ * Without links, every victory and draw is exported (see getPairwiseLinks).
+ */
+export function formatGraphDot(results: SkaterResult[], links: GraphExportLink[] = getPairwiseLinks(results)): string {
+  const lines = ['digraph "head-to-head" {', '  node [shape=ellipse];'];
+
+  for (const result of ranked(results)) {
+    lines.push(
+      `  ${quoteDot(result.id)} [label=${quoteDot(result.name)}, rank=${result.rank}, mv=${result.majorityVictories}, total=${result.totalScore}];`
+    );
+  }
+
+  for (const { source, target, headToHead } of getEdges(results, links)) {
+    const draw = headToHead.outcome === 'draw';
+    const votes = `${headToHead.skaterVotes}:${headToHead.opponentVotes}`;
+    lines.push(
+      `  ${quoteDot(source.id)} -> ${quoteDot(target.id)} [label=${quoteDot(votes)}, votes_for=${headToHead.skaterVotes}, ` +
+      `votes_against=${headToHead.opponentVotes}, draw=${draw}${draw ? ', dir=none, style=dashed' : ''}];`
+    );
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Head-to-head graph in GraphML format (Gephi, yEd) with the same attributes as formatGraphDot.
+ * Draws are undirected edges.
+ */
+export function formatGraphMl(results: SkaterResult[], links: GraphExportLink[] = getPairwiseLinks(results)): string {
+  const key = (id: string, domain: 'node' | 'edge', type: string) =>
+    `  <key id="${id}" for="${domain}" attr.name="${id}" attr.type="${type}"/>`;
+  const data = (id: string, value: string | number | boolean) => `<data key="${id}">${escapeXml(String(value))}</data>`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    key('label', 'node', 'string'),
+    key('rank', 'node', 'int'),
+    key('mv', 'node', 'double'),
+    key('total', 'node', 'double'),
+    key('votes_for', 'edge', 'int'),
+    key('votes_against', 'edge', 'int'),
+    key('draw', 'edge', 'boolean'),
+    '  <graph id="head-to-head" edgedefault="directed">',
+  ];
+
+  for (const result of ranked(results)) {
+    lines.push(
+      `    <node id="${escapeXml(result.id)}">${data('label', result.name)}${data('rank', result.rank)}` +
+      `${data('mv', result.majorityVictories)}${data('total', result.totalScore)}</node>`
+    );
+  }
+
+  getEdges(results, links).forEach(({ source, target, headToHead }, index) => {
+    const draw = headToHead.outcome === 'draw';
+    lines.push(
+      `    <edge id="e${index}" source="${escapeXml(source.id)}" target="${escapeXml(target.id)}"${draw ? ' directed="false"' : ''}>` +
+      `${data('votes_for', headToHead.skaterVotes)}${data('votes_against', headToHead.opponentVotes)}${data('draw', draw)}</edge>`
+    );
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+
+import { calculateJudgeAnalytics, kendallTau, kendallW, spearmanRho } from './judgeAnalytics';
+import { calculateRankings } from './scoring';
+
+// Orders of the letters a, b, c as rank lists (lower is better)
+const items = ['a', 'b', 'c'];
+const byRanks = (ranks: Record<string, number>) => (x: string, y: string) => ranks[y] - ranks[x];
+
+// Majority order Anna, Ben, Clara - judge 2 prefers Ben, judge 3 prefers Clara over Ben
+const skaters = [
+  { id: 'L1', name: 'Anna', aScores: [5.0, 4.0, 5.0], bScores: [5.0, 4.0, 5.0] },
+  { id: 'L2', name: 'Ben', aScores: [4.0, 5.0, 3.0], bScores: [4.0, 5.0, 3.0] },
+  { id: 'L3', name: 'Clara', aScores: [3.0, 4.0, 4.0], bScores: [3.0, 4.0, 4.0] },
+];
+
+describe('rank correlation', () => {
+  it('should be 1 for identical and -1 for reversed orders', () => {
+    const order = byRanks({ a: 1, b: 2, c: 3 });
+    const reversed = byRanks({ a: 3, b: 2, c: 1 });
+
+    expect(kendallTau(items, order, order)).toBe(1);
+    expect(kendallTau(items, order, reversed)).toBe(-1);
+    expect(spearmanRho(items, order, order)).toBeCloseTo(1);
+    expect(spearmanRho(items, order, reversed)).toBeCloseTo(-1);
+  });
+
+  it('should measure partial agreement', () => {
+    const order = byRanks({ a: 1, b: 2, c: 3 });
+    const swapped = byRanks({ a: 1, b: 3, c: 2 });
+
+    expect(kendallTau(items, order, swapped)).toBeCloseTo(1 / 3);
+    expect(spearmanRho(items, order, swapped)).toBeCloseTo(0.5);
+  });
+
+  it('should be undefined for an order without any preference', () => {
+    const order = byRanks({ a: 1, b: 2, c: 3 });
+    const allEqual = byRanks({ a: 1, b: 1, c: 1 });
+
+    expect(kendallTau(items, order, allEqual)).toBeNull();
+    expect(spearmanRho(items, order, allEqual)).toBeNull();
+  });
+});
+
+describe('kendallW', () => {
+  it('should be 1 for full and 0 for no agreement', () => {
+    const order = byRanks({ a: 1, b: 2, c: 3 });
+
+    expect(kendallW(items, [order, order, order])).toBeCloseTo(1);
+    expect(kendallW(items, [order, byRanks({ a: 3, b: 2, c: 1 })])).toBeCloseTo(0);
+  });
+
+  it('should correct for ties', () => {
+    // Rank sums 2, 4.5, 5.5 - S = 6.5, tie correction 2³ - 2 = 6: W = 12 * 6.5 / (4 * 24 - 2 * 6)
+    const orders = [byRanks({ a: 1, b: 2, c: 2 }), byRanks({ a: 1, b: 2, c: 3 })];
+
+    expect(kendallW(items, orders)).toBeCloseTo(78 / 84);
+  });
+
+  it('should be undefined for a single judge or skater', () => {
+    const order = byRanks({ a: 1, b: 2, c: 3 });
+
+    expect(kendallW(items, [order])).toBeNull();
+    expect(kendallW(['a'], [order, order])).toBeNull();
+  });
+});
+
+describe('calculateJudgeAnalytics', () => {
+  it('should show full agreement for a clear ranking', () => {
+    // Every judge gives the same order
+    const unanimous = Array.from({ length: 5 }, (_, i) => ({
+      id: `L${i + 1}`,
+      name: `Skater ${i + 1}`,
+      aScores: [5 - i * 0.5, 5.1 - i * 0.5, 4.9 - i * 0.5],
+      bScores: [5 - i * 0.5, 5 - i * 0.4, 5 - i * 0.6],
+    }));
+    const analytics = calculateJudgeAnalytics(calculateRankings(unanimous), 3);
+
+    expect(analytics.kendallW).toBeCloseTo(1);
+    for (const judge of analytics.judges) {
+      expect(judge.kendallTau).toBe(1);
+      expect(judge.spearmanRho).toBeCloseTo(1);
+      expect(judge.dissents).toBe(0);
+      expect(judge.majorities).toBe(10);
+    }
+  });
+
+  it('should count votes for the loser of a majority as dissent', () => {
+    const analytics = calculateJudgeAnalytics(calculateRankings(skaters), 3);
+
+    expect(analytics.judges.map(j => [j.judge, j.dissents, j.majorities])).toEqual([[1, 0, 3], [2, 1, 3], [3, 1, 3]]);
+  });
+
+  it('should correlate each judge\'s order with the final ranking', () => {
+    const [judge1, judge2] = calculateJudgeAnalytics(calculateRankings(skaters), 3).judges;
+
+    expect(judge1.kendallTau).toBe(1);
+    // Judge 2: Ben ahead of Anna (discordant), Anna and Clara equal, Ben ahead of Clara (concordant)
+    expect(judge2.kendallTau).toBe(0);
+  });
+
+  it('should measure the deviation from the panel median for A and B separately', () => {
+    const generous = [
+      { id: 'L1', name: 'Lena', aScores: [3.5, 3.0, 3.0], bScores: [4.0, 4.0, 4.0] },
+      { id: 'L2', name: 'Marie', aScores: [2.5, 2.0, 2.0], bScores: [3.0, 3.2, 3.0] },
+    ];
+    const [judge1, judge2] = calculateJudgeAnalytics(calculateRankings(generous), 3).judges;
+
+    expect(judge1.aDeviation).toBeCloseTo(0.5);
+    expect(judge1.bDeviation).toBeCloseTo(0);
+    expect(judge2.aDeviation).toBeCloseTo(0);
+    expect(judge2.bDeviation).toBeCloseTo(0.1);
+  });
+
+  it('should leave out missing scores', () => {
+    const withGap = skaters.map(skater =>
+      skater.name === 'Ben' ? { ...skater, aScores: [4.0, null, 3.0], bScores: [4.0, null, 3.0] } : skater
+    );
+    const options = { missingScorePolicy: 'exclude-judge' as const };
+    const analytics = calculateJudgeAnalytics(calculateRankings(withGap, options), 3, options);
+
+    expect(analytics.judges[1].aDeviation).toBeCloseTo(-1 / 2);
+    // Only Anna and Clara are left for judge 2, who placed them equal
+    expect(analytics.judges[1]).toMatchObject({ dissents: 0, majorities: 1, kendallTau: null });
+    expect(analytics.kendallW).not.toBeNull();
+  });
+});
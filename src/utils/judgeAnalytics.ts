@@ -0,0 +1,185 @@
+import type { JudgeAnalytics, PanelAnalytics } from '../types/JudgeAnalytics';
+import type { SkaterResult } from '../types/SkaterResult';
+import { DRIV_2025 } from './rulesets';
+import { compareSkatersByJudge } from './scoring';
+import type { RankingOptions } from './scoring';
+
+/**
+ * Orders two items: positive if the first one is better, negative if the second one is, 0 if equal
+ */
+type Preference<T> = (a: T, b: T) => number;
+
+/**
+ * Ranks (1 = best) with ties sharing the average of their places, e.g. 1, 2.5, 2.5, 4
+ */
+function toAverageRanks<T>(items: T[], prefer: Preference<T>): number[] {
+  return items.map(item => {
+    let better = 0;
+    let equal = 0;
+    for (const other of items) {
+      if (other === item) continue;
+      const preference = prefer(other, item);
+      if (preference > 0) better++;
+      else if (preference === 0) equal++;
+    }
+    return better + 1 + equal / 2;
+  });
+}
+
+/**
+ * Kendall's tau-b of two orders of the same items, null if either order is a complete tie
+ */
+export function kendallTau<T>(items: T[], first: Preference<T>, second: Preference<T>): number | null {
+  let concordant = 0;
+  let discordant = 0;
+  let tiedFirst = 0;
+  let tiedSecond = 0;
+  let pairs = 0;
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = Math.sign(first(items[i], items[j]));
+      const b = Math.sign(second(items[i], items[j]));
+      pairs++;
+      if (a === 0) tiedFirst++;
+      if (b === 0) tiedSecond++;
+      if (a !== 0 && b !== 0) {
+        if (a === b) concordant++;
+        else discordant++;
+      }
+    }
+  }
+
+  const denominator = Math.sqrt((pairs - tiedFirst) * (pairs - tiedSecond));
+  return denominator > 0 ? (concordant - discordant) / denominator : null;
+}
+
+/**
+ * Spearman's rho of two orders (Pearson correlation of the average ranks), null if either order is a complete tie
+ */
+export function spearmanRho<T>(items: T[], first: Preference<T>, second: Preference<T>): number | null {
+  const ranks1 = toAverageRanks(items, first);
+  const ranks2 = toAverageRanks(items, second);
+  const mean = (ranks1.length + 1) / 2; // Average ranks always have this mean
+
+  let covariance = 0;
+  let variance1 = 0;
+  let variance2 = 0;
+  for (let i = 0; i < items.length; i++) {
+    covariance += (ranks1[i] - mean) * (ranks2[i] - mean);
+    variance1 += (ranks1[i] - mean) ** 2;
+    variance2 += (ranks2[i] - mean) ** 2;
+  }
+
+  const denominator = Math.sqrt(variance1 * variance2);
+  return denominator > 0 ? covariance / denominator : null;
+}
+
+/**
+ * Kendall's coefficient of concordance W of several orders of the same items, corrected for ties.
+ * 1 means every order is identical, 0 no agreement; null for fewer than two items or orders.
+ */
+export function kendallW<T>(items: T[], orders: Preference<T>[]): number | null {
+  const n = items.length;
+  const m = orders.length;
+  if (n < 2 || m < 2) return null;
+
+  const rankSums = new Array<number>(n).fill(0);
+  let tieCorrection = 0;
+  for (const prefer of orders) {
+    const ranks = toAverageRanks(items, prefer);
+    ranks.forEach((rank, i) => { rankSums[i] += rank; });
+
+    const tieSizes = new Map<number, number>();
+    ranks.forEach(rank => tieSizes.set(rank, (tieSizes.get(rank) ?? 0) + 1));
+    for (const size of tieSizes.values()) {
+      tieCorrection += size ** 3 - size;
+    }
+  }
+
+  const meanRankSum = (m * (n + 1)) / 2;
+  const s = rankSums.reduce((sum, rankSum) => sum + (rankSum - meanRankSum) ** 2, 0);
+  const denominator = m * m * (n ** 3 - n) - m * tieCorrection;
+  return denominator > 0 ? (12 * s) / denominator : null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Mean difference of one judge's scores from the panel median of the same skater.
+ * Missing scores are left out, on both sides.
+ */
+function meanDeviationFromMedian(results: SkaterResult[], judgeIdx: number, key: 'aScores' | 'bScores'): number | null {
+  const deviations = results.flatMap(result => {
+    const score = result[key][judgeIdx];
+    const panel = result[key].filter((value): value is number => value != null);
+    return score != null ? [score - median(panel)] : [];
+  });
+  return deviations.length > 0 ? deviations.reduce((sum, value) => sum + value, 0) / deviations.length : null;
+}
+
+/**
+ * Consistency and bias figures of every judge of the panel, computed from the ranked results:
+ * - rank correlation (Kendall's tau-b and Spearman's rho) of the judge's own order with the final ranking
+ * - mean deviation from the panel median, for the A- and B-scores separately
+ * - how often the judge voted for the loser of a head-to-head majority (dissents)
+ * - Kendall's W as agreement coefficient of the whole panel
+ *
+ * A judge's own order follows the judge comparison of the ruleset (A+B total with B-score
+ * fallback for DRIV). With the 'exclude-judge' policy, skaters with a missing score from a
+ * judge are left out of that judge's figures, and out of Kendall's W.
+ */
+export function calculateJudgeAnalytics(
+  results: SkaterResult[],
+  judgeCount: number,
+  options: RankingOptions = {}
+): PanelAnalytics {
+  const { missingScorePolicy = 'zero', ruleset = DRIV_2025 } = options;
+  const judges = Array.from({ length: judgeCount }, (_, i) => i);
+
+  const isScoredBy = (result: SkaterResult, judgeIdx: number) =>
+    missingScorePolicy !== 'exclude-judge' || (result.aScores[judgeIdx] != null && result.bScores[judgeIdx] != null);
+  const judgeOrder = (judgeIdx: number): Preference<SkaterResult> => (a, b) => {
+    const total = (result: SkaterResult) => (result.aScores[judgeIdx] ?? 0) + (result.bScores[judgeIdx] ?? 0);
+    const bScore = (result: SkaterResult) => result.bScores[judgeIdx] ?? 0;
+    return compareSkatersByJudge(total(a), bScore(a), total(b), bScore(b), ruleset.judgeComparison) * 2 - 1;
+  };
+  const finalOrder: Preference<SkaterResult> = (a, b) => b.rank - a.rank;
+
+  const judgeAnalytics: JudgeAnalytics[] = judges.map(judgeIdx => {
+    const scored = results.filter(result => isScoredBy(result, judgeIdx));
+    const prefer = judgeOrder(judgeIdx);
+
+    // Head-to-head majorities from the point of view of the winner, every pair once
+    let dissents = 0;
+    let majorities = 0;
+    for (const winner of scored) {
+      for (const headToHead of winner.headToHeadResults ?? []) {
+        const loser = scored.find(result => result.id === headToHead.opponentId);
+        if (!loser || headToHead.skaterVotes <= headToHead.opponentVotes) continue;
+        majorities++;
+        if (prefer(loser, winner) > 0) dissents++;
+      }
+    }
+
+    return {
+      judge: judgeIdx + 1,
+      kendallTau: kendallTau(scored, prefer, finalOrder),
+      spearmanRho: spearmanRho(scored, prefer, finalOrder),
+      aDeviation: meanDeviationFromMedian(results, judgeIdx, 'aScores'),
+      bDeviation: meanDeviationFromMedian(results, judgeIdx, 'bScores'),
+      dissents,
+      majorities,
+    };
+  });
+
+  const scoredByAll = results.filter(result => judges.every(judgeIdx => isScoredBy(result, judgeIdx)));
+  return {
+    judges: judgeAnalytics,
+    kendallW: kendallW(scoredByAll, judges.map(judgeOrder)),
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+
+import { calculateJudgePlacements } from './judgePlacements';
+import { getRuleset } from './rulesets';
+import { calculateRankings } from './scoring';
+
+// Majority order Anna, Ben, Clara - judge 2 prefers Ben and cannot separate Anna and Clara
+const skaters = [
+  { id: 'L1', name: 'Anna', aScores: [5.0, 4.0, 5.0], bScores: [5.0, 4.0, 5.0] },
+  { id: 'L2', name: 'Ben', aScores: [4.0, 5.0, 3.0], bScores: [4.0, 5.0, 3.0] },
+  { id: 'L3', name: 'Clara', aScores: [3.0, 4.0, 4.0], bScores: [3.0, 4.0, 4.0] },
+];
+
+describe('calculateJudgePlacements', () => {
+  it('should place the field in every judge\'s own order next to the majority rank', () => {
+    const rows = calculateJudgePlacements(calculateRankings(skaters), 3);
+
+    expect(rows.map(row => [row.name, row.rank])).toEqual([['Anna', 1], ['Ben', 2], ['Clara', 3]]);
+    expect(rows.map(row => row.placements.map(p => p.placement))).toEqual([
+      [1, 2, 1],
+      [2, 1, 3],
+      [3, 2, 2],
+    ]);
+  });
+
+  it('should report the deviation from the majority rank', () => {
+    const rows = calculateJudgePlacements(calculateRankings(skaters), 3);
+
+    expect(rows.map(row => row.placements.map(p => p.deviation))).toEqual([
+      [0, 1, 0],
+      [0, -1, 1],
+      [0, -1, -1],
+    ]);
+  });
+
+  it('should share the placement of skaters a judge cannot separate', () => {
+    const [anna, ben, clara] = calculateJudgePlacements(calculateRankings(skaters), 3);
+
+    expect(anna.placements[1]).toMatchObject({ placement: 2, tied: true });
+    expect(clara.placements[1]).toMatchObject({ placement: 2, tied: true });
+    expect(ben.placements[1]).toMatchObject({ placement: 1, tied: false });
+  });
+
+  it('should decide equal totals by the judge comparison of the ruleset', () => {
+    const equalTotals = [
+      { id: 'L1', name: 'Lena', aScores: [5.0], bScores: [3.0] },
+      { id: 'L2', name: 'Marie', aScores: [4.0], bScores: [4.0] },
+    ];
+    const ruleset = getRuleset('majority-total-only');
+
+    const withFallback = calculateJudgePlacements(calculateRankings(equalTotals), 1);
+    const withoutFallback = calculateJudgePlacements(calculateRankings(equalTotals, { ruleset }), 1, { ruleset });
+
+    expect(withFallback.map(row => [row.name, row.placements[0].placement])).toEqual([['Marie', 1], ['Lena', 2]]);
+    // Equal on every level of the ruleset as well, so both share first place
+    expect(withoutFallback.map(row => row.placements[0])).toEqual([
+      { placement: 1, tied: true, deviation: 0 },
+      { placement: 1, tied: true, deviation: 0 },
+    ]);
+  });
+
+  it('should leave out judges with missing scores when excluding judges', () => {
+    const withGap = skaters.map(skater =>
+      skater.name === 'Ben' ? { ...skater, aScores: [4.0, null, 3.0] } : skater
+    );
+    const options = { missingScorePolicy: 'exclude-judge' as const };
+    const rows = calculateJudgePlacements(calculateRankings(withGap, options), 3, options);
+
+    expect(rows.find(row => row.name === 'Ben')?.placements[1]).toEqual({ placement: null, tied: false, deviation: null });
+    expect(rows.find(row => row.name === 'Clara')?.placements[1]).toMatchObject({ placement: 1, tied: true });
+  });
+});
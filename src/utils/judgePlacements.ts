@@ -0,0 +1,62 @@
+import type { JudgePlacement, JudgePlacementRow } from '../types/JudgePlacement';
+import type { SkaterResult } from '../types/SkaterResult';
+import { DRIV_2025 } from './rulesets';
+import { compareSkatersByJudge } from './scoring';
+import type { RankingOptions } from './scoring';
+
+/**
+ * Ordinal placements (Platzziffern) of every judge: each judge's own order of the field,
+ * next to the final majority rank.
+ *
+ * A judge places skater X ahead of skater Y if X wins their comparison for that judge
+ * (A+B total with the B-score fallback of the ruleset). Skaters the judge cannot separate
+ * share the better placement, e.g. 1, 2, 2, 4. With the 'exclude-judge' policy, a judge
+ * is left out for skaters with a missing score from that judge; otherwise missing scores count as 0.
+ */
+export function calculateJudgePlacements(
+  results: SkaterResult[],
+  judgeCount: number,
+  options: RankingOptions = {}
+): JudgePlacementRow[] {
+  const { missingScorePolicy = 'zero', ruleset = DRIV_2025 } = options;
+  const ranked = [...results].sort((a, b) => a.rank - b.rank);
+
+  const placementsByJudge = Array.from({ length: judgeCount }, (_, judgeIdx) => {
+    const scored = ranked.filter(result =>
+      missingScorePolicy !== 'exclude-judge' ||
+      (result.aScores[judgeIdx] != null && result.bScores[judgeIdx] != null)
+    );
+    const totalOf = (result: SkaterResult) => (result.aScores[judgeIdx] ?? 0) + (result.bScores[judgeIdx] ?? 0);
+    const bScoreOf = (result: SkaterResult) => result.bScores[judgeIdx] ?? 0;
+
+    const placements = new Map<string, JudgePlacement>();
+    for (const result of scored) {
+      let ahead = 0;
+      let equal = 0;
+      for (const other of scored) {
+        if (other.id === result.id) continue;
+        const comparison = compareSkatersByJudge(
+          totalOf(other),
+          bScoreOf(other),
+          totalOf(result),
+          bScoreOf(result),
+          ruleset.judgeComparison
+        );
+        if (comparison === 1) ahead++;
+        else if (comparison === 0.5) equal++;
+      }
+      placements.set(result.id, { placement: ahead + 1, tied: equal > 0, deviation: ahead + 1 - result.rank });
+    }
+    return placements;
+  });
+
+  return ranked.map(result => ({
+    id: result.id,
+    name: result.name,
+    ...(result.startNumber !== undefined && { startNumber: result.startNumber }),
+    rank: result.rank,
+    placements: placementsByJudge.map(placements =>
+      placements.get(result.id) ?? { placement: null, tied: false, deviation: null }
+    ),
+  }));
+}
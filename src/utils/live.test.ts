@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+
+import { calculateLiveSnapshots } from './live';
+import { calculateRankings } from './scoring';
+
+// Start order: Nora, Lena, Marie - final ranking Lena, Marie, Nora
+const skaters = [
+  { id: 'L1', name: 'Nora', aScores: [2.0, 2.0, 2.0], bScores: [2.0, 2.0, 2.0] },
+  { id: 'L2', name: 'Lena', aScores: [5.0, 4.0, 5.0], bScores: [5.0, 4.0, 4.0] },
+  { id: 'L3', name: 'Marie', aScores: [4.0, 4.5, 4.0], bScores: [4.0, 4.5, 4.0] },
+];
+
+describe('calculateLiveSnapshots', () => {
+  it('should rank only the skaters that have skated after each skater', () => {
+    const snapshots = calculateLiveSnapshots(skaters);
+
+    expect(snapshots.map(snapshot => snapshot.newestId)).toEqual(['L1', 'L2', 'L3']);
+    expect(snapshots.map(snapshot => snapshot.standings.map(standing => standing.name))).toEqual([
+      ['Nora'],
+      ['Lena', 'Nora'],
+      ['Lena', 'Marie', 'Nora'],
+    ]);
+  });
+
+  it('should record the rank and M.V. gained against the newest skater', () => {
+    const last = calculateLiveSnapshots(skaters)[2];
+
+    expect(last.standings).toEqual([
+      { id: 'L2', name: 'Lena', rank: 1, majorityVictories: 2, previousRank: 1, majorityVictoriesGained: 1 },
+      { id: 'L3', name: 'Marie', rank: 2, majorityVictories: 1 },
+      { id: 'L1', name: 'Nora', rank: 3, majorityVictories: 0, previousRank: 2, majorityVictoriesGained: 0 },
+    ]);
+  });
+
+  it('should end with the final ranking', () => {
+    const snapshots = calculateLiveSnapshots(skaters);
+
+    expect(snapshots[snapshots.length - 1].standings.map(({ id, rank }) => [id, rank]))
+      .toEqual(calculateRankings(skaters).map(({ id, rank }) => [id, rank]));
+  });
+
+  it('should have no snapshots without skaters', () => {
+    expect(calculateLiveSnapshots([])).toEqual([]);
+  });
+});
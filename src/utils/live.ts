@@ -0,0 +1,41 @@
+import type { LiveSnapshot } from '../types/LiveSnapshot';
+import type { SkaterScores } from '../types/SkaterScores';
+import { calculateRankings } from './scoring';
+import type { RankingOptions } from './scoring';
+
+/**
+ * Provisional rankings of a live competition: one snapshot after every skater of the
+ * start order, ranking only the skaters that have skated so far. Every earlier skater's
+ * M.V. grows by their comparison with the newest skater, which is recorded with the
+ * rank before the newest skater.
+ */
+export function calculateLiveSnapshots(skaters: SkaterScores[], options: RankingOptions = {}): LiveSnapshot[] {
+  const snapshots: LiveSnapshot[] = [];
+  let previous = new Map<string, { rank: number; majorityVictories: number }>();
+
+  skaters.forEach((newest, index) => {
+    const results = calculateRankings(skaters.slice(0, index + 1), options);
+
+    snapshots.push({
+      skaterCount: index + 1,
+      newestId: newest.id,
+      standings: results.map(({ id, name, rank, majorityVictories }) => {
+        const before = previous.get(id);
+        return {
+          id,
+          name,
+          rank,
+          majorityVictories,
+          ...(before && {
+            previousRank: before.rank,
+            majorityVictoriesGained: majorityVictories - before.majorityVictories,
+          }),
+        };
+      }),
+    });
+
+    previous = new Map(results.map(({ id, rank, majorityVictories }) => [id, { rank, majorityVictories }]));
+  });
+
+  return snapshots;
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 
-import { parseInput } from './parser';
+import { detectJudgeCount, formatInput, parseInput, parseSegments } from './parser';
 
 describe('parseInput', () => {
   it('should parse basic input with "und" separator', () => {
@@ -9,6 +9,7 @@ describe('parseInput', () => {
 
     expect(result).toHaveLength(1);
     expect(result[0]).toEqual({
+      id: 'L1',
       name: 'SkaterA',
       aScores: [1.4, 1.4, 1.4],
       bScores: [1.5, 1.5, 1.5],
@@ -21,6 +22,7 @@ describe('parseInput', () => {
 
     expect(result).toHaveLength(1);
     expect(result[0]).toEqual({
+      id: 'L1',
       name: 'SkaterB',
       aScores: [1.8, 1.5, 1.6],
       bScores: [2.1, 1.6, 1.8],
@@ -33,6 +35,7 @@ describe('parseInput', () => {
 
     expect(result).toHaveLength(1);
     expect(result[0]).toEqual({
+      id: 'L1',
       name: 'SkaterC',
       aScores: [1.8, 1.4, 1.5],
       bScores: [2.4, 1.6, 2.2],
@@ -45,6 +48,7 @@ describe('parseInput', () => {
 
     expect(result).toHaveLength(1);
     expect(result[0]).toEqual({
+      id: 'L1',
       name: 'SkaterD',
       aScores: [1.5, 1.3, 1.5],
       bScores: [1.4, 1.3, 1.3],
@@ -57,6 +61,7 @@ describe('parseInput', () => {
 
     expect(result).toHaveLength(1);
     expect(result[0]).toEqual({
+      id: 'L1',
       name: 'SkaterE',
       aScores: [1.5, 1.6, 1.9],
       bScores: [1.5, 1.9, 2.1],
@@ -108,6 +113,7 @@ SkaterB: 1.8 1.5 1.6 und 2.1 1.6 1.8`;
     expect(result[0].name).toBe('SkaterA');
     expect(result[1].name).toBe('Skater 1');
     expect(result[1]).toEqual({
+      id: 'L2',
       name: 'Skater 1',
       aScores: [1.8, 1.5, 1.6],
       bScores: [2.1, 1.6, 1.8],
@@ -125,6 +131,7 @@ SkaterC: 1.8 1.5 1.6 und 2.1 1.6 1.8`;
     expect(result).toHaveLength(3);
     expect(result[1].name).toBe('SkaterB');
     expect(result[1]).toEqual({
+      id: 'L2',
       name: 'SkaterB',
       aScores: [1.4, 1.4, null],
       bScores: [null, null, null],
@@ -139,12 +146,13 @@ SkaterC: 1.8 1.5 1.6 und 2.1 1.6 1.8`;
     expect(result[0].name).toBe('Skater Name');
   });
 
-  it('should only take first 6 numbers if more are provided', () => {
+  it('should only take first 6 numbers if a panel of 3 is declared', () => {
     const input = 'SkaterF: 1.7 1.7 1.6 1.9 2.1 2.0 3.0 4.0';
-    const result = parseInput(input);
+    const result = parseInput(input, { judgeCount: 3 });
 
     expect(result).toHaveLength(1);
     expect(result[0]).toEqual({
+      id: 'L1',
       name: 'SkaterF',
       aScores: [1.7, 1.7, 1.6],
       bScores: [1.9, 2.1, 2.0],
@@ -157,6 +165,7 @@ SkaterC: 1.8 1.5 1.6 und 2.1 1.6 1.8`;
 
     expect(result).toHaveLength(1);
     expect(result[0]).toEqual({
+      id: 'L1',
       name: 'SkaterG',
       aScores: [1.6, 1.6, 1.5],
       bScores: [1.6, 1.4, 1.3],
@@ -182,6 +191,7 @@ SkaterC: 1.8 1.5 1.6 und 2.1 1.6 1.8`;
 
     expect(result).toHaveLength(1);
     expect(result[0]).toEqual({
+      id: 'L1',
       name: 'SkaterH',
       aScores: [2.5, null, null],
       bScores: [null, null, null],
@@ -199,4 +209,310 @@ SkaterC: 1.8 1.5 1.6 und 2.1 1.6 1.8`;
     expect(result[0].name).toBe('SkaterA');
     expect(result[1].name).toBe('SkaterC');
   });
+
+  describe('judge panels', () => {
+    it('should split at the "/" separator for a five-judge panel', () => {
+      const input = 'SkaterA: 1.1 1.2 1.3 1.4 1.5 / 2.1 2.2 2.3 2.4 2.5';
+      const result = parseInput(input);
+
+      expect(result[0]).toEqual({
+        id: 'L1',
+        name: 'SkaterA',
+        aScores: [1.1, 1.2, 1.3, 1.4, 1.5],
+        bScores: [2.1, 2.2, 2.3, 2.4, 2.5],
+      });
+    });
+
+    it('should split flat lines in half for a seven-judge panel', () => {
+      const input = 'SkaterA: 1 2 3 4 5 6 7 8 9 10 11 12 13 14';
+      const result = parseInput(input);
+
+      expect(result[0].aScores).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(result[0].bScores).toEqual([8, 9, 10, 11, 12, 13, 14]);
+    });
+
+    it('should keep all numbers when no panel size is declared', () => {
+      const input = 'SkaterF: 1.7 1.7 1.6 1.9 2.1 2.0 3.0 4.0';
+      const result = parseInput(input);
+
+      expect(result[0]).toEqual({
+        id: 'L1',
+        name: 'SkaterF',
+        aScores: [1.7, 1.7, 1.6, 1.9],
+        bScores: [2.1, 2.0, 3.0, 4.0],
+      });
+    });
+
+    it('should pad the shorter side of a "/" separated line', () => {
+      const input = `SkaterA: 1.1 1.2 1.3 1.4 1.5 / 2.1 2.2 2.3 2.4 2.5
+SkaterB: 1.1 1.2 1.3 1.4 / 2.1 2.2 2.3 2.4 2.5`;
+      const result = parseInput(input);
+
+      expect(result[1].aScores).toEqual([1.1, 1.2, 1.3, 1.4, null]);
+      expect(result[1].bScores).toEqual([2.1, 2.2, 2.3, 2.4, 2.5]);
+    });
+
+    it('should use the panel size of the complete lines for partial lines', () => {
+      const input = `SkaterA: 1 1 1 1 1 / 2 2 2 2 2
+SkaterB: 1 1 1 1 1 2 2 2 2 2
+SkaterC: 1 1 1`;
+      const result = parseInput(input);
+
+      expect(result[2].aScores).toEqual([1, 1, 1, null, null]);
+      expect(result[2].bScores).toEqual([null, null, null, null, null]);
+    });
+
+    it('should honour a declared panel size over the detected one', () => {
+      const input = 'SkaterA: 1 2 3 4 5 6 7 8 9 10';
+      const result = parseInput(input, { judgeCount: 3 });
+
+      expect(result[0].aScores).toEqual([1, 2, 3]);
+      expect(result[0].bScores).toEqual([4, 5, 6]);
+    });
+  });
+
+  describe('detectJudgeCount', () => {
+    it('should fall back to three judges without a hint', () => {
+      expect(detectJudgeCount('')).toBe(3);
+      expect(detectJudgeCount('SkaterA: 2.5')).toBe(3);
+    });
+
+    it('should pick the most common panel size', () => {
+      const input = `SkaterA: 1 1 1 1 1 / 2 2 2 2 2
+SkaterB: 1 1 1 1 1 / 2 2 2 2 2
+SkaterC: 1 1 1 / 2 2 2`;
+
+      expect(detectJudgeCount(input)).toBe(5);
+    });
+  });
+});
+
+describe('parseSegments', () => {
+  it('should return a single segment for input without headers', () => {
+    const input = `SkaterA: 1.4 1.4 1.4 / 1.5 1.5 1.5
+SkaterB: 1.8 1.5 1.6 / 2.1 1.6 1.8`;
+    const { segments } = parseSegments(input);
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].name).toBe('Segment 1');
+    expect(segments[0].weight).toBe(1);
+    expect(segments[0].skaters).toHaveLength(2);
+  });
+
+  it('should split the input at segment headers', () => {
+    const input = `[Pflicht]
+SkaterA: 1.4 1.4 1.4 / 1.5 1.5 1.5
+SkaterB: 1.8 1.5 1.6 / 2.1 1.6 1.8
+
+[Kür x2]
+SkaterA: 2.4 2.4 2.4 / 2.5 2.5 2.5
+SkaterB: 1.8 1.5 1.6 / 2.1 1.6 1.8`;
+    const { segments } = parseSegments(input);
+
+    expect(segments.map(s => s.name)).toEqual(['Pflicht', 'Kür']);
+    expect(segments.map(s => s.weight)).toEqual([1, 2]);
+    expect(segments[1].skaters[0]).toEqual({
+      id: 'L6',
+      name: 'SkaterA',
+      aScores: [2.4, 2.4, 2.4],
+      bScores: [2.5, 2.5, 2.5],
+    });
+  });
+
+  it('should accept decimal weights with comma', () => {
+    const { segments } = parseSegments(`[Kurzprogramm ×1,5]
+SkaterA: 1 1 1 / 2 2 2`);
+
+    expect(segments[0].name).toBe('Kurzprogramm');
+    expect(segments[0].weight).toBe(1.5);
+  });
+
+  it('should number unnamed skaters per segment', () => {
+    const { segments } = parseSegments(`[Pflicht]
+1 1 1 / 2 2 2
+[Kür]
+1 1 1 / 2 2 2`);
+
+    expect(segments[0].skaters[0].name).toBe('Skater 1');
+    expect(segments[1].skaters[0].name).toBe('Skater 1');
+  });
+
+  it('should not treat headers as skaters in parseInput', () => {
+    const result = parseInput(`[Kür x2]
+SkaterA: 1 1 1 / 2 2 2`);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].name).toBe('SkaterA');
+  });
+});
+
+describe('skater identity', () => {
+  it('should use the start number as ID', () => {
+    const result = parseInput(`12 Lena: 1 1 1 / 2 2 2
+7. Marie: 1 1 1 / 2 2 2`);
+
+    expect(result[0]).toMatchObject({ id: '#12', name: 'Lena', startNumber: 12 });
+    expect(result[1]).toMatchObject({ id: '#7', name: 'Marie', startNumber: 7 });
+  });
+
+  it('should keep skaters with the same name apart', () => {
+    const result = parseInput(`Lena: 2 2 2 / 2 2 2
+Lena: 1 1 1 / 1 1 1`);
+
+    expect(result.map(s => s.name)).toEqual(['Lena', 'Lena']);
+    expect(result.map(s => s.id)).toEqual(['L1', 'L2']);
+  });
+
+  it('should fall back to the line for a repeated start number', () => {
+    const result = parseInput(`3 Lena: 2 2 2 / 2 2 2
+3 Marie: 1 1 1 / 1 1 1`);
+
+    expect(result.map(s => s.id)).toEqual(['#3', 'L2']);
+  });
+});
+
+describe('diagnostics', () => {
+  it('should report no problems for clean input', () => {
+    const { diagnostics } = parseSegments(`SkaterA: 1.4 1.4 1.4 / 1.5 1.5 1.5
+SkaterB: 1.8 1.5 1.6 / 2.1 1.6 1.8`);
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should report skipped lines with their position', () => {
+    const { diagnostics } = parseSegments(`SkaterA: 1.4 1.4 1.4 / 1.5 1.5 1.5
+  SkaterB: no numbers here`);
+
+    expect(diagnostics).toEqual([{
+      severity: 'error',
+      code: 'skipped-line',
+      line: 2,
+      startColumn: 3,
+      endColumn: 27,
+      message: 'No scores found - this line is skipped',
+    }]);
+  });
+
+  it('should report extra numbers at their columns', () => {
+    const { diagnostics } = parseSegments('SkaterF: 1.7 1.7 1.6 1.9 2.1 2.0 3.0 4.0', { judgeCount: 3 });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      severity: 'warning',
+      code: 'extra-numbers',
+      line: 1,
+      startColumn: 34,
+      endColumn: 41,
+    });
+  });
+
+  it('should report extra numbers on either side of the "/" separator', () => {
+    const { diagnostics } = parseSegments('SkaterA: 1 1 1 1 / 2 2 2', { judgeCount: 3 });
+
+    expect(diagnostics.map(d => d.code)).toEqual(['extra-numbers']);
+    expect(diagnostics[0].startColumn).toBe(16);
+  });
+
+  it('should report missing scores that are padded with null', () => {
+    const { diagnostics } = parseSegments(`SkaterA: 1.4 1.4 1.4 / 1.5 1.5 1.5
+SkaterB: 1.4 1.4`);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      severity: 'warning',
+      code: 'missing-scores',
+      line: 2,
+      startColumn: 10,
+      endColumn: 17,
+    });
+    expect(diagnostics[0].message).toContain('2 of 3 A-scores and 0 of 3 B-scores');
+  });
+
+  it('should report suspicious values', () => {
+    const { diagnostics } = parseSegments('SkaterA: 1.4 14 1.45 / 1.5 1.5 1.5');
+
+    expect(diagnostics.map(d => [d.code, d.startColumn, d.endColumn])).toEqual([
+      ['suspicious-value', 14, 16],
+      ['suspicious-value', 17, 21],
+    ]);
+  });
+
+  it('should report duplicate names at the name', () => {
+    const { diagnostics } = parseSegments(`Lena: 1 1 1 / 2 2 2
+Lena: 1 1 1 / 2 2 2`);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ code: 'duplicate-name', line: 2, startColumn: 1, endColumn: 5 });
+  });
+
+  it('should report duplicate start numbers', () => {
+    const { diagnostics } = parseSegments(`3 Lena: 1 1 1 / 2 2 2
+3 Marie: 1 1 1 / 2 2 2`);
+
+    expect(diagnostics.map(d => d.code)).toEqual(['duplicate-start-number']);
+  });
+
+  it('should report names that cannot be matched across segments as errors', () => {
+    const { diagnostics } = parseSegments(`[Pflicht]
+Lena: 1 1 1 / 2 2 2
+Lena: 1 1 1 / 2 2 2
+[Kür]
+Lena: 1 1 1 / 2 2 2
+12 Marie: 1 1 1 / 2 2 2`);
+
+    const errors = diagnostics.filter(d => d.code === 'ambiguous-participant');
+    expect(errors.map(d => [d.severity, d.line, d.startColumn, d.endColumn])).toEqual([
+      ['error', 2, 1, 5],
+      ['error', 3, 1, 5],
+      ['error', 5, 1, 5],
+    ]);
+    expect(errors[0].message).toBe('"Lena" is listed 2× in Pflicht - add start numbers to tell these skaters apart');
+  });
+
+  it('should count lines from the start of the input, including leading empty lines', () => {
+    const { diagnostics } = parseSegments(`
+
+SkaterA: nothing`);
+
+    expect(diagnostics[0].line).toBe(3);
+  });
+
+  it('should return the panel size used', () => {
+    expect(parseSegments('SkaterA: 1 1 1 1 1 / 2 2 2 2 2').judgeCount).toBe(5);
+    expect(parseSegments('SkaterA: 1 1 1 1 1 / 2 2 2 2 2', { judgeCount: 3 }).judgeCount).toBe(3);
+  });
+});
+
+describe('missing score placeholder', () => {
+  it('should keep the judge positions after a "?"', () => {
+    const result = parseInput('SkaterA: 1.4 ? 1.6 / 2.0 2.1 ?');
+
+    expect(result[0].aScores).toEqual([1.4, null, 1.6]);
+    expect(result[0].bScores).toEqual([2.0, 2.1, null]);
+  });
+
+  it('should report placeholders as missing scores', () => {
+    const { diagnostics } = parseSegments('SkaterA: 1.4 ? 1.6 / 2.0 2.1 2.2');
+
+    expect(diagnostics.map(d => d.code)).toEqual(['missing-scores']);
+  });
+});
+
+describe('formatInput', () => {
+  it('should format skaters as score lines', () => {
+    expect(formatInput([
+      { name: 'Lena', startNumber: 7, aScores: [1.4, 1.5, 1.6], bScores: [2, 2.1, 2.2] },
+      { name: 'Marie', aScores: [1.4, null, 1.6], bScores: [2, 2.1, null] },
+    ])).toBe(`7 Lena: 1.4 1.5 1.6 / 2 2.1 2.2
+Marie: 1.4 ? 1.6 / 2 2.1 ?`);
+  });
+
+  it('should be parsed back to the same scores', () => {
+    const skaters = [
+      { id: '#12', name: 'Anna Berg', startNumber: 12, aScores: [3.1, null, 2.9, 3.0, 3.2], bScores: [null, 3.4, 3.3, 3.5, 3.1] },
+      { id: 'L2', name: 'Ben', aScores: [2.1, 2.2, 2.3, 2.4, 2.5], bScores: [2.6, 2.7, 2.8, 2.9, 3.0] },
+    ];
+
+    expect(parseInput(formatInput(skaters))).toEqual(skaters);
+  });
 });
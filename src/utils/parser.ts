@@ -1,80 +1,466 @@
 import type { SkaterScores } from '../types/SkaterScores';
+import type { CompetitionSegment } from '../types/CompetitionSegment';
+import type { ParseDiagnostic, ParseDiagnosticCode, DiagnosticSeverity } from '../types/ParseDiagnostic';
+import type { ParseResult } from '../types/ParseResult';
+import { matchParticipants } from './participants';
 
 /**
- * Parses input text where each line contains:
- * Name: score1 score2 score3 [separator] score4 score5 score6
- * OR
- * score1 score2 score3 [separator] score4 score5 score6 (auto-generates "Skater N" name)
- *
- * The first 3 scores are A-scores, the last 3 are B-scores
- * Supports both comma and period as decimal separator
- * Any text between numbers (like "und", "and", etc.) is ignored
+ * Panel size used when neither a declared nor a detectable judge count exists
  */
-export function parseInput(input: string): SkaterScores[] {
-  const lines = input.trim().split('\n');
-  const results: SkaterScores[] = [];
-  let unnamedCounter = 1;
+export const DEFAULT_JUDGE_COUNT = 3;
 
-  for (const line of lines) {
+/**
+ * Highest valid score (DRIV 10,0 system). Higher values are reported as suspicious.
+ */
+export const MAX_SCORE = 10;
+
+export interface ParseOptions {
+  /** Declared panel size. When omitted, the panel size is detected from the input. */
+  judgeCount?: number;
+}
+
+/**
+ * A number in a score line with its position in the line (0-based, end exclusive).
+ * The placeholder "?" marks a missing score and has the value null.
+ */
+interface NumberToken {
+  value: number | null;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A single score line split into its name and numbers.
+ * If the line uses exactly one "/" between the A- and B-scores,
+ * the numbers are already split into both groups.
+ */
+interface TokenizedLine {
+  lineNumber: number; // 1-based line in the input
+  length: number; // Length of the raw line
+  name: string | null;
+  nameRange: { start: number; end: number } | null;
+  startNumber: number | null;
+  numbers: NumberToken[];
+  split: { aNumbers: NumberToken[]; bNumbers: NumberToken[] } | null;
+}
+
+/**
+ * Score lines grouped under a segment header such as "[Kür x2]"
+ */
+interface TokenizedSegment {
+  name: string | null;
+  weight: number;
+  lines: TokenizedLine[];
+}
+
+/**
+ * Segment header: "[Name]" or "[Name x2]" / "[Name ×1,5]" with a weight factor
+ */
+const SEGMENT_HEADER = /^\[\s*(.*?)(?:\s+[x×*]\s*(\d+(?:[.,]\d+)?))?\s*\]$/;
+
+/**
+ * Start number in front of the name: "12 Lena" or "12. Lena"
+ */
+const START_NUMBER = /^(\d+)[.)]?\s+(.+)$/;
+
+/**
+ * Creates a diagnostic from 0-based, end-exclusive positions within the line
+ */
+function createDiagnostic(
+  severity: DiagnosticSeverity,
+  code: ParseDiagnosticCode,
+  lineNumber: number,
+  start: number,
+  end: number,
+  message: string
+): ParseDiagnostic {
+  return {
+    severity,
+    code,
+    line: lineNumber,
+    startColumn: start + 1,
+    endColumn: Math.max(end, start + 1) + 1,
+    message,
+  };
+}
+
+/**
+ * Extracts all numbers (including decimals) and "?" placeholders from a piece of text.
+ * Supports both comma and period as decimal separator.
+ * Positions are shifted by `offset`, the position of the text within its line.
+ */
+function extractNumbers(text: string, offset: number): NumberToken[] {
+  // Replace commas with periods for decimal parsing (keeps all positions intact)
+  const normalizedText = text.replace(/,/g, '.');  // German decimal separator
+
+  // This regex handles: 1.5, 1,5 (after normalization), .5, 5. and the placeholder ?
+  const tokens: NumberToken[] = [];
+  for (const match of normalizedText.matchAll(/\d+\.?\d*|\.\d+|\?/g)) {
+    tokens.push({
+      value: match[0] === '?' ? null : parseFloat(match[0]),
+      text: match[0],
+      start: offset + match.index,
+      end: offset + match.index + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Reports scores above MAX_SCORE or finer than 0.1 steps - usually typos
+ */
+function checkSuspiciousValues(line: TokenizedLine, diagnostics: ParseDiagnostic[]) {
+  for (const token of line.numbers) {
+    if (token.value === null) continue;
+
+    const decimals = token.text.split('.')[1] ?? '';
+    if (token.value > MAX_SCORE) {
+      diagnostics.push(createDiagnostic('warning', 'suspicious-value', line.lineNumber, token.start, token.end,
+        `Score ${token.text} is above the maximum of ${MAX_SCORE.toFixed(1)}`));
+    } else if (decimals.length > 1) {
+      diagnostics.push(createDiagnostic('warning', 'suspicious-value', line.lineNumber, token.start, token.end,
+        `Score ${token.text} has more than one decimal place - scores are given in 0.1 steps`));
+    }
+  }
+}
+
+/**
+ * Splits the input into segments of score lines, skipping empty lines, comments
+ * and lines without any numbers. Lines before the first segment header
+ * belong to an unnamed segment.
+ */
+function tokenizeSegments(input: string, diagnostics: ParseDiagnostic[]): TokenizedSegment[] {
+  const lines = input.split('\n');
+  const segments: TokenizedSegment[] = [{ name: null, weight: 1, lines: [] }];
+
+  for (const [lineIndex, line] of lines.entries()) {
+    const lineNumber = lineIndex + 1;
     const trimmedLine = line.trim();
     if (!trimmedLine) continue;
 
     // Skip comment lines
     if (trimmedLine.startsWith('#') || trimmedLine.startsWith('//')) continue;
 
+    // Segment header starts a new segment
+    const header = trimmedLine.match(SEGMENT_HEADER);
+    if (header) {
+      const weight = header[2] ? parseFloat(header[2].replace(',', '.')) : 1;
+      segments.push({ name: header[1] || null, weight: weight > 0 ? weight : 1, lines: [] });
+      continue;
+    }
+
+    const tokenized = segments[segments.length - 1].lines;
+    const lineOffset = line.length - line.trimStart().length;
+
     // Split by colon to separate name from scores
     const colonIndex = trimmedLine.indexOf(':');
-    let name: string;
+    let name: string | null;
+    let nameRange: TokenizedLine['nameRange'] = null;
+    let startNumber: number | null = null;
     let scoresText: string;
+    let scoresOffset: number;
 
     if (colonIndex === -1) {
-      // No colon found - treat entire line as scores, generate name
-      name = `Skater ${unnamedCounter++}`;
+      // No colon found - treat entire line as scores, name is generated later
+      name = null;
       scoresText = trimmedLine;
+      scoresOffset = lineOffset;
     } else {
       name = trimmedLine.substring(0, colonIndex).trim();
-      scoresText = trimmedLine.substring(colonIndex + 1).trim();
-    }
+      nameRange = { start: lineOffset, end: lineOffset + name.length };
+      const afterColon = trimmedLine.substring(colonIndex + 1);
+      scoresText = afterColon.trim();
+      scoresOffset = lineOffset + colonIndex + 1 + (afterColon.length - afterColon.trimStart().length);
 
-    // Replace commas with periods for decimal parsing
-    // Also handle common separators and noise
-    const normalizedText = scoresText
-      .replace(/,/g, '.')  // German decimal separator
-      .replace(/\s+/g, ' '); // Normalize whitespace
+      const startNumberMatch = name.match(START_NUMBER);
+      if (startNumberMatch) {
+        startNumber = parseInt(startNumberMatch[1], 10);
+        name = startNumberMatch[2].trim();
+        nameRange = { start: nameRange.end - name.length, end: nameRange.end };
+      }
+    }
 
-    // Extract all numbers (including decimals)
-    // This regex handles: 1.5, 1,5 (after normalization), .5, 5.
-    const numbers = normalizedText.match(/\d+\.?\d*|\.\d+/g);
+    const numbers = extractNumbers(scoresText, scoresOffset);
 
     // Be lenient - accept lines with at least 1 number, pad with null for missing scores
-    if (!numbers || numbers.length === 0) {
-      console.warn(`Skipping line "${line}" - no numbers found`);
+    if (numbers.length === 0) {
+      diagnostics.push(createDiagnostic('error', 'skipped-line', lineNumber, lineOffset, lineOffset + trimmedLine.length,
+        'No scores found - this line is skipped'));
       continue;
     }
 
-    const scores: (number | null)[] = numbers.slice(0, 6).map(n => parseFloat(n));
-
     // Validate all extracted scores are valid numbers
-    if (scores.some(s => s !== null && isNaN(s))) {
-      console.warn(`Skipping line "${line}" - contains invalid numbers`);
+    if (numbers.some(n => n.value !== null && isNaN(n.value))) {
+      diagnostics.push(createDiagnostic('error', 'skipped-line', lineNumber, lineOffset, lineOffset + trimmedLine.length,
+        'Contains invalid numbers - this line is skipped'));
       continue;
     }
 
-    // Pad with nulls if we have fewer than 6 scores
-    while (scores.length < 6) {
-      scores.push(null);
+    // A single "/" separates A-scores from B-scores. Lines that use "/" between
+    // every number (e.g. "1.5 / 1.6 / 1.9 - 1.5 / 1.9 / 2.1") are treated as flat.
+    let split: TokenizedLine['split'] = null;
+    const parts = scoresText.split('/');
+    if (parts.length === 2) {
+      const aNumbers = extractNumbers(parts[0], scoresOffset);
+      const bNumbers = extractNumbers(parts[1], scoresOffset + parts[0].length + 1);
+      if (aNumbers.length > 0 && bNumbers.length > 0) {
+        split = { aNumbers, bNumbers };
+      }
     }
 
-    // First 3 are A-scores, last 3 are B-scores
-    const aScores = scores.slice(0, 3) as (number | null)[];
-    const bScores = scores.slice(3, 6) as (number | null)[];
+    const tokenizedLine: TokenizedLine = {
+      lineNumber,
+      length: line.length,
+      name,
+      nameRange,
+      startNumber,
+      numbers,
+      split,
+    };
+    checkSuspiciousValues(tokenizedLine, diagnostics);
+    tokenized.push(tokenizedLine);
+  }
+
+  // Drop segments without any score lines (e.g. no lines before the first header)
+  return segments.filter(segment => segment.lines.length > 0);
+}
+
+/**
+ * All score lines of the input, ignoring segment headers
+ */
+function tokenizeLines(input: string, diagnostics: ParseDiagnostic[] = []): TokenizedLine[] {
+  return tokenizeSegments(input, diagnostics).flatMap(segment => segment.lines);
+}
+
+/**
+ * Detects the panel size from tokenized lines.
+ * Lines with a "/" separator vote for the larger of their two groups,
+ * flat lines with an even number of scores vote for half their count.
+ * The most common vote wins (the larger panel on a draw).
+ */
+function detectJudgeCountFromLines(lines: TokenizedLine[]): number {
+  const votes = new Map<number, number>();
+
+  for (const line of lines) {
+    let candidate: number | null = null;
+    if (line.split) {
+      candidate = Math.max(line.split.aNumbers.length, line.split.bNumbers.length);
+    } else if (line.numbers.length % 2 === 0) {
+      candidate = line.numbers.length / 2;
+    }
+
+    if (candidate !== null) {
+      votes.set(candidate, (votes.get(candidate) ?? 0) + 1);
+    }
+  }
+
+  let judgeCount = DEFAULT_JUDGE_COUNT;
+  let bestVotes = 0;
+  for (const [candidate, count] of votes) {
+    if (count > bestVotes || (count === bestVotes && candidate > judgeCount)) {
+      judgeCount = candidate;
+      bestVotes = count;
+    }
+  }
+
+  return judgeCount;
+}
+
+/**
+ * Takes the first `judgeCount` scores and pads with null for missing judges
+ */
+function toPanel(numbers: NumberToken[], judgeCount: number): (number | null)[] {
+  const scores: (number | null)[] = numbers.slice(0, judgeCount).map(n => n.value);
+  while (scores.length < judgeCount) {
+    scores.push(null);
+  }
+  return scores;
+}
+
+/**
+ * Detects the panel size (number of judges) used in the input text.
+ * Falls back to DEFAULT_JUDGE_COUNT if the input gives no hint.
+ */
+export function detectJudgeCount(input: string): number {
+  return detectJudgeCountFromLines(tokenizeLines(input));
+}
+
+/**
+ * Reports numbers beyond the panel size and missing scores of a line
+ */
+function checkPanelFit(
+  line: TokenizedLine,
+  aNumbers: NumberToken[],
+  bNumbers: NumberToken[],
+  extraNumbers: NumberToken[],
+  judgeCount: number,
+  diagnostics: ParseDiagnostic[]
+) {
+  const judges = `${judgeCount} ${judgeCount === 1 ? 'judge' : 'judges'}`;
+
+  if (extraNumbers.length > 0) {
+    const first = extraNumbers[0];
+    const last = extraNumbers[extraNumbers.length - 1];
+    diagnostics.push(createDiagnostic('warning', 'extra-numbers', line.lineNumber, first.start, last.end,
+      `${extraNumbers.length} extra ${extraNumbers.length === 1 ? 'number' : 'numbers'} ignored - the panel has ${judges}`));
+  }
+
+  const countScores = (numbers: NumberToken[]) =>
+    numbers.slice(0, judgeCount).filter(n => n.value !== null).length;
+  const aCount = countScores(aNumbers);
+  const bCount = countScores(bNumbers);
+  if (aCount < judgeCount || bCount < judgeCount) {
+    const first = line.numbers[0];
+    const last = line.numbers[line.numbers.length - 1];
+    diagnostics.push(createDiagnostic('warning', 'missing-scores', line.lineNumber, first.start, last.end,
+      `Only ${aCount} of ${judgeCount} A-scores and ${bCount} of ${judgeCount} B-scores - missing scores are left empty`));
+  }
+}
+
+/**
+ * Converts tokenized lines into skater scores for the given panel size.
+ * Unnamed lines get "Skater N" names, counted per segment.
+ * The ID comes from the start number if given, otherwise from the input line.
+ * Duplicate display names are kept apart by their IDs and reported.
+ */
+function toSkaterScores(
+  lines: TokenizedLine[],
+  judgeCount: number,
+  diagnostics: ParseDiagnostic[] = []
+): SkaterScores[] {
+  const results: SkaterScores[] = [];
+  const usedIds = new Set<string>();
+  const usedNames = new Set<string>();
+  let unnamedCounter = 1;
+
+  for (const line of lines) {
+    const name = line.name ?? `Skater ${unnamedCounter++}`;
+    const nameRange = line.nameRange ?? { start: 0, end: line.length };
+
+    let id = line.startNumber !== null ? `#${line.startNumber}` : `L${line.lineNumber}`;
+    if (usedIds.has(id)) {
+      diagnostics.push(createDiagnostic('warning', 'duplicate-start-number', line.lineNumber, 0, nameRange.end,
+        `Start number ${line.startNumber} is used twice - this skater is identified by line ${line.lineNumber} instead`));
+      id = `L${line.lineNumber}`;
+    }
+    usedIds.add(id);
+
+    if (usedNames.has(name)) {
+      diagnostics.push(createDiagnostic('warning', 'duplicate-name', line.lineNumber, nameRange.start, nameRange.end,
+        `The name "${name}" is used twice - add start numbers (e.g. "12 ${name}:") to tell them apart`));
+    }
+    usedNames.add(name);
+
+    let aNumbers: NumberToken[];
+    let bNumbers: NumberToken[];
+    let extraNumbers: NumberToken[];
+    if (line.split) {
+      aNumbers = line.split.aNumbers;
+      bNumbers = line.split.bNumbers;
+      extraNumbers = [...aNumbers.slice(judgeCount), ...bNumbers.slice(judgeCount)];
+    } else {
+      aNumbers = line.numbers.slice(0, judgeCount);
+      bNumbers = line.numbers.slice(judgeCount, judgeCount * 2);
+      extraNumbers = line.numbers.slice(judgeCount * 2);
+    }
+    checkPanelFit(line, aNumbers, bNumbers, extraNumbers, judgeCount, diagnostics);
 
     results.push({
+      id,
       name,
-      aScores,
-      bScores
+      ...(line.startNumber !== null && { startNumber: line.startNumber }),
+      aScores: toPanel(aNumbers, judgeCount),
+      bScores: toPanel(bNumbers, judgeCount),
     });
   }
 
   return results;
 }
+
+/**
+ * Parses input text where each line contains:
+ * Name: A1 A2 ... An / B1 B2 ... Bn
+ * OR
+ * Name: A1 A2 ... An B1 B2 ... Bn (first half are A-scores, second half B-scores)
+ * OR
+ * A1 ... An / B1 ... Bn (auto-generates "Skater N" name)
+ * The name may start with a start number ("12 Lena: ..."), which becomes the skater ID.
+ *
+ * The panel size n is taken from options.judgeCount if declared,
+ * otherwise it is detected from the whole input (see detectJudgeCount).
+ * A single "/" decides the A/B split; without it the scores are split in half.
+ * Supports both comma and period as decimal separator
+ * A "?" marks a missing score and keeps the position of the following scores
+ * Any text between numbers (like "und", "and", etc.) is ignored
+ * Segment headers are skipped - use parseSegments to keep segments apart
+ * and to get the diagnostics.
+ */
+export function parseInput(input: string, options: ParseOptions = {}): SkaterScores[] {
+  const lines = tokenizeLines(input);
+  const judgeCount = options.judgeCount ?? detectJudgeCountFromLines(lines);
+  return toSkaterScores(lines, judgeCount);
+}
+
+/**
+ * Parses input text with several competition segments (e.g. Pflicht + Kür).
+ * Each segment starts with a header line "[Name]" or "[Name x2]", where the
+ * optional factor is the segment weight for weighted combination.
+ * Score lines before the first header form a segment of their own, so input
+ * without any header yields a single segment.
+ * The panel size is declared or detected once for the whole competition.
+ *
+ * Problems in the input (skipped lines, extra or missing scores, suspicious
+ * values, duplicate names) are returned as diagnostics with line and column range.
+ */
+export function parseSegments(input: string, options: ParseOptions = {}): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  const segments = tokenizeSegments(input, diagnostics);
+  const judgeCount = options.judgeCount
+    ?? detectJudgeCountFromLines(segments.flatMap(segment => segment.lines));
+
+  const competitionSegments: CompetitionSegment[] = segments.map((segment, index) => ({
+    name: segment.name ?? `Segment ${index + 1}`,
+    weight: segment.weight,
+    skaters: toSkaterScores(segment.lines, judgeCount, diagnostics),
+  }));
+
+  // Skaters that cannot be matched across segments block the overall placement
+  for (const conflict of matchParticipants(competitionSegments).conflicts) {
+    for (const { segment, index } of conflict.skaters) {
+      const line = segments[segment].lines[index];
+      const nameRange = line.nameRange ?? { start: 0, end: line.length };
+      diagnostics.push(
+        createDiagnostic('error', 'ambiguous-participant', line.lineNumber, nameRange.start, nameRange.end, conflict.message)
+      );
+    }
+  }
+
+  diagnostics.sort((a, b) => a.line - b.line || a.startColumn - b.startColumn);
+
+  return { segments: competitionSegments, judgeCount, diagnostics };
+}
+
+/**
+ * Formats a score for the input text, "?" for a missing score
+ */
+function formatScore(score: number | null): string {
+  return score === null ? '?' : String(score);
+}
+
+/**
+ * Formats skaters as input text ("12 Name: A1 A2 A3 / B1 B2 B3"), the inverse of parseInput.
+ * Missing scores are written as "?" so the judges keep their positions.
+ */
+export function formatInput(skaters: Omit<SkaterScores, 'id'>[]): string {
+  return skaters
+    .map(skater => {
+      // A colon would end the name early when parsing the line again
+      const name = skater.name.replace(/:/g, ' ').trim();
+      const prefix = skater.startNumber !== undefined ? `${skater.startNumber} ` : '';
+      const aScores = skater.aScores.map(formatScore).join(' ');
+      const bScores = skater.bScores.map(formatScore).join(' ');
+      return `${prefix}${name}: ${aScores} / ${bScores}`;
+    })
+    .join('\n');
+}
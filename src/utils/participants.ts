@@ -0,0 +1,89 @@
+import type { CompetitionSegment } from '../types/CompetitionSegment';
+import type { SkaterScores } from '../types/SkaterScores';
+
+/**
+ * Skaters that cannot be matched safely across segments
+ */
+export interface ParticipantConflict {
+  message: string; // e.g. '"Lena" is listed 2× in Pflicht - add start numbers to tell these skaters apart'
+  skaters: Array<{ segment: number; index: number }>; // Position of every skater it covers
+}
+
+export interface ParticipantMatch {
+  keys: string[][]; // Participant key of every skater, per segment - unique within a segment
+  conflicts: ParticipantConflict[];
+}
+
+function getBaseKey(skater: SkaterScores): string {
+  return skater.startNumber !== undefined ? `#${skater.startNumber}` : `name:${skater.name}`;
+}
+
+function findSkaters(
+  segments: Pick<CompetitionSegment, 'skaters'>[],
+  matches: (skater: SkaterScores) => boolean
+): ParticipantConflict['skaters'] {
+  return segments.flatMap(({ skaters }, segment) =>
+    skaters.flatMap((skater, index) => (matches(skater) ? [{ segment, index }] : []))
+  );
+}
+
+/**
+ * Identifies the same skater across segments. Line-based IDs differ per segment, so skaters
+ * are matched by start number if given, otherwise by display name.
+ *
+ * The start order changes from segment to segment, so a start number or name listed twice in
+ * a segment cannot be matched to the right skater elsewhere, and a name with a start number in
+ * one segment but none in another may or may not be the same skater. With more than one segment
+ * both are reported as conflicts instead of guessing. Within a segment, repeated entries get
+ * their occurrence as a suffix ("name:Lena/2"), so every skater keeps a key of their own.
+ */
+export function matchParticipants(segments: Pick<CompetitionSegment, 'name' | 'skaters'>[]): ParticipantMatch {
+  const counts = new Map<string, number[]>();
+
+  const keys = segments.map(({ skaters }, segment) => skaters.map(skater => {
+    const base = getBaseKey(skater);
+    const perSegment = counts.get(base) ?? segments.map(() => 0);
+    counts.set(base, perSegment);
+    const occurrence = ++perSegment[segment];
+    return occurrence === 1 ? base : `${base}/${occurrence}`;
+  }));
+
+  const conflicts: ParticipantConflict[] = [];
+  if (segments.length < 2) {
+    return { keys, conflicts };
+  }
+
+  for (const [base, perSegment] of counts) {
+    const repeated = segments.filter((_, segment) => perSegment[segment] > 1);
+    if (repeated.length === 0) continue;
+
+    const where = repeated.map(segment => `${perSegment[segments.indexOf(segment)]}× in ${segment.name}`).join(', ');
+    conflicts.push({
+      message: base.startsWith('#')
+        ? `Start number ${base.slice(1)} is listed ${where} - give every skater their own start number`
+        : `"${base.slice('name:'.length)}" is listed ${where} - add start numbers to tell these skaters apart`,
+      skaters: findSkaters(segments, skater => getBaseKey(skater) === base),
+    });
+  }
+
+  // A name with a start number in one segment and without one in another
+  const unnumbered = new Set(
+    segments.flatMap(({ skaters }) => skaters.filter(skater => skater.startNumber === undefined).map(skater => skater.name))
+  );
+  for (const name of unnumbered) {
+    const listedIn = (numbered: boolean) => segments.filter(({ skaters }) =>
+      skaters.some(skater => skater.name === name && (skater.startNumber !== undefined) === numbered)
+    );
+    const numberedIn = listedIn(true);
+    const unnumberedIn = listedIn(false);
+    if (numberedIn.length === 0 || new Set([...numberedIn, ...unnumberedIn]).size === 1) continue;
+
+    conflicts.push({
+      message: `"${name}" has a start number in ${numberedIn.map(s => s.name).join(', ')} but none in ` +
+        `${unnumberedIn.map(s => s.name).join(', ')} - use the same start number in every segment`,
+      skaters: findSkaters(segments, skater => skater.name === name),
+    });
+  }
+
+  return { keys, conflicts };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+
+import { calculateRankRanges } from './rankRanges';
+import { calculateRankings } from './scoring';
+
+// Nora's judges 2 and 3 have not submitted yet - she can still end up anywhere
+const skaters = [
+  { id: 'L1', name: 'Lena', aScores: [8.0, 8.0, 8.0], bScores: [8.0, 8.0, 8.0] },
+  { id: 'L2', name: 'Marie', aScores: [6.0, 6.0, 6.0], bScores: [6.0, 6.0, 6.0] },
+  { id: 'L3', name: 'Nora', aScores: [5.0, null, null], bScores: [5.0, null, null] },
+  { id: 'L4', name: 'Paul', aScores: [3.0, 3.0, 3.0], bScores: [3.0, 3.0, 3.0] },
+];
+
+describe('calculateRankRanges', () => {
+  it('should bound every placement by the missing scores', () => {
+    const ranges = calculateRankRanges(calculateRankings(skaters));
+
+    expect(ranges.map(({ id, bestRank, worstRank }) => [id, bestRank, worstRank])).toEqual([
+      ['L1', 1, 2],
+      ['L2', 2, 3],
+      ['L4', 3, 4],
+      ['L3', 1, 4],
+    ]);
+  });
+
+  it('should mark clinched podium places', () => {
+    const ranges = calculateRankRanges(calculateRankings(skaters));
+
+    expect(ranges.map(range => range.clinched)).toEqual(['podium', 'podium', null, null]);
+  });
+
+  it('should clinch the win once nobody can catch up', () => {
+    // Nora's missing judges cannot outvote Lena any more
+    const field = skaters.map(skater =>
+      skater.id === 'L3' ? { ...skater, aScores: [5.0, 5.0, null], bScores: [5.0, 5.0, null] } : skater
+    );
+    const [lena] = calculateRankRanges(calculateRankings(field));
+
+    expect(lena).toEqual({ id: 'L1', bestRank: 1, worstRank: 1, clinched: 'win' });
+  });
+
+  it('should keep the current rank without missing scores', () => {
+    const field = skaters.map(skater => ({
+      ...skater,
+      aScores: skater.aScores.map(score => score ?? 4.0),
+      bScores: skater.bScores.map(score => score ?? 4.0),
+    }));
+    const results = calculateRankings(field);
+
+    expect(calculateRankRanges(results).map(({ bestRank, worstRank }) => [bestRank, worstRank]))
+      .toEqual(results.map(({ rank }) => [rank, rank]));
+  });
+
+  it.each([
+    {
+      case: 'A-score known, B-score missing',
+      field: [
+        { id: 'L1', name: 'Lena', aScores: [4.3, 5.9, 4.4], bScores: [5.2, 5.0, 6.6] },
+        { id: 'L2', name: 'Marie', aScores: [5.4, 5.8, 6.2], bScores: [4.5, 4.3, 5.6] },
+        { id: 'L3', name: 'Nora', aScores: [6.9, 4.9, 4.9], bScores: [5.0, null, 5.9] },
+        { id: 'L4', name: 'Paul', aScores: [6.1, 5.3, 4.4], bScores: [4.4, 4.5, 4.5] },
+      ],
+    },
+    {
+      case: 'A- and B-score missing',
+      field: [
+        { id: 'L1', name: 'Lena', aScores: [7.0, 7.0, 5.0], bScores: [4.0, 4.0, 5.0] },
+        { id: 'L2', name: 'Marie', aScores: [4.0, 4.0, 5.5], bScores: [6.5, 6.5, 5.0] },
+        { id: 'L3', name: 'Nora', aScores: [5.0, null, 6.0], bScores: [5.7, null, 6.0] },
+        { id: 'L4', name: 'Paul', aScores: [5.2, 5.2, 5.2], bScores: [5.2, 5.2, 5.2] },
+      ],
+    },
+    {
+      case: 'B-score known, A-score missing for two skaters',
+      field: [
+        { id: 'L1', name: 'Lena', aScores: [7.0, 7.0, 5.0], bScores: [4.0, 4.0, 5.0] },
+        { id: 'L2', name: 'Marie', aScores: [4.0, 4.0, null], bScores: [6.5, 6.5, 5.0] },
+        { id: 'L3', name: 'Nora', aScores: [5.0, null, 6.0], bScores: [5.7, 5.5, 6.0] },
+        { id: 'L4', name: 'Paul', aScores: [5.2, 5.2, 5.2], bScores: [5.2, 5.2, 5.2] },
+      ],
+    },
+  ])('should contain the final placement for every grid fill ($case)', ({ field }) => {
+    // Every score near the entered ones in steps of 0.1, and the extremes
+    const grid = [0, ...Array.from({ length: 36 }, (_, i) => Math.round(35 + i) / 10), 10];
+    const missing = field.flatMap((skater, s) => (['aScores', 'bScores'] as const).flatMap(type =>
+      skater[type].flatMap((score, judge) => (score === null ? [{ s, type, judge }] : []))
+    ));
+    const ranges = calculateRankRanges(calculateRankings(field));
+
+    const check = (filled: typeof field, next: number) => {
+      if (next === missing.length) {
+        for (const { id, rank } of calculateRankings(filled)) {
+          const range = ranges.find(r => r.id === id)!;
+          expect(rank).toBeGreaterThanOrEqual(range.bestRank);
+          expect(rank).toBeLessThanOrEqual(range.worstRank);
+        }
+        return;
+      }
+      const { s, type, judge } = missing[next];
+      for (const value of grid) {
+        check(filled.map((skater, i) => (i === s
+          ? { ...skater, [type]: skater[type].map((score, j) => (j === judge ? value : score)) }
+          : skater)), next + 1);
+      }
+    };
+    check(field, 0);
+  });
+
+  it('should treat scores beyond a shorter score list as missing', () => {
+    // Nora's list ends after judge 1, which is the same as judges 2 and 3 missing
+    const ragged = skaters.map(skater => (skater.id === 'L3' ? { ...skater, aScores: [5.0], bScores: [5.0] } : skater));
+    const ranges = calculateRankRanges(calculateRankings(ragged));
+
+    expect(ranges.every(range => Number.isInteger(range.bestRank) && Number.isInteger(range.worstRank))).toBe(true);
+    expect(ranges).toEqual(calculateRankRanges(calculateRankings(skaters)));
+  });
+});
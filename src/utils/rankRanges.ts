@@ -0,0 +1,217 @@
+import type { JudgeComparison } from '../types/JudgeComparison';
+import type { ClinchedPlacement, RankRange } from '../types/RankRange';
+import type { SkaterResult } from '../types/SkaterResult';
+import type { SkaterScores } from '../types/SkaterScores';
+import { MAX_SCORE } from './parser';
+import { DRIV_2025 } from './rulesets';
+import { compareSkatersByJudge, comparePairwise, getJudgeCount } from './scoring';
+import type { RankingOptions } from './scoring';
+
+/**
+ * Places 1 to 3
+ */
+const PODIUM = 3;
+
+/**
+ * Scores are entered in steps of 0.1, so trying the neighbours of every threshold
+ * covers every possible outcome of a comparison
+ */
+const STEP = 0.1;
+
+function roundToOneDecimal(num: number): number {
+  return Math.round(num * 10) / 10;
+}
+
+/**
+ * The skater with a score for every judge of the panel, missing ones (null, or beyond the end
+ * of a shorter score list) filled in with the given value
+ */
+function fillMissingScores(skater: SkaterScores, judgeCount: number, value: number | null): SkaterScores {
+  const fill = (scores: (number | null)[]) => Array.from({ length: judgeCount }, (_, i) => scores[i] ?? value);
+  return { ...skater, aScores: fill(skater.aScores), bScores: fill(skater.bScores) };
+}
+
+/**
+ * Judges that have not given the skater both scores yet
+ */
+function getOpenJudges(skater: SkaterScores): number[] {
+  return skater.aScores.flatMap((aScore, judgeIdx) => (aScore === null || skater.bScores[judgeIdx] === null ? [judgeIdx] : []));
+}
+
+function getClinchedPlacement(worstRank: number): ClinchedPlacement | null {
+  if (worstRank === 1) return 'win';
+  if (worstRank <= PODIUM) return 'podium';
+  return null;
+}
+
+/**
+ * Valid scores at and next to the given thresholds, and the lowest and highest score
+ */
+function getCandidateScores(thresholds: number[]): number[] {
+  const candidates = [0, MAX_SCORE, ...thresholds.flatMap(value => [value - STEP, value, value + STEP])];
+  return [...new Set(candidates.map(roundToOneDecimal))].filter(value => value >= 0 && value <= MAX_SCORE);
+}
+
+/**
+ * Votes of one judge for y and for x against z, doubled to count a tied judge as 1,
+ * for every way z's missing scores at this judge can be filled in. Encoded as yVotes * 100 + xVotes.
+ */
+function getPossibleJudgeVotes(
+  judgeIdx: number,
+  y: SkaterScores,
+  x: SkaterScores,
+  z: SkaterScores,
+  comparison: JudgeComparison
+): Set<number> {
+  const yB = y.bScores[judgeIdx]!;
+  const yTotal = y.aScores[judgeIdx]! + yB;
+  const xB = x.bScores[judgeIdx]!;
+  const xTotal = x.aScores[judgeIdx]! + xB;
+  const aScore = z.aScores[judgeIdx] ?? null;
+  const bScore = z.bScores[judgeIdx] ?? null;
+
+  const votes = new Set<number>();
+  // With z's A-score known, the B-score also decides where z's total crosses y's and x's totals
+  const bThresholds = aScore !== null ? [yB, xB, yTotal - aScore, xTotal - aScore] : [yB, xB];
+  for (const zB of bScore !== null ? [bScore] : getCandidateScores(bThresholds)) {
+    for (const zA of aScore !== null ? [aScore] : getCandidateScores([yTotal - zB, xTotal - zB])) {
+      const yVotes = 2 * compareSkatersByJudge(yTotal, yB, zA + zB, zB, comparison);
+      const xVotes = 2 * compareSkatersByJudge(xTotal, xB, zA + zB, zB, comparison);
+      votes.add(yVotes * 100 + xVotes);
+    }
+  }
+  return votes;
+}
+
+/**
+ * Doubled votes of a complete skater against z at the judges that have given z both scores.
+ * They do not depend on z's missing scores, so they are counted once per pair.
+ */
+function getDecidedVotes(skater: SkaterScores, z: SkaterScores, openJudges: number[], comparison: JudgeComparison): number {
+  let votes = 0;
+  z.aScores.forEach((zA, judgeIdx) => {
+    if (openJudges.includes(judgeIdx)) return;
+    const zB = z.bScores[judgeIdx]!;
+    const b = skater.bScores[judgeIdx]!;
+    votes += 2 * compareSkatersByJudge(skater.aScores[judgeIdx]! + b, b, zA! + zB, zB, comparison);
+  });
+  return votes;
+}
+
+/**
+ * Largest possible value of outcome(y against z) - outcome(x against z) over all ways
+ * to fill in z's missing scores, starting from the decided votes of y and x against z.
+ * Judges are independent, so the possible vote sums are collected judge by judge,
+ * only for the judges where z has a missing score.
+ */
+function getMaxOutcomeDifference(
+  y: SkaterScores,
+  x: SkaterScores,
+  z: SkaterScores,
+  decided: { y: number; x: number; openJudges: number[] },
+  comparison: JudgeComparison
+): number {
+  const judgeCount = z.aScores.length;
+  let sums = new Set([decided.y * 100 + decided.x]);
+  for (const judgeIdx of decided.openJudges) {
+    const next = new Set<number>();
+    for (const vote of getPossibleJudgeVotes(judgeIdx, y, x, z, comparison)) {
+      for (const sum of sums) next.add(sum + vote);
+    }
+    sums = next;
+  }
+
+  // A majority of the doubled votes is more than the number of judges
+  const outcome = (doubledVotes: number) => (doubledVotes > judgeCount ? 1 : doubledVotes < judgeCount ? 0 : 0.5);
+  return Math.max(...[...sums].map(sum => outcome(Math.floor(sum / 100)) - outcome(sum % 100)));
+}
+
+/**
+ * Best and worst final placement of every skater still possible once the missing scores
+ * are entered, each anywhere between 0 and MAX_SCORE. Returned in the order of the results.
+ *
+ * Skater y can only end up ahead of x if M.V.(y) - M.V.(x) can reach 0. Raising a score never
+ * hurts a skater in a comparison, so this difference is largest with y's missing scores at the
+ * maximum and x's at 0; the missing scores of every other skater only affect their own
+ * comparisons and are chosen separately. Ties in M.V. count as possible either way, since the
+ * tie-breaks may still change. The placements are bounded pair by pair, so a range is always
+ * safe but can be wider than the placements one set of scores can actually produce.
+ * Scores beyond the end of a shorter score list count as missing.
+ * Without missing scores every range is the current rank.
+ */
+export function calculateRankRanges(results: SkaterResult[], options: RankingOptions = {}): RankRange[] {
+  const judgeCount = getJudgeCount(...results);
+  const actual = results.map(skater => fillMissingScores(skater, judgeCount, null));
+  const openJudges = actual.map(getOpenJudges);
+  const incomplete = openJudges.map(judges => judges.length > 0);
+  if (!incomplete.some(Boolean)) {
+    return results.map(({ id, rank }) => ({ id, bestRank: rank, worstRank: rank, clinched: getClinchedPlacement(rank) }));
+  }
+
+  const comparison = (options.ruleset ?? DRIV_2025).judgeComparison;
+  const high = actual.map(skater => fillMissingScores(skater, judgeCount, MAX_SCORE));
+  const low = actual.map(skater => fillMissingScores(skater, judgeCount, 0));
+
+  // Votes against every incomplete skater at the judges that have already scored them
+  const decidedVotes = (skaters: SkaterScores[]) =>
+    skaters.map(skater => actual.map((z, j) => (incomplete[j] ? getDecidedVotes(skater, z, openJudges[j], comparison) : 0)));
+  const highDecided = decidedVotes(high);
+  const lowDecided = decidedVotes(low);
+
+  // Comparison outcomes with the missing scores at the maximum (high) or 0 (low)
+  const compareAll = (skaters: SkaterScores[], opponents: SkaterScores[]) =>
+    skaters.map((skater, i) => opponents.map((opponent, j) => (i === j ? 0 : comparePairwise(skater, opponent, options))));
+  const highVsLow = compareAll(high, low);
+  const highVsHigh = compareAll(high, high);
+  const lowVsLow = compareAll(low, low);
+  const lowVsHigh = compareAll(low, high);
+  const highVsActual = compareAll(high, actual);
+  const lowVsActual = compareAll(low, actual);
+
+  // Upper bound of M.V.(y) - M.V.(x), exact only as far as needed for its sign
+  const maxLead = (y: number, x: number) => {
+    let lead = 2 * highVsLow[y][x] - 1;
+    const undecided: Array<{ z: number; atLeast: number }> = [];
+    let headroom = 0;
+    for (let z = 0; z < results.length; z++) {
+      if (z === x || z === y) continue;
+      if (!incomplete[z]) {
+        lead += highVsActual[y][z] - lowVsActual[x][z];
+        continue;
+      }
+      // The difference is largest with z's missing scores filled in somewhere between 0 and the
+      // maximum, at most y's outcome against z at 0 minus x's against z at the maximum
+      const atLeast = Math.max(highVsLow[y][z] - lowVsLow[x][z], highVsHigh[y][z] - lowVsHigh[x][z]);
+      const atMost = highVsLow[y][z] - lowVsHigh[x][z];
+      lead += atLeast;
+      if (atMost > atLeast) {
+        undecided.push({ z, atLeast });
+        headroom += atMost - atLeast;
+      }
+    }
+
+    // Only the sign is used: stop once the lead is surely non-negative or surely negative
+    for (const { z, atLeast } of undecided) {
+      if (lead >= 0 || lead + headroom < 0) break;
+      const decided = { y: highDecided[y][z], x: lowDecided[x][z], openJudges: openJudges[z] };
+      lead += getMaxOutcomeDifference(high[y], low[x], actual[z], decided, comparison) - atLeast;
+      headroom -= highVsLow[y][z] - lowVsHigh[x][z] - atLeast;
+    }
+    return lead;
+  };
+
+  const leads = results.map((_, y) => results.map((_, x) => (x === y ? 0 : maxLead(y, x))));
+
+  return results.map((result, x) => {
+    let surelyAhead = 0;
+    let possiblyAhead = 0;
+    results.forEach((_, y) => {
+      if (y === x) return;
+      if (leads[x][y] < 0) surelyAhead++;
+      if (leads[y][x] >= 0) possiblyAhead++;
+    });
+
+    const worstRank = 1 + possiblyAhead;
+    return { id: result.id, bestRank: 1 + surelyAhead, worstRank, clinched: getClinchedPlacement(worstRank) };
+  });
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+
+import type { MethodRank } from '../types/RankingMethod';
+import type { SkaterScores } from '../types/SkaterScores';
+import {
+  compareRankingMethods,
+  KEMENY_YOUNG_MAX_SKATERS,
+  rankByBorda,
+  rankByKemenyYoung,
+  rankBySchulze,
+  rankBySum,
+  rankByTrimmedMean,
+} from './rankingMethods';
+import { calculateRankings, countPairwiseVotes } from './scoring';
+import * as scenarios from './test-generators';
+
+const ranksOf = (ranks: MethodRank[]) => Object.fromEntries(ranks.map(({ id, rank }) => [id, rank]));
+
+/**
+ * Skater with the same total from every judge in the given judge orders: 9 for first place, 8 for second, ...
+ */
+function fromJudgeOrders(orders: string[][]): SkaterScores[] {
+  return orders[0].map(id => {
+    const scores = orders.map(order => (9 - order.indexOf(id)) / 2);
+    return { id, name: id, aScores: scores, bScores: scores };
+  });
+}
+
+// Anna wins judges 1 and 2, Ben adds up to more with his even scores
+const skaters = [
+  { id: 'L1', name: 'Anna', aScores: [5.0, 5.0, 2.0], bScores: [5.0, 5.0, 2.0] },
+  { id: 'L2', name: 'Ben', aScores: [4.5, 4.5, 4.5], bScores: [4.5, 4.5, 4.5] },
+  { id: 'L3', name: 'Clara', aScores: [2.0, 2.0, 1.0], bScores: [2.0, 2.0, 1.0] },
+];
+
+// Majority cycle A > B (5:2), B > C (5:2), C > A (4:3)
+const cycle = fromJudgeOrders([
+  ['A', 'B', 'C'], ['A', 'B', 'C'], ['A', 'B', 'C'],
+  ['B', 'C', 'A'], ['B', 'C', 'A'],
+  ['C', 'A', 'B'], ['C', 'A', 'B'],
+]);
+
+describe('rankBySum', () => {
+  it('should rank by the added up scores', () => {
+    expect(ranksOf(rankBySum(skaters))).toEqual({ L1: 2, L2: 1, L3: 3 });
+    expect(rankBySum(skaters).map(rank => rank.score)).toEqual([24, 27, 10]);
+  });
+
+  it('should share the place of equal sums', () => {
+    const ranks = rankBySum(scenarios.createPerfectTie());
+
+    expect(ranks.map(rank => rank.rank)).toEqual([1, 1, 3]);
+  });
+});
+
+describe('rankByTrimmedMean', () => {
+  it('should drop the highest and lowest score from 5 judges', () => {
+    const field = [
+      { id: 'L1', name: 'Anna', aScores: [5.0, 5.0, 5.0, 5.0, 0.0], bScores: [5.0, 5.0, 5.0, 5.0, 0.0] },
+      { id: 'L2', name: 'Ben', aScores: [4.5, 4.5, 4.5, 4.5, 4.5], bScores: [4.5, 4.5, 4.5, 4.5, 4.5] },
+    ];
+
+    // Anna's 0 only counts in the sum
+    expect(ranksOf(rankBySum(field))).toEqual({ L1: 2, L2: 1 });
+    expect(ranksOf(rankByTrimmedMean(field))).toEqual({ L1: 1, L2: 2 });
+    expect(rankByTrimmedMean(field)[0].score).toBe(10);
+  });
+});
+
+describe('rankByBorda', () => {
+  it('should give a point for every skater a judge placed lower', () => {
+    const ranks = rankByBorda(skaters);
+
+    expect(ranks.map(rank => rank.score)).toEqual([5, 4, 0]);
+    expect(ranksOf(ranks)).toEqual({ L1: 1, L2: 2, L3: 3 });
+  });
+
+  it('should split the point of skaters a judge placed equal', () => {
+    const ranks = rankByBorda(scenarios.createPairwisePerfectTie());
+
+    expect(ranks.map(rank => rank.score)).toEqual([1.5, 1.5]);
+  });
+});
+
+describe('rankBySchulze', () => {
+  it('should break a majority cycle at its weakest majority', () => {
+    const ranks = rankBySchulze(cycle);
+
+    expect(ranksOf(ranks)).toEqual({ A: 1, B: 2, C: 3 });
+    expect(ranks.map(rank => rank.score)).toEqual([2, 1, 0]);
+  });
+
+  it('should rank a field without cycles like its majorities', () => {
+    const field = scenarios.createLinearRanking(5, 3);
+    const official = ranksOf(calculateRankings(field));
+
+    expect(ranksOf(rankBySchulze(field))).toEqual(official);
+  });
+});
+
+describe('rankByKemenyYoung', () => {
+  it('should find the order agreeing with the most judge preferences', () => {
+    expect(ranksOf(rankByKemenyYoung(cycle))).toEqual({ A: 1, B: 2, C: 3 });
+  });
+
+  it('should match a search of every order', () => {
+    const field = scenarios.createLinearRanking(6, 5);
+    const votes = field.map(skater => field.map(other => (skater === other ? 0 : countPairwiseVotes(skater, other))));
+    const agreement = (order: number[]) =>
+      order.reduce((sum, skaterIdx, position) =>
+        sum + order.slice(position + 1).reduce((pairs, lowerIdx) => pairs + votes[skaterIdx][lowerIdx], 0), 0);
+    const permutations = (items: number[]): number[][] =>
+      items.length <= 1 ? [items] : items.flatMap(item => permutations(items.filter(other => other !== item)).map(rest => [item, ...rest]));
+
+    const ranks = rankByKemenyYoung(field);
+    const order = field.map((_, i) => i).sort((a, b) => ranks[a].rank - ranks[b].rank);
+    const best = Math.max(...permutations(field.map((_, i) => i)).map(agreement));
+
+    expect(agreement(order)).toBe(best);
+  });
+
+  it('should share the place of skaters no judge separates', () => {
+    const ranks = rankByKemenyYoung(scenarios.createPerfectTie());
+
+    expect(ranks.map(rank => rank.rank)).toEqual([1, 1, 3]);
+  });
+
+  it('should reject fields too large for the exact search', () => {
+    const field = Array.from({ length: KEMENY_YOUNG_MAX_SKATERS + 1 }, (_, i) => ({
+      id: `L${i}`, name: `Skater ${i}`, aScores: [5.0], bScores: [5.0],
+    }));
+
+    expect(() => rankByKemenyYoung(field)).toThrow('Kemeny-Young is limited');
+  });
+});
+
+describe('compareRankingMethods', () => {
+  it('should list every method next to the official rank', () => {
+    const comparison = compareRankingMethods(calculateRankings(skaters));
+
+    expect(comparison.methods).toEqual(['sum', 'trimmed-mean', 'borda', 'schulze', 'kemeny-young']);
+    expect(comparison.rows.map(row => [row.name, row.rank, row.ranks.sum?.rank])).toEqual([
+      ['Anna', 1, 2],
+      ['Ben', 2, 1],
+      ['Clara', 3, 3],
+    ]);
+  });
+
+  it('should leave out Kemeny-Young for large fields', () => {
+    const field = Array.from({ length: KEMENY_YOUNG_MAX_SKATERS + 1 }, (_, i) => ({
+      id: `L${i}`, name: `Skater ${i}`, aScores: [5.0 - i * 0.1], bScores: [5.0],
+    }));
+    const comparison = compareRankingMethods(calculateRankings(field));
+
+    expect(comparison.methods).not.toContain('kemeny-young');
+    expect(comparison.rows[0].ranks['kemeny-young']).toBeUndefined();
+  });
+});
@@ -0,0 +1,170 @@
+import type { MethodComparison, MethodRank, RankingMethod } from '../types/RankingMethod';
+import type { SkaterResult } from '../types/SkaterResult';
+import type { SkaterScores } from '../types/SkaterScores';
+import { calculateSkaterTotals, countPairwiseVotes } from './scoring';
+import type { RankingOptions } from './scoring';
+
+/**
+ * Largest field Kemeny-Young is computed for: the exact search grows with 2^n
+ */
+export const KEMENY_YOUNG_MAX_SKATERS = 12;
+
+/**
+ * Methods of the comparison, in display order
+ */
+export const RANKING_METHODS: RankingMethod[] = ['sum', 'trimmed-mean', 'borda', 'schulze', 'kemeny-young'];
+
+/**
+ * Ranks by score, higher is better. Equal scores share the better rank, e.g. 1, 1, 3.
+ */
+function rankByScores(skaters: SkaterScores[], scores: number[]): MethodRank[] {
+  return skaters.map((skater, i) => ({
+    id: skater.id,
+    rank: 1 + scores.filter(score => score > scores[i]).length,
+    score: scores[i],
+  }));
+}
+
+/**
+ * votes[i][j]: judges preferring skater i over skater j, 0.5 for every tied judge
+ */
+function calculateVotes(skaters: SkaterScores[], options: RankingOptions): number[][] {
+  return skaters.map((skater, i) =>
+    skaters.map((opponent, j) => (i === j ? 0 : countPairwiseVotes(skater, opponent, options)))
+  );
+}
+
+/**
+ * Ranking by the total score: the sum of every judge's A + B, as if the scores were simply added up
+ */
+export function rankBySum(skaters: SkaterScores[], options: RankingOptions = {}): MethodRank[] {
+  return rankByScores(skaters, skaters.map(skater => calculateSkaterTotals(skater, options).totalScore));
+}
+
+/**
+ * ISU-style ranking by the trimmed mean A-score + trimmed mean B-score. From 5 judges on,
+ * the highest and lowest score of each are dropped.
+ */
+export function rankByTrimmedMean(skaters: SkaterScores[], options: RankingOptions = {}): MethodRank[] {
+  return rankByScores(skaters, skaters.map(skater => calculateSkaterTotals(skater, options).trimmedMeanScore));
+}
+
+/**
+ * Borda count on the judges' placements: every judge gives a skater one point for each
+ * skater they placed lower and half a point for each skater they placed equal.
+ */
+export function rankByBorda(skaters: SkaterScores[], options: RankingOptions = {}): MethodRank[] {
+  const votes = calculateVotes(skaters, options);
+  return rankByScores(skaters, votes.map(row => row.reduce((sum, vote) => sum + vote, 0)));
+}
+
+/**
+ * Schulze method on the judges' pairwise preferences. A pairwise majority is as strong as
+ * the judges behind it (winning votes); a path is as strong as its weakest majority. Skater X
+ * ranks ahead of Y if the strongest path from X to Y beats the strongest path back. The score
+ * is the number of skaters beaten this way.
+ */
+export function rankBySchulze(skaters: SkaterScores[], options: RankingOptions = {}): MethodRank[] {
+  const votes = calculateVotes(skaters, options);
+  const n = skaters.length;
+
+  // Widest paths (Floyd-Warshall)
+  const strength = votes.map((row, i) => row.map((vote, j) => (vote > votes[j][i] ? vote : 0)));
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      if (i === k) continue;
+      for (let j = 0; j < n; j++) {
+        if (j === i || j === k) continue;
+        strength[i][j] = Math.max(strength[i][j], Math.min(strength[i][k], strength[k][j]));
+      }
+    }
+  }
+
+  return skaters.map((skater, i) => {
+    let beaten = 0;
+    let beatenBy = 0;
+    for (let j = 0; j < n; j++) {
+      if (strength[i][j] > strength[j][i]) beaten++;
+      if (strength[j][i] > strength[i][j]) beatenBy++;
+    }
+    return { id: skater.id, rank: 1 + beatenBy, score: beaten };
+  });
+}
+
+/**
+ * Kemeny-Young method: the order of the field that agrees with the most judge preferences
+ * over all pairs, found exactly by dynamic programming over the sets of skaters placed first.
+ * Among equally good orders the first found is taken, so the result is deterministic;
+ * neighbours whose swap leaves the order equally good share a placement.
+ * Throws for fields larger than KEMENY_YOUNG_MAX_SKATERS.
+ */
+export function rankByKemenyYoung(skaters: SkaterScores[], options: RankingOptions = {}): MethodRank[] {
+  const n = skaters.length;
+  if (n > KEMENY_YOUNG_MAX_SKATERS) {
+    throw new Error(`Kemeny-Young is limited to ${KEMENY_YOUNG_MAX_SKATERS} skaters, got ${n}`);
+  }
+  const votes = calculateVotes(skaters, options);
+
+  // best[set]: most agreements with the skaters of the set placed first, last[set]: the last of them
+  const best = new Float64Array(1 << n).fill(-Infinity);
+  const last = new Int8Array(1 << n).fill(-1);
+  best[0] = 0;
+  for (let set = 0; set < 1 << n; set++) {
+    for (let k = 0; k < n; k++) {
+      if (set & (1 << k)) continue;
+      let agreement = best[set];
+      for (let i = 0; i < n; i++) {
+        if (set & (1 << i)) agreement += votes[i][k];
+      }
+      const next = set | (1 << k);
+      if (agreement > best[next]) {
+        best[next] = agreement;
+        last[next] = k;
+      }
+    }
+  }
+
+  const order: number[] = [];
+  for (let set = (1 << n) - 1; set > 0; set &= ~(1 << last[set])) {
+    order.unshift(last[set]);
+  }
+
+  const ranks = new Array<number>(n);
+  order.forEach((skaterIdx, position) => {
+    const previous = order[position - 1];
+    const shared = previous !== undefined && votes[previous][skaterIdx] === votes[skaterIdx][previous];
+    ranks[skaterIdx] = shared ? ranks[previous] : position + 1;
+  });
+  return skaters.map((skater, i) => ({ id: skater.id, rank: ranks[i] }));
+}
+
+const METHOD_FUNCTIONS: Record<RankingMethod, (skaters: SkaterScores[], options: RankingOptions) => MethodRank[]> = {
+  sum: rankBySum,
+  'trimmed-mean': rankByTrimmedMean,
+  borda: rankByBorda,
+  schulze: rankBySchulze,
+  'kemeny-young': rankByKemenyYoung,
+};
+
+/**
+ * Ranks the field of the official results with every alternative method. Kemeny-Young is
+ * left out for fields larger than KEMENY_YOUNG_MAX_SKATERS.
+ */
+export function compareRankingMethods(results: SkaterResult[], options: RankingOptions = {}): MethodComparison {
+  const methods = RANKING_METHODS.filter(method => method !== 'kemeny-young' || results.length <= KEMENY_YOUNG_MAX_SKATERS);
+  const ranksByMethod = methods.map(method => {
+    const ranks = METHOD_FUNCTIONS[method](results, options);
+    return [method, new Map(ranks.map(rank => [rank.id, rank]))] as const;
+  });
+
+  return {
+    methods,
+    rows: [...results].sort((a, b) => a.rank - b.rank).map(result => ({
+      id: result.id,
+      name: result.name,
+      ...(result.startNumber !== undefined && { startNumber: result.startNumber }),
+      rank: result.rank,
+      ranks: Object.fromEntries(ranksByMethod.map(([method, ranks]) => [method, ranks.get(result.id)!])),
+    })),
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+
+import { DRIV_2025, findRulesetByKey, getRuleset, getRulesetKey, getRulesets, registerRuleset } from './rulesets';
+
+describe('Ruleset registry', () => {
+  it('should include DRIV 2025 as built-in ruleset', () => {
+    expect(getRulesets()).toContain(DRIV_2025);
+    expect(getRuleset('driv-2025', 1)).toBe(DRIV_2025);
+  });
+
+  it('should build keys from id and version', () => {
+    expect(getRulesetKey(DRIV_2025)).toBe('driv-2025@1');
+  });
+
+  it('should find rulesets by key, with or without version', () => {
+    expect(findRulesetByKey('driv-2025@1')).toBe(DRIV_2025);
+    expect(findRulesetByKey('driv-2025')).toBe(DRIV_2025);
+    expect(findRulesetByKey('driv-2025@99')).toBeUndefined();
+    expect(findRulesetByKey('unknown')).toBeUndefined();
+  });
+
+  it('should return the latest version when no version is given', () => {
+    registerRuleset({ ...DRIV_2025, id: 'test-versions', version: 1 });
+    registerRuleset({ ...DRIV_2025, id: 'test-versions', version: 3 });
+    registerRuleset({ ...DRIV_2025, id: 'test-versions', version: 2 });
+
+    expect(getRuleset('test-versions')?.version).toBe(3);
+    expect(getRuleset('test-versions', 2)?.version).toBe(2);
+  });
+
+  it('should reject a version that is already registered', () => {
+    expect(() => registerRuleset({ ...DRIV_2025 })).toThrow('Ruleset driv-2025@1 is already registered');
+  });
+
+  it('should reject a tie-break chain that repeats a level', () => {
+    expect(() => registerRuleset({
+      ...DRIV_2025,
+      id: 'test-repeated-level',
+      tieBreakChain: ['direct-comparison', 'direct-comparison'],
+    })).toThrow('uses a tie-break level twice');
+  });
+});
@@ -0,0 +1,99 @@
+import type { Ruleset } from '../types/Ruleset';
+
+/**
+ * DRIV Wertungskriterien Einzellaufen Kür (01/2025), see SCORING.md
+ */
+export const DRIV_2025: Ruleset = {
+  id: 'driv-2025',
+  version: 1,
+  name: 'DRIV 2025',
+  description: 'Judge total with B-score fallback; tied votes, B-score sum, votes against all, trimmed-mean total',
+  judgeComparison: 'total-then-b',
+  tieBreakChain: ['direct-comparison', 'b-score-sum', 'comparison-all', 'total-score'],
+  totalScoreMethod: 'trimmed-mean',
+};
+
+const BUILT_IN_RULESETS: Ruleset[] = [
+  DRIV_2025,
+  {
+    id: 'driv-2025-sum',
+    version: 1,
+    name: 'DRIV 2025 (total as sum)',
+    description: 'As DRIV 2025, but the last tie-break compares the sum of all judge totals',
+    judgeComparison: 'total-then-b',
+    tieBreakChain: ['direct-comparison', 'b-score-sum', 'comparison-all', 'total-score'],
+    totalScoreMethod: 'sum',
+  },
+  {
+    id: 'majority-total-only',
+    version: 1,
+    name: 'Majority without B-score fallback',
+    description: 'Equal judge totals are a tie; tied votes, votes against all, sum of judge totals',
+    judgeComparison: 'total-only',
+    tieBreakChain: ['direct-comparison', 'comparison-all', 'total-score'],
+    totalScoreMethod: 'sum',
+  },
+  {
+    id: 'majority-b-precedence',
+    version: 1,
+    name: 'Majority with B-score precedence',
+    description: 'Each judge decides by the B-score first; B-score sum before tied votes, trimmed-mean total',
+    judgeComparison: 'b-then-total',
+    tieBreakChain: ['b-score-sum', 'direct-comparison', 'comparison-all', 'total-score'],
+    totalScoreMethod: 'trimmed-mean',
+  },
+];
+
+const registry = new Map<string, Ruleset>();
+
+/**
+ * Key of a ruleset version, e.g. "driv-2025@1"
+ */
+export function getRulesetKey(ruleset: Pick<Ruleset, 'id' | 'version'>): string {
+  return `${ruleset.id}@${ruleset.version}`;
+}
+
+/**
+ * Adds a ruleset (or a new version of one) to the registry.
+ * Throws if the same id and version is already registered.
+ */
+export function registerRuleset(ruleset: Ruleset) {
+  const key = getRulesetKey(ruleset);
+  if (registry.has(key)) {
+    throw new Error(`Ruleset ${key} is already registered`);
+  }
+  if (ruleset.tieBreakChain.length !== new Set(ruleset.tieBreakChain).size) {
+    throw new Error(`Ruleset ${key} uses a tie-break level twice`);
+  }
+  registry.set(key, ruleset);
+}
+
+BUILT_IN_RULESETS.forEach(registerRuleset);
+
+/**
+ * All registered rulesets, every version of an id
+ */
+export function getRulesets(): Ruleset[] {
+  return [...registry.values()];
+}
+
+/**
+ * Finds a ruleset by id and version, or the latest version of the id if no version is given
+ */
+export function getRuleset(id: string, version?: number): Ruleset | undefined {
+  if (version !== undefined) {
+    return registry.get(getRulesetKey({ id, version }));
+  }
+  return getRulesets()
+    .filter(ruleset => ruleset.id === id)
+    .reduce<Ruleset | undefined>((latest, ruleset) => (!latest || ruleset.version > latest.version ? ruleset : latest), undefined);
+}
+
+/**
+ * Finds a ruleset by key ("driv-2025@1", or "driv-2025" for the latest version)
+ */
+export function findRulesetByKey(key: string): Ruleset | undefined {
+  const match = key.match(/^(.+?)(?:@(\d+))?$/);
+  if (!match) return undefined;
+  return getRuleset(match[1], match[2] !== undefined ? Number(match[2]) : undefined);
+}
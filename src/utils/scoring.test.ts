@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 
-import { calculateRankings } from './scoring';
+import type { Ruleset } from '../types/Ruleset';
+import { DRIV_2025, getRuleset } from './rulesets';
+import { calculateRankings, calculateRankingsWithTrace, calculateTrimmedMean } from './scoring';
 import * as scenarios from './test-generators';
 
 /**
@@ -40,6 +42,21 @@ describe('Score Processing', () => {
     expect(skaterA.totalScore).toBeCloseTo(expectedTotal, 1);
   });
 
+  it('should keep later judges when an earlier judge score is missing', () => {
+    const tournament = [
+      { id: 'SkaterA', name: 'SkaterA', aScores: [null, 3.0, 3.0, 3.0, 3.0], bScores: [null, 3.0, 3.0, 3.0, 3.0] },
+      { id: 'SkaterB', name: 'SkaterB', aScores: [2.0, 2.0, 2.0, 2.0, 2.0], bScores: [2.0, 2.0, 2.0, 2.0, 2.0] },
+    ];
+    const results = calculateRankings(tournament);
+
+    // SkaterA wins judges 2-5, so the missing first score must not drop judge 5
+    const h2h = results[0].headToHeadResults!.find(h => h.opponent === 'SkaterB')!;
+    expect(results[0].name).toBe('SkaterA');
+    expect(h2h.skaterVotes).toBe(4);
+    expect(h2h.opponentVotes).toBe(1);
+    expect(results[0].totalScore).toBeCloseTo(24.0, 1);
+  });
+
   it('should handle various judge counts correctly', () => {
     [1, 2, 3, 5, 7].forEach(judgeCount => {
       const tournament = scenarios.createLinearRanking(4, judgeCount);
@@ -73,11 +90,13 @@ describe('Majority Victories', () => {
     // Critical test: Highest total score does NOT guarantee victory
     const tournament = [
       {
+        id: 'Alice',
         name: 'Alice',
         aScores: [4.0, 3.0, 4.0],  // Wins judges 0,2
         bScores: [4.0, 3.0, 4.0]   // Judge totals: [8, 6, 8]
       },
       {
+        id: 'Bob',
         name: 'Bob',
         aScores: [3.5, 5.0, 3.5],  // Wins judge 1 (with highest score 10!)
         bScores: [3.5, 5.0, 3.5]   // Judge totals: [7, 10, 7]
@@ -121,8 +140,10 @@ describe('Majority Victories', () => {
     // Head-to-head should show no winner
     const h2h = results[0].headToHeadResults!.find(h => h.opponent === 'SkaterB')!;
     expect(h2h.won).toBe(false);
+    expect(h2h.outcome).toBe('draw');
     expect(h2h.skaterVotes).toBe(0);
     expect(h2h.opponentVotes).toBe(0);
+    expect(h2h.judgeOutcomes).toEqual(['draw', 'draw', 'draw']);
   });
 
   it('should award 1 point for majority victory (2-1 split)', () => {
@@ -135,8 +156,14 @@ describe('Majority Victories', () => {
 
     const h2h = results[0].headToHeadResults!.find(h => h.opponent === 'SkaterB')!;
     expect(h2h.won).toBe(true);
+    expect(h2h.outcome).toBe('win');
     expect(h2h.skaterVotes).toBe(2);
     expect(h2h.opponentVotes).toBe(1);
+    expect(h2h.judgeOutcomes.filter(outcome => outcome === 'win')).toHaveLength(2);
+    expect(h2h.judgeOutcomes.filter(outcome => outcome === 'loss')).toHaveLength(1);
+
+    const reverse = results[1].headToHeadResults!.find(h => h.opponent === 'SkaterA')!;
+    expect(reverse.outcome).toBe('loss');
   });
 
   it('should handle circular preferences (A>B, B>C, C>A)', () => {
@@ -254,11 +281,68 @@ describe('Tie-Breaking Hierarchy', () => {
       expect(skaterA.majorityVictories).toBe(skaterB.majorityVictories);
       expect(skaterA.totalScore).toBe(skaterB.totalScore);
 
-      // Should both rank in top 2
-      expect(skaterA.rank).toBeLessThanOrEqual(2);
-      expect(skaterB.rank).toBeLessThanOrEqual(2);
+      // Both share first place, second place is skipped
+      expect(skaterA.rank).toBe(1);
+      expect(skaterB.rank).toBe(1);
+      expect(results.find(r => r.name === 'SkaterC')!.rank).toBe(3);
+    });
+
+    it('should mark shared placements with tie-break level none', () => {
+      const results = calculateRankings(scenarios.createPerfectTie());
+
+      expect(results.map(r => r.tieBreakLevel)).toEqual(['none', 'none', undefined]);
+    });
+
+    it('should skip the placements after a shared one in the middle of the field', () => {
+      const tournament = [
+        { id: 'L1', name: 'Anna', aScores: [6.0, 6.0, 6.0], bScores: [6.0, 6.0, 6.0] },
+        { id: 'L2', name: 'Ben', aScores: [5.0, 5.0, 5.0], bScores: [5.0, 5.0, 5.0] },
+        { id: 'L3', name: 'Clara', aScores: [4.0, 4.0, 4.0], bScores: [4.0, 4.0, 4.0] },
+        { id: 'L4', name: 'David', aScores: [4.0, 4.0, 4.0], bScores: [4.0, 4.0, 4.0] },
+        { id: 'L5', name: 'Emma', aScores: [3.0, 3.0, 3.0], bScores: [3.0, 3.0, 3.0] },
+      ];
+
+      expect(calculateRankings(tournament).map(r => [r.name, r.rank])).toEqual([
+        ['Anna', 1], ['Ben', 2], ['Clara', 3], ['David', 3], ['Emma', 5],
+      ]);
+    });
+
+    it('should share the placement when the same scores are summed in a different judge order', () => {
+      // 5.1 + 5.2 + 5.3 is 15.600000000000001 in floating point, 5.3 + 5.2 + 5.1 is 15.6
+      const tournament = [
+        { id: 'L1', name: 'Anna', aScores: [5.0, 5.0, 5.0], bScores: [5.1, 5.2, 5.3] },
+        { id: 'L2', name: 'Ben', aScores: [5.0, 5.0, 5.0], bScores: [5.3, 5.2, 5.1] },
+      ];
+
+      expect(calculateRankings(tournament).map(r => [r.name, r.rank, r.tieBreakLevel])).toEqual([
+        ['Anna', 1, 'none'], ['Ben', 1, 'none'],
+      ]);
     });
   });
+
+  describe('Input Order', () => {
+    const rankById = (results: ReturnType<typeof calculateRankings>) =>
+      Object.fromEntries(results.map(r => [r.id, r.rank]));
+
+    const tournaments = {
+      'perfect tie': scenarios.createPerfectTie(),
+      'direct comparison tie': scenarios.createDirectComparisonTie(),
+      'B-score sum tie': scenarios.createBScoreSumTie(),
+      'comparison with all tie': scenarios.createComparisonWithAllTie(),
+      'total score tie': scenarios.createTotalScoreTie(),
+      'circular preferences': scenarios.createCircularPreferences(),
+    };
+
+    for (const [name, tournament] of Object.entries(tournaments)) {
+      it(`should not depend on the input order (${name})`, () => {
+        const expected = rankById(calculateRankings(tournament));
+
+        expect(rankById(calculateRankings([...tournament].reverse()))).toEqual(expected);
+        // Rotate by one
+        expect(rankById(calculateRankings([...tournament.slice(1), tournament[0]]))).toEqual(expected);
+      });
+    }
+  });
 });
 
 describe('SCORING.md Example', () => {
@@ -350,6 +434,141 @@ describe('Edge Cases and Validation', () => {
   });
 });
 
+describe('Skater Identity', () => {
+  it('should not merge skaters with the same name', () => {
+    const tournament = [
+      { id: 'L1', name: 'Lena', aScores: [3.0, 3.0, 3.0], bScores: [3.0, 3.0, 3.0] },
+      { id: 'L2', name: 'Lena', aScores: [2.0, 2.0, 2.0], bScores: [2.0, 2.0, 2.0] },
+      { id: 'L3', name: 'Marie', aScores: [1.0, 1.0, 1.0], bScores: [1.0, 1.0, 1.0] },
+    ];
+    const results = calculateRankings(tournament);
+
+    expect(results.map(r => r.id)).toEqual(['L1', 'L2', 'L3']);
+    expect(results.map(r => r.majorityVictories)).toEqual([2, 1, 0]);
+
+    // Both Lenas are compared with each other
+    const h2h = results[0].headToHeadResults!.find(h => h.opponentId === 'L2')!;
+    expect(h2h.opponent).toBe('Lena');
+    expect(h2h.won).toBe(true);
+    expect(results[0].headToHeadResults).toHaveLength(2);
+  });
+});
+
+describe('Missing Score Policy', () => {
+  // Lena has no B-scores from judges 2 and 3
+  const tournament = [
+    { id: 'L1', name: 'Lena', aScores: [5.0, 5.0, 5.0], bScores: [5.0, null, null] },
+    { id: 'L2', name: 'Marie', aScores: [4.0, 4.0, 4.0], bScores: [4.0, 4.0, 4.0] },
+  ];
+
+  it('should count missing scores as 0 by default', () => {
+    const results = calculateRankings(tournament);
+
+    expect(results.map(r => r.name)).toEqual(['Marie', 'Lena']);
+    expect(results.find(r => r.name === 'Lena')!.totalScore).toBe(20);
+  });
+
+  it('should exclude judges with missing scores from comparisons', () => {
+    const results = calculateRankings(tournament, { missingScorePolicy: 'exclude-judge' });
+
+    // Only judge 1 compares Lena and Marie
+    expect(results.map(r => r.name)).toEqual(['Lena', 'Marie']);
+    const h2h = results[0].headToHeadResults![0];
+    expect(h2h).toMatchObject({ skaterVotes: 1, opponentVotes: 0, excludedJudges: [2, 3] });
+    expect(h2h.judgeOutcomes).toEqual(['win', null, null]);
+    expect(results[1].headToHeadResults![0].excludedJudges).toEqual([2, 3]);
+  });
+
+  it('should exclude judges with missing scores from the total', () => {
+    const results = calculateRankings(tournament, { missingScorePolicy: 'exclude-judge' });
+
+    expect(results.find(r => r.name === 'Lena')!.totalScore).toBe(10);
+    expect(results.find(r => r.name === 'Marie')!.totalScore).toBe(24);
+  });
+
+  it('should exclude judges from the tie-break sums of the tied group', () => {
+    const results = calculateRankings([
+      { id: 'L1', name: 'Lena', aScores: [5.0, 5.0, null], bScores: [5.0, 5.0, 9.0] },
+      { id: 'L2', name: 'Marie', aScores: [6.0, 3.0, 1.0], bScores: [4.0, 7.0, 1.0] },
+    ], { missingScorePolicy: 'exclude-judge' });
+
+    // 1:1 on judges 1 and 2, Lena's B-score of judge 3 does not count
+    expect(results.map(r => r.name)).toEqual(['Marie', 'Lena']);
+    expect(results[0]).toMatchObject({ tieBreakLevel: 'b-score-sum', tieBreakValue: 11 });
+    expect(results[1].tieBreakInfo).toEqual([{ level: 'b-score-sum', value: 10 }]);
+  });
+
+  it('should not change rankings without missing scores', () => {
+    const complete = scenarios.createLinearRanking(6, 5);
+
+    expect(calculateRankings(complete, { missingScorePolicy: 'exclude-judge' })).toEqual(calculateRankings(complete));
+    expect(calculateRankings(complete, { missingScorePolicy: 'block' })).toEqual(calculateRankings(complete));
+  });
+
+  it('should block the ranking while scores are missing', () => {
+    expect(() => calculateRankings(tournament, { missingScorePolicy: 'block' })).toThrow(
+      'Ranking is blocked until all scores are entered. Missing: Lena (judge 2 B, judge 3 B)'
+    );
+  });
+});
+
+describe('Trimmed Mean Total', () => {
+  it.each([
+    [1, [4], 4],
+    [2, [4, 6], 5],
+    [3, [1, 2, 6], 3],
+    [4, [1, 2, 3, 6], 3],
+    [5, [1, 2, 3, 4, 10], 3], // 1 and 10 dropped
+    [6, [0, 2, 3, 4, 5, 10], 3.5], // 0 and 10 dropped
+    [7, [20, 0, 1, 2, 3, 4, 5], 3], // 0 and 20 dropped
+  ])('should average a panel of %i judges', (_, scores, expected) => {
+    expect(calculateTrimmedMean(scores)).toBeCloseTo(expected, 10);
+  });
+
+  it('should be 0 without scores', () => {
+    expect(calculateTrimmedMean([])).toBe(0);
+  });
+
+  it('should expose the raw sum and the trimmed mean', () => {
+    const results = calculateRankings([
+      { id: 'L1', name: 'Lena', aScores: [3.0, 3.0, 3.0, 3.0, 9.0], bScores: [4.0, 4.0, 4.0, 1.0, 4.0] },
+    ]);
+
+    expect(results[0].totalScore).toBe(38);
+    expect(results[0].trimmedMeanScore).toBe(7); // 3.0 + 4.0
+  });
+
+  it('should not trim panels of fewer than five judges', () => {
+    const results = calculateRankings([
+      { id: 'L1', name: 'Lena', aScores: [3.0, 3.0, 3.0, 9.0], bScores: [4.0, 4.0, 4.0, 1.0] },
+    ]);
+
+    expect(results[0].trimmedMeanScore).toBe(7.75); // 4.5 + 3.25
+  });
+
+  // Tied on M.V. and every earlier tie-break (2.5:2.5 votes, equal B-scores):
+  // Lena has the higher sum, Marie the higher trimmed mean
+  const fiveJudgeTie = [
+    { id: 'L1', name: 'Lena', aScores: [4.0, 4.0, 4.0, 4.0, 10.0], bScores: [3.0, 3.0, 3.0, 3.0, 3.0] },
+    { id: 'L2', name: 'Marie', aScores: [5.0, 5.0, 3.0, 2.0, 10.0], bScores: [3.0, 3.0, 3.0, 3.0, 3.0] },
+  ];
+
+  it('should use the trimmed mean for the total-score tie-break by default', () => {
+    const results = calculateRankings(fiveJudgeTie);
+
+    expect(results.map(r => r.name)).toEqual(['Marie', 'Lena']);
+    expect(results[0]).toMatchObject({ tieBreakLevel: 'total-score', tieBreakValue: 7.33 });
+    expect(results[1]).toMatchObject({ tieBreakLevel: 'total-score', tieBreakValue: 7 });
+  });
+
+  it('should use the sum for the total-score tie-break when configured', () => {
+    const results = calculateRankings(fiveJudgeTie, { ruleset: getRuleset('driv-2025-sum') });
+
+    expect(results.map(r => r.name)).toEqual(['Lena', 'Marie']);
+    expect(results[0]).toMatchObject({ tieBreakLevel: 'total-score', tieBreakValue: 41 });
+  });
+});
+
 describe('Tie-Break Badges', () => {
   it('should assign badges when tie-breaking separates skaters', () => {
     const tournament = scenarios.createDirectComparisonTie();
@@ -385,16 +604,16 @@ describe('Example Data from examples.ts', () => {
   it('should correctly rank all skaters with Julia #1 despite not having highest total score', () => {
     // Example data from src/components/ScoreInput/examples.ts
     const tournament = [
-      { name: 'Anna', aScores: [2.3, 3.1, 3.0], bScores: [2.9, 2.7, 1.9] },
-      { name: 'Ben', aScores: [2.4, 3.3, 2.3], bScores: [2.2, 3.0, 2.3] },
-      { name: 'Clara', aScores: [1.5, 3.2, 2.7], bScores: [2.7, 1.6, 2.9] },
-      { name: 'David', aScores: [1.6, 2.3, 2.2], bScores: [2.7, 1.7, 1.7] },
-      { name: 'Emma', aScores: [1.9, 1.8, 3.0], bScores: [2.1, 2.6, 3.4] },
-      { name: 'Felix', aScores: [1.7, 1.5, 2.6], bScores: [2.2, 1.8, 2.1] },
-      { name: 'Grace', aScores: [3.2, 1.6, 2.4], bScores: [2.9, 2.5, 3.1] },
-      { name: 'Hannah', aScores: [3.0, 3.4, 3.1], bScores: [1.6, 2.5, 2.2] },
-      { name: 'Iris', aScores: [2.5, 2.1, 1.9], bScores: [3.0, 1.8, 2.1] },
-      { name: 'Julia', aScores: [2.5, 1.8, 2.3], bScores: [2.7, 2.9, 3.3] }
+      { id: 'Anna', name: 'Anna', aScores: [2.3, 3.1, 3.0], bScores: [2.9, 2.7, 1.9] },
+      { id: 'Ben', name: 'Ben', aScores: [2.4, 3.3, 2.3], bScores: [2.2, 3.0, 2.3] },
+      { id: 'Clara', name: 'Clara', aScores: [1.5, 3.2, 2.7], bScores: [2.7, 1.6, 2.9] },
+      { id: 'David', name: 'David', aScores: [1.6, 2.3, 2.2], bScores: [2.7, 1.7, 1.7] },
+      { id: 'Emma', name: 'Emma', aScores: [1.9, 1.8, 3.0], bScores: [2.1, 2.6, 3.4] },
+      { id: 'Felix', name: 'Felix', aScores: [1.7, 1.5, 2.6], bScores: [2.2, 1.8, 2.1] },
+      { id: 'Grace', name: 'Grace', aScores: [3.2, 1.6, 2.4], bScores: [2.9, 2.5, 3.1] },
+      { id: 'Hannah', name: 'Hannah', aScores: [3.0, 3.4, 3.1], bScores: [1.6, 2.5, 2.2] },
+      { id: 'Iris', name: 'Iris', aScores: [2.5, 2.1, 1.9], bScores: [3.0, 1.8, 2.1] },
+      { id: 'Julia', name: 'Julia', aScores: [2.5, 1.8, 2.3], bScores: [2.7, 2.9, 3.3] }
     ];
 
     const results = calculateRankings(tournament);
@@ -499,3 +718,128 @@ describe('Example Data from examples.ts', () => {
     // Judge 3: Julia (2.3+3.3=5.6) vs Anna (3.0+1.9=4.9) → Julia wins
   });
 });
+
+describe('Rulesets', () => {
+  // One judge: Lena has the higher total, Marie the higher B-score
+  const totalVersusB = [
+    { id: 'L1', name: 'Lena', aScores: [6.0], bScores: [3.0] },
+    { id: 'L2', name: 'Marie', aScores: [4.0], bScores: [4.0] },
+  ];
+
+  // Two judges split 1:1 - Marie has the higher B-score sum, Lena the higher total
+  const splitPanel = [
+    { id: 'L1', name: 'Lena', aScores: [7.0, 3.0], bScores: [3.0, 3.0] },
+    { id: 'L2', name: 'Marie', aScores: [4.0, 3.5], bScores: [4.0, 4.0] },
+  ];
+
+  it('should decide by the total first under DRIV 2025', () => {
+    const results = calculateRankings(totalVersusB, { ruleset: DRIV_2025 });
+
+    expect(results.map(r => r.name)).toEqual(['Lena', 'Marie']);
+  });
+
+  it('should decide by the B-score first with B-score precedence', () => {
+    const results = calculateRankings(totalVersusB, { ruleset: getRuleset('majority-b-precedence') });
+
+    expect(results.map(r => r.name)).toEqual(['Marie', 'Lena']);
+    expect(results[0].headToHeadResults?.[0]).toMatchObject({ won: true, skaterVotes: 1, opponentVotes: 0 });
+  });
+
+  it('should count equal judge totals as a tie without B-score fallback', () => {
+    const equalTotals = [
+      { id: 'L1', name: 'Lena', aScores: [5.0], bScores: [3.0] },
+      { id: 'L2', name: 'Marie', aScores: [4.0], bScores: [4.0] },
+    ];
+
+    const withFallback = calculateRankings(equalTotals);
+    const withoutFallback = calculateRankings(equalTotals, { ruleset: getRuleset('majority-total-only') });
+
+    expect(withFallback.map(r => r.majorityVictories)).toEqual([1, 0]);
+    expect(withoutFallback.map(r => r.majorityVictories)).toEqual([0.5, 0.5]);
+    expect(withoutFallback[0].headToHeadResults?.[0]).toMatchObject({ skaterVotes: 0, opponentVotes: 0 });
+  });
+
+  it('should apply the tie-break levels in the order of the chain', () => {
+    const totalFirst: Ruleset = {
+      ...DRIV_2025,
+      id: 'total-first',
+      tieBreakChain: ['total-score', 'b-score-sum'],
+      totalScoreMethod: 'sum',
+    };
+
+    const driv = calculateRankings(splitPanel);
+    const custom = calculateRankings(splitPanel, { ruleset: totalFirst });
+
+    expect(driv.map(r => r.name)).toEqual(['Marie', 'Lena']);
+    expect(driv[0]).toMatchObject({ tieBreakLevel: 'b-score-sum', tieBreakValue: 8 });
+    expect(driv[0].tieBreakInfo).toEqual([{ level: 'b-score-sum', value: 8 }]);
+
+    expect(custom.map(r => r.name)).toEqual(['Lena', 'Marie']);
+    expect(custom[0]).toMatchObject({ tieBreakLevel: 'total-score', tieBreakValue: 16 });
+    expect(custom[0].tieBreakInfo).toEqual([{ level: 'total-score', value: 16 }]);
+  });
+
+  it('should leave out levels that are not in the chain', () => {
+    const results = calculateRankings(splitPanel, { ruleset: getRuleset('majority-total-only') });
+
+    // Without the B-score sum, the sum of judge totals decides
+    expect(results.map(r => r.name)).toEqual(['Lena', 'Marie']);
+    expect(results.every(r => r.tieBreakInfo?.every(info => info.level !== 'b-score-sum'))).toBe(true);
+  });
+});
+
+describe('Calculation Trace', () => {
+  // Anna wins clearly, Ben and Clara split the two judges and are separated by the B-score sum
+  const skaters = [
+    { id: 'L1', name: 'Ben', aScores: [7.0, 3.0], bScores: [3.0, 3.0] },
+    { id: 'L2', name: 'Anna', aScores: [9.0, 9.0], bScores: [9.0, 9.0] },
+    { id: 'L3', name: 'Clara', aScores: [4.0, 3.5], bScores: [4.0, 4.0] },
+  ];
+
+  it('should return the same results as calculateRankings', () => {
+    const tournament = scenarios.createCircularPreferences();
+
+    expect(calculateRankingsWithTrace(tournament).results).toEqual(calculateRankings(tournament));
+  });
+
+  it('should record the pairwise vote matrix and M.V.', () => {
+    const { trace } = calculateRankingsWithTrace(skaters);
+
+    expect(trace.ruleset).toBe('driv-2025@1');
+    expect(trace.skaters.map(s => s.name)).toEqual(['Ben', 'Anna', 'Clara']);
+    expect(trace.votes).toEqual([
+      [null, 0, 1],
+      [2, null, 2],
+      [1, 0, null],
+    ]);
+    expect(trace.majorityVictories).toEqual({ L1: 0.5, L2: 2, L3: 0.5 });
+  });
+
+  it('should record every M.V. group with its tie-break values', () => {
+    const { trace } = calculateRankingsWithTrace(skaters);
+
+    expect(trace.groups.map(g => [g.firstRank, g.skaterIds])).toEqual([[1, ['L2']], [2, ['L3', 'L1']]]);
+    expect(trace.groups[0].levels).toEqual([]);
+    expect(trace.groups[1].levels.find(l => l.level === 'direct-comparison')?.values).toEqual({ L3: 1, L1: 1 });
+    expect(trace.groups[1].levels.find(l => l.level === 'b-score-sum')?.values).toEqual({ L3: 8, L1: 6 });
+    expect(trace.groups[1].separations).toEqual([{ higherId: 'L3', lowerId: 'L1', level: 'b-score-sum' }]);
+  });
+
+  it('should record pairs that stay tied on every level', () => {
+    const twins = [
+      { id: 'L1', name: 'Lena', aScores: [5.0], bScores: [5.0] },
+      { id: 'L2', name: 'Marie', aScores: [5.0], bScores: [5.0] },
+    ];
+
+    expect(calculateRankingsWithTrace(twins).trace.groups[0].separations).toEqual([
+      { higherId: 'L1', lowerId: 'L2', level: 'none' },
+    ]);
+    expect(calculateRankingsWithTrace(twins).trace.groups[0].ranks).toEqual([1, 1]);
+  });
+
+  it('should be JSON-serialisable', () => {
+    const { trace } = calculateRankingsWithTrace(scenarios.createCircularPreferences());
+
+    expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+  });
+});
@@ -1,15 +1,47 @@
 import type { SkaterScores } from '../types/SkaterScores';
 import type { SkaterResult } from '../types/SkaterResult';
+import type { HeadToHeadOutcome } from '../types/HeadToHeadOutcome';
 import type { HeadToHeadResult } from '../types/HeadToHeadResult';
 import type { TieBreakLevel } from '../types/TieBreakLevel';
+import type { MissingScorePolicy } from '../types/MissingScorePolicy';
+import type { JudgeComparison } from '../types/JudgeComparison';
+import type { RankingTrace } from '../types/RankingTrace';
+import type { Ruleset } from '../types/Ruleset';
+import { DRIV_2025, getRulesetKey } from './rulesets';
+
+export interface RankingOptions {
+  /** How missing (null) scores are handled, 'zero' by default */
+  missingScorePolicy?: MissingScorePolicy;
+  /** Judge comparison, tie-break chain and total calculation, DRIV 2025 by default */
+  ruleset?: Ruleset;
+}
+
+export interface TracedRanking {
+  results: SkaterResult[];
+  trace: RankingTrace;
+}
+
+/**
+ * Rules shared by every pairwise comparison of a ranking
+ */
+interface ComparisonContext {
+  policy: MissingScorePolicy;
+  judgeComparison: JudgeComparison;
+}
+
+/**
+ * Smallest panel for which the highest and lowest score are dropped from the mean
+ */
+export const TRIMMED_MEAN_MIN_JUDGES = 5;
 
 /**
  * Calculates Gesamtpunktzahl (total score) as the sum of all judge totals.
  * This is used for display and as the final tie-breaker (Tie-break Level 4).
+ * With the 'exclude-judge' policy, judges with a missing score are left out.
  */
-function calculateTotalScore(skater: SkaterScores): number {
+function calculateTotalScore(skater: SkaterScores, policy: MissingScorePolicy): number {
   const totals = calculateJudgeTotals(skater);
-  return totals.reduce((sum, total) => sum + total, 0);
+  return sumOverJudges(getCountedJudges(policy, skater), judgeIdx => totals[judgeIdx] ?? 0);
 }
 
 /**
@@ -19,14 +51,109 @@ function roundToOneDecimal(num: number): number {
   return Math.round(num * 10) / 10;
 }
 
+/**
+ * Rounds a number to 2 decimal places
+ */
+function roundToTwoDecimals(num: number): number {
+  return Math.round(num * 100) / 100;
+}
+
+/**
+ * Mean of the scores. For panels of TRIMMED_MEAN_MIN_JUDGES or more judges,
+ * the highest and the lowest score are dropped first.
+ */
+export function calculateTrimmedMean(scores: number[]): number {
+  if (scores.length === 0) return 0;
+
+  const sorted = [...scores].sort((a, b) => a - b);
+  const counted = sorted.length >= TRIMMED_MEAN_MIN_JUDGES ? sorted.slice(1, -1) : sorted;
+  return counted.reduce((sum, score) => sum + score, 0) / counted.length;
+}
+
+/**
+ * Trimmed mean A-score + trimmed mean B-score over the given judges (missing scores count as 0)
+ */
+function calculateTrimmedMeanScore(skater: SkaterScores, judges: number[]): number {
+  const trimmedMean = (scores: (number | null)[]) => calculateTrimmedMean(judges.map(judgeIdx => scores[judgeIdx] ?? 0));
+  return roundToTwoDecimals(trimmedMean(skater.aScores) + trimmedMean(skater.bScores));
+}
+
+/**
+ * Total score (rounded to 1 decimal) and trimmed mean score of a skater, as shown in the results
+ */
+export function calculateSkaterTotals(
+  skater: SkaterScores,
+  options: RankingOptions = {}
+): Pick<SkaterResult, 'totalScore' | 'trimmedMeanScore'> {
+  const { missingScorePolicy: policy = 'zero' } = options;
+  return {
+    totalScore: roundToOneDecimal(calculateTotalScore(skater, policy)),
+    trimmedMeanScore: calculateTrimmedMeanScore(skater, getCountedJudges(policy, skater)),
+  };
+}
+
+/**
+ * Number of judges on the panel for the given skaters.
+ * Missing scores are stored as null, so the panel size is the longest score array.
+ */
+export function getJudgeCount(...skaters: SkaterScores[]): number {
+  return Math.max(
+    0,
+    ...skaters.map(skater => Math.max(skater.aScores.length, skater.bScores.length))
+  );
+}
+
+/**
+ * Whether the judge gave the skater both an A- and a B-score
+ */
+function hasCompleteScores(skater: SkaterScores, judgeIdx: number): boolean {
+  return skater.aScores[judgeIdx] != null && skater.bScores[judgeIdx] != null;
+}
+
+/**
+ * Judges (0-based) counted when comparing the given skaters.
+ * With the 'exclude-judge' policy, a judge with a missing score for any of the skaters
+ * is left out; otherwise every judge of the panel counts and missing scores are 0.
+ */
+function getCountedJudges(policy: MissingScorePolicy, ...skaters: SkaterScores[]): number[] {
+  const judges = Array.from({ length: getJudgeCount(...skaters) }, (_, i) => i);
+  if (policy !== 'exclude-judge') return judges;
+  return judges.filter(judgeIdx => skaters.every(skater => hasCompleteScores(skater, judgeIdx)));
+}
+
+/**
+ * Sums a per-judge value over the given judges
+ */
+function sumOverJudges(judges: number[], value: (judgeIdx: number) => number): number {
+  return judges.reduce((sum, judgeIdx) => sum + value(judgeIdx), 0);
+}
+
+/**
+ * Lists the missing scores of the panel, e.g. ["Lena (judge 2 B)"]
+ */
+function findMissingScores(skaters: SkaterScores[]): string[] {
+  const judgeCount = getJudgeCount(...skaters);
+  const missing: string[] = [];
+
+  for (const skater of skaters) {
+    const gaps: string[] = [];
+    for (let i = 0; i < judgeCount; i++) {
+      if (skater.aScores[i] == null) gaps.push(`judge ${i + 1} A`);
+      if (skater.bScores[i] == null) gaps.push(`judge ${i + 1} B`);
+    }
+    if (gaps.length > 0) {
+      missing.push(`${skater.name} (${gaps.join(', ')})`);
+    }
+  }
+
+  return missing;
+}
+
 /**
  * Calculate individual judge totals (A + B) for a skater
  */
 function calculateJudgeTotals(skater: SkaterScores): number[] {
-  const numJudges = Math.max(
-    skater.aScores.filter(s => s !== null).length,
-    skater.bScores.filter(s => s !== null).length
-  );
+  const numJudges = getJudgeCount(skater);
 
   const totals: number[] = [];
   for (let i = 0; i < numJudges; i++) {
@@ -39,102 +166,136 @@ function calculateJudgeTotals(skater: SkaterScores): number[] {
 }
 
 /**
- * Compare two skaters for one judge.
+ * Compare two skaters for one judge, by total (A+B) and B-score in the order of the judge comparison.
  * Returns: 1 if skater1 wins, 0.5 if tie, 0 if skater2 wins
  */
-function compareSkatersByJudge(
+export function compareSkatersByJudge(
   skater1Total: number,
   skater1BScore: number,
   skater2Total: number,
-  skater2BScore: number
+  skater2BScore: number,
+  comparison: JudgeComparison
 ): number {
-  if (skater1Total > skater2Total) return 1;
-  if (skater2Total > skater1Total) return 0;
-
-  // Totals are equal, compare B-scores
-  if (skater1BScore > skater2BScore) return 1;
-  if (skater2BScore > skater1BScore) return 0;
+  const criteria: Array<[number, number]> =
+    comparison === 'total-then-b' ? [[skater1Total, skater2Total], [skater1BScore, skater2BScore]]
+      : comparison === 'b-then-total' ? [[skater1BScore, skater2BScore], [skater1Total, skater2Total]]
+        : [[skater1Total, skater2Total]];
+
+  for (const [value1, value2] of criteria) {
+    if (value1 > value2) return 1;
+    if (value2 > value1) return 0;
+  }
 
   // Complete tie
   return 0.5;
 }
 
 /**
- * Perform pairwise comparison between two skaters across all judges.
- * Returns the comparison score for skater1 (0 to numJudges)
+ * Perform pairwise comparison between two skaters across all counted judges.
+ * Returns the comparison score for skater1 (0 to number of counted judges)
  */
 function pairwiseComparison(
   skater1: SkaterScores,
-  skater2: SkaterScores
+  skater2: SkaterScores,
+  context: ComparisonContext
 ): number {
   const totals1 = calculateJudgeTotals(skater1);
   const totals2 = calculateJudgeTotals(skater2);
 
-  const numJudges = Math.max(totals1.length, totals2.length);
   let score = 0;
 
-  for (let i = 0; i < numJudges; i++) {
+  for (const i of getCountedJudges(context.policy, skater1, skater2)) {
     const total1 = totals1[i] ?? 0;
     const total2 = totals2[i] ?? 0;
     const bScore1 = skater1.bScores[i] ?? 0;
     const bScore2 = skater2.bScores[i] ?? 0;
 
-    score += compareSkatersByJudge(total1, bScore1, total2, bScore2);
+    score += compareSkatersByJudge(total1, bScore1, total2, bScore2, context.judgeComparison);
   }
 
   return score;
 }
 
+/**
+ * Judges preferring skater1 in the pairwise comparison, 0.5 for every tied judge.
+ * The votes of skater2 are the counted judges minus these.
+ */
+export function countPairwiseVotes(skater1: SkaterScores, skater2: SkaterScores, options: RankingOptions = {}): number {
+  const { missingScorePolicy: policy = 'zero', ruleset = DRIV_2025 } = options;
+  return pairwiseComparison(skater1, skater2, { policy, judgeComparison: ruleset.judgeComparison });
+}
+
+/**
+ * Majority outcome of the pairwise comparison for skater1: 1 if most counted judges
+ * prefer skater1, 0.5 on a draw, 0 if most prefer skater2
+ */
+export function comparePairwise(skater1: SkaterScores, skater2: SkaterScores, options: RankingOptions = {}): number {
+  const score1 = countPairwiseVotes(skater1, skater2, options);
+  const score2 = getCountedJudges(options.missingScorePolicy ?? 'zero', skater1, skater2).length - score1;
+  return score1 > score2 ? 1 : score1 < score2 ? 0 : 0.5;
+}
+
+/**
+ * Outcome for the skater of a judge comparison score (1, 0.5 or 0)
+ */
+function toOutcome(score: number): HeadToHeadOutcome {
+  return score === 1 ? 'win' : score === 0 ? 'loss' : 'draw';
+}
+
 /**
  * Calculate detailed head-to-head results for a skater against all opponents.
- * For each opponent, determines who won and how many judges voted for each skater.
+ * For each opponent, determines the vote of every judge, how many judges voted for each
+ * skater and the outcome of the comparison - a draw if the votes are equal.
  */
 function calculateHeadToHeadDetails(
   skater: SkaterScores,
-  allSkaters: SkaterScores[]
+  allSkaters: SkaterScores[],
+  context: ComparisonContext
 ): HeadToHeadResult[] {
   const results: HeadToHeadResult[] = [];
 
   for (const opponent of allSkaters) {
-    if (opponent.name === skater.name) continue;
-
-    // Calculate judge totals for both skaters
-    const numJudges = Math.max(
-      Math.max(
-        skater.aScores.filter(s => s !== null).length,
-        skater.bScores.filter(s => s !== null).length
-      ),
-      Math.max(
-        opponent.aScores.filter(s => s !== null).length,
-        opponent.bScores.filter(s => s !== null).length
-      )
-    );
+    if (opponent.id === skater.id) continue;
 
-    let skaterVotes = 0;
-    let opponentVotes = 0;
+    const countedJudges = getCountedJudges(context.policy, skater, opponent);
+    const judgeOutcomes: Array<HeadToHeadOutcome | null> = Array.from(
+      { length: getJudgeCount(skater, opponent) },
+      () => null
+    );
 
     // For each judge, determine who won
-    for (let judgeIdx = 0; judgeIdx < numJudges; judgeIdx++) {
+    for (const judgeIdx of countedJudges) {
       const skaterTotal = (skater.aScores[judgeIdx] ?? 0) + (skater.bScores[judgeIdx] ?? 0);
       const skaterBScore = skater.bScores[judgeIdx] ?? 0;
       const opponentTotal = (opponent.aScores[judgeIdx] ?? 0) + (opponent.bScores[judgeIdx] ?? 0);
       const opponentBScore = opponent.bScores[judgeIdx] ?? 0;
 
-      const result = compareSkatersByJudge(skaterTotal, skaterBScore, opponentTotal, opponentBScore);
-
-      if (result === 1) {
-        skaterVotes++;
-      } else if (result === 0) {
-        opponentVotes++;
-      }
-      // If result is 0.5 (tie), neither gets the vote
+      judgeOutcomes[judgeIdx] = toOutcome(compareSkatersByJudge(
+        skaterTotal,
+        skaterBScore,
+        opponentTotal,
+        opponentBScore,
+        context.judgeComparison
+      ));
     }
 
+    // A tied judge gives neither skater the vote
+    const skaterVotes = judgeOutcomes.filter(outcome => outcome === 'win').length;
+    const opponentVotes = judgeOutcomes.filter(outcome => outcome === 'loss').length;
+    const outcome = skaterVotes > opponentVotes ? 'win' : skaterVotes < opponentVotes ? 'loss' : 'draw';
+    const excludedJudges = judgeOutcomes
+      .map((judgeOutcome, judgeIdx) => (judgeOutcome === null ? judgeIdx + 1 : null))
+      .filter(judge => judge !== null);
+
     results.push({
+      opponentId: opponent.id,
       opponent: opponent.name,
-      won: skaterVotes > opponentVotes,
+      outcome,
+      won: outcome === 'win',
       skaterVotes,
       opponentVotes,
+      judgeOutcomes,
+      ...(excludedJudges.length > 0 && { excludedJudges }),
     });
   }
 
@@ -142,14 +303,14 @@ function calculateHeadToHeadDetails(
 }
 
 /**
- * Calculate majority victories (M.V.) for each skater
+ * Calculate majority victories (M.V.) for each skater, keyed by skater ID
  */
-function calculateMajorityVictories(skaters: SkaterScores[]): Map<string, number> {
+function calculateMajorityVictories(skaters: SkaterScores[], context: ComparisonContext): Map<string, number> {
   const victories = new Map<string, number>();
 
   // Initialize all skaters with 0 victories
   for (const skater of skaters) {
-    victories.set(skater.name, 0);
+    victories.set(skater.id, 0);
   }
 
   // Pairwise comparisons
@@ -158,22 +319,19 @@ function calculateMajorityVictories(skaters: SkaterScores[]): Map<string, number
       const skater1 = skaters[i];
       const skater2 = skaters[j];
 
-      const score1 = pairwiseComparison(skater1, skater2);
-      const numJudges = Math.max(
-        calculateJudgeTotals(skater1).length,
-        calculateJudgeTotals(skater2).length
-      );
+      const score1 = pairwiseComparison(skater1, skater2, context);
+      const numJudges = getCountedJudges(context.policy, skater1, skater2).length;
       const score2 = numJudges - score1;
 
       // Award victories based on who has majority
       if (score1 > score2) {
-        victories.set(skater1.name, victories.get(skater1.name)! + 1);
+        victories.set(skater1.id, victories.get(skater1.id)! + 1);
       } else if (score2 > score1) {
-        victories.set(skater2.name, victories.get(skater2.name)! + 1);
+        victories.set(skater2.id, victories.get(skater2.id)! + 1);
       } else {
         // Tie - both get 0.5
-        victories.set(skater1.name, victories.get(skater1.name)! + 0.5);
-        victories.set(skater2.name, victories.get(skater2.name)! + 0.5);
+        victories.set(skater1.id, victories.get(skater1.id)! + 0.5);
+        victories.set(skater2.id, victories.get(skater2.id)! + 0.5);
       }
     }
   }
@@ -182,12 +340,20 @@ function calculateMajorityVictories(skaters: SkaterScores[]): Map<string, number
 }
 
 /**
- * Calculate sum of B-scores for a skater
+ * Pairwise vote matrix: the comparison score of every skater against every other skater
  */
-function calculateBScoreSum(skater: SkaterScores): number {
-  return skater.bScores
-    .filter((s): s is number => s !== null)
-    .reduce((sum, score) => sum + score, 0);
+function calculateVoteMatrix(skaters: SkaterScores[], context: ComparisonContext): Array<Array<number | null>> {
+  return skaters.map((skater, i) =>
+    skaters.map((opponent, j) => (i === j ? null : pairwiseComparison(skater, opponent, context)))
+  );
+}
+
+/**
+ * Calculate sum of B-scores for a skater over the given judges, rounded to the 0.1 steps
+ * of the scores so equal sums compare equal whatever the order of the judges
+ */
+function calculateBScoreSum(skater: SkaterScores, judges: number[]): number {
+  return roundToOneDecimal(sumOverJudges(judges, judgeIdx => skater.bScores[judgeIdx] ?? 0));
 }
 
 /**
@@ -195,12 +361,13 @@ function calculateBScoreSum(skater: SkaterScores): number {
  * Each tied skater is compared with all other tied skaters.
  */
 function tieBreakByDirectComparison(
-  tiedSkaters: SkaterScores[]
+  tiedSkaters: SkaterScores[],
+  context: ComparisonContext
 ): Map<string, number> {
   const comparisonScores = new Map<string, number>();
 
   for (const skater of tiedSkaters) {
-    comparisonScores.set(skater.name, 0);
+    comparisonScores.set(skater.id, 0);
   }
 
   // Compare each skater with all other tied skaters
@@ -209,15 +376,12 @@ function tieBreakByDirectComparison(
       const skater1 = tiedSkaters[i];
       const skater2 = tiedSkaters[j];
 
-      const score1 = pairwiseComparison(skater1, skater2);
-      const numJudges = Math.max(
-        calculateJudgeTotals(skater1).length,
-        calculateJudgeTotals(skater2).length
-      );
+      const score1 = pairwiseComparison(skater1, skater2, context);
+      const numJudges = getCountedJudges(context.policy, skater1, skater2).length;
       const score2 = numJudges - score1;
 
-      comparisonScores.set(skater1.name, comparisonScores.get(skater1.name)! + score1);
-      comparisonScores.set(skater2.name, comparisonScores.get(skater2.name)! + score2);
+      comparisonScores.set(skater1.id, comparisonScores.get(skater1.id)! + score1);
+      comparisonScores.set(skater2.id, comparisonScores.get(skater2.id)! + score2);
     }
   }
 
@@ -232,12 +396,13 @@ function tieBreakByDirectComparison(
  */
 function tieBreakByComparisonWithAll(
   tiedSkaters: SkaterScores[],
-  allSkaters: SkaterScores[]
+  allSkaters: SkaterScores[],
+  context: ComparisonContext
 ): Map<string, number> {
   const comparisonScores = new Map<string, number>();
 
   for (const tiedSkater of tiedSkaters) {
-    comparisonScores.set(tiedSkater.name, 0);
+    comparisonScores.set(tiedSkater.id, 0);
   }
 
   // For each tied skater, compare with ALL skaters (including themselves gives 0)
@@ -245,55 +410,196 @@ function tieBreakByComparisonWithAll(
     let totalScore = 0;
 
     for (const otherSkater of allSkaters) {
-      if (tiedSkater.name === otherSkater.name) {
+      if (tiedSkater.id === otherSkater.id) {
         // Skip self-comparison (or it would give half score)
         continue;
       }
 
-      const score = pairwiseComparison(tiedSkater, otherSkater);
+      const score = pairwiseComparison(tiedSkater, otherSkater, context);
       totalScore += score;
     }
 
-    comparisonScores.set(tiedSkater.name, totalScore);
+    comparisonScores.set(tiedSkater.id, totalScore);
   }
 
   return comparisonScores;
 }
 
+/**
+ * Values of one tie-break level for every skater of a tied group (higher ranks better).
+ * Sums over judges only count the judges counted for the whole group.
+ */
+function calculateTieBreakValues(
+  level: Exclude<TieBreakLevel, 'none'>,
+  tiedGroup: SkaterResult[],
+  allSkaters: SkaterScores[],
+  context: ComparisonContext,
+  ruleset: Ruleset
+): Map<string, number> {
+  const tiedSkaters = tiedGroup.map(r => ({
+    id: r.id,
+    name: r.name,
+    aScores: r.aScores,
+    bScores: r.bScores,
+  }));
+  const groupJudges = getCountedJudges(context.policy, ...tiedSkaters);
+
+  switch (level) {
+    case 'direct-comparison':
+      // Vergleichszahl - only tied skaters
+      return tieBreakByDirectComparison(tiedSkaters, context);
+    case 'b-score-sum':
+      return new Map(tiedSkaters.map(skater => [skater.id, calculateBScoreSum(skater, groupJudges)]));
+    case 'comparison-all':
+      // Vergleichszahl mit allen Läufern
+      return tieBreakByComparisonWithAll(tiedSkaters, allSkaters, context);
+    case 'total-score':
+      // Sum or trimmed mean - as calculated for the skater,
+      // or over the judges counted for the whole group when judges are excluded
+      return new Map(tiedGroup.map(result => {
+        if (context.policy === 'exclude-judge') {
+          const judgeTotals = calculateJudgeTotals(result);
+          return [result.id, ruleset.totalScoreMethod === 'trimmed-mean'
+            ? calculateTrimmedMeanScore(result, groupJudges)
+            : roundToOneDecimal(sumOverJudges(groupJudges, judgeIdx => judgeTotals[judgeIdx] ?? 0))];
+        }
+        return [result.id, ruleset.totalScoreMethod === 'trimmed-mean' ? result.trimmedMeanScore : result.totalScore];
+      }));
+  }
+}
+
+/**
+ * Sorts a group tied on M.V. level by level through the ruleset's tie-break chain, the first
+ * difference decides. Returns the value lookup and each skater's place within the sorted
+ * group (0 for the first): skaters equal on every level share a place and the next is skipped.
+ */
+function sortTiedGroup(
+  tiedGroup: SkaterResult[],
+  allSkaters: SkaterScores[],
+  context: ComparisonContext,
+  ruleset: Ruleset
+): { valueOf: (level: Exclude<TieBreakLevel, 'none'>, skater: SkaterResult) => number; places: number[] } {
+  const chain = ruleset.tieBreakChain;
+  const levelValues = new Map(
+    chain.map(level => [level, calculateTieBreakValues(level, tiedGroup, allSkaters, context, ruleset)])
+  );
+  const valueOf = (level: Exclude<TieBreakLevel, 'none'>, skater: SkaterResult) =>
+    levelValues.get(level)!.get(skater.id)!;
+
+  tiedGroup.sort((a, b) => {
+    for (const level of chain) {
+      const difference = valueOf(level, b) - valueOf(level, a);
+      if (difference !== 0) return difference;
+    }
+    return 0;
+  });
+
+  const places: number[] = [];
+  tiedGroup.forEach((skater, k) => {
+    const shared = k > 0 && chain.every(level => valueOf(level, skater) === valueOf(level, tiedGroup[k - 1]));
+    places.push(shared ? places[k - 1] : k);
+  });
+  return { valueOf, places };
+}
+
+/**
+ * Places within a group of skaters tied on M.V. (0 for the first of the group), decided by the
+ * tie-break chain against the whole field exactly as in calculateRankings. Lets callers that
+ * already know the M.V. of every skater re-rank one group without ranking the whole field.
+ */
+export function rankTiedGroup(
+  tiedGroup: SkaterScores[],
+  allSkaters: SkaterScores[],
+  options: RankingOptions = {}
+): Map<string, number> {
+  const { missingScorePolicy: policy = 'zero', ruleset = DRIV_2025 } = options;
+  const results: SkaterResult[] = tiedGroup.map(skater => ({
+    ...skater,
+    ...calculateSkaterTotals(skater, options),
+    rank: 0,
+    majorityVictories: 0,
+  }));
+  const { places } = sortTiedGroup(results, allSkaters, { policy, judgeComparison: ruleset.judgeComparison }, ruleset);
+  return new Map(results.map((result, k) => [result.id, places[k]]));
+}
+
 /**
  * Calculates rankings using the Majority System (Majoritätssystem)
  *
- * Ranking is determined by the following criteria (in order):
+ * Ranking is determined by the following criteria (in order), shown for the default DRIV 2025 ruleset:
  * 1. Majority Victories (M.V. / Verhältniszahl): Number of wins in pairwise comparisons
  * 2. Tie-break Level 1: Direct comparison score (Vergleichszahl) between tied skaters only
  * 3. Tie-break Level 2: Sum of B-scores
  * 4. Tie-break Level 3: Comparison score with ALL skaters (not just tied ones)
- * 5. Tie-break Level 4: Total score (A + B) as last resort
- * 6. If all criteria are equal: Skaters remain tied
+ * 5. Tie-break Level 4: Total score as last resort - the trimmed mean of the A- and B-scores
+ *    (highest and lowest dropped from five judges) or the plain sum
+ * 6. If all criteria are equal: Skaters remain tied and share the placement (e.g. 3, 3, 5)
+ *
+ * Other rulesets change how a judge decides between two skaters, the order of the
+ * tie-break levels and the total used for the last level (see rulesets.ts).
+ *
+ * Missing scores are handled by the missing-score policy in every step: they count as 0,
+ * the judge is left out of every comparison and tie-break sum involving the skater
+ * ('exclude-judge'), or the ranking is refused with an error ('block').
  *
  * Based on Rainer Kayser's "Rollkunstlauf - Von den Noten zu den Plätzen"
  * and DRIV (Deutscher Rollsport- und Inline-Verband) regulations.
  */
-export function calculateRankings(skaters: SkaterScores[]): SkaterResult[] {
+export function calculateRankings(skaters: SkaterScores[], options: RankingOptions = {}): SkaterResult[] {
+  return rankSkaters(skaters, options);
+}
+
+/**
+ * Calculates rankings like calculateRankings and also returns the calculation trace:
+ * the pairwise vote matrix, the M.V. groups and the values of every tie-break level
+ * with the level that separated each pair of a group.
+ */
+export function calculateRankingsWithTrace(skaters: SkaterScores[], options: RankingOptions = {}): TracedRanking {
+  const { missingScorePolicy = 'zero', ruleset = DRIV_2025 } = options;
+  const trace: RankingTrace = {
+    ruleset: getRulesetKey(ruleset),
+    missingScorePolicy,
+    skaters: skaters.map(({ id, name }) => ({ id, name })),
+    votes: [],
+    majorityVictories: {},
+    groups: [],
+  };
+  return { results: rankSkaters(skaters, options, trace), trace };
+}
+
+/**
+ * Ranks the skaters (see calculateRankings), recording every step in the trace if one is given
+ */
+function rankSkaters(skaters: SkaterScores[], options: RankingOptions, trace?: RankingTrace): SkaterResult[] {
   if (skaters.length === 0) return [];
 
+  const { missingScorePolicy: policy = 'zero', ruleset = DRIV_2025 } = options;
+  if (policy === 'block') {
+    const missing = findMissingScores(skaters);
+    if (missing.length > 0) {
+      const more = missing.length > 3 ? ` and ${missing.length - 3} more` : '';
+      throw new Error(`Ranking is blocked until all scores are entered. Missing: ${missing.slice(0, 3).join(', ')}${more}`);
+    }
+  }
+  const context: ComparisonContext = { policy, judgeComparison: ruleset.judgeComparison };
+
   // Calculate Gesamtpunktzahl (total score) for each skater
-  const results: SkaterResult[] = skaters.map(skater => {
-    const totalScore = roundToOneDecimal(calculateTotalScore(skater));
-
-    return {
-      ...skater,
-      totalScore,
-      rank: 0,
-      majorityVictories: 0,
-    };
-  });
+  const results: SkaterResult[] = skaters.map(skater => ({
+    ...skater,
+    ...calculateSkaterTotals(skater, options),
+    rank: 0,
+    majorityVictories: 0,
+  }));
 
   // Calculate majority victories for each skater
-  const victories = calculateMajorityVictories(skaters);
+  const victories = calculateMajorityVictories(skaters, context);
   for (const result of results) {
-    result.majorityVictories = victories.get(result.name)!;
-    result.headToHeadResults = calculateHeadToHeadDetails(result, skaters);
+    result.majorityVictories = victories.get(result.id)!;
+    result.headToHeadResults = calculateHeadToHeadDetails(result, skaters, context);
+  }
+  if (trace) {
+    trace.votes = calculateVoteMatrix(skaters, context);
+    trace.majorityVictories = Object.fromEntries(victories);
   }
 
   // Sort by majority victories (descending)
@@ -325,194 +631,76 @@ export function calculateRankings(skaters: SkaterScores[]): SkaterResult[] {
     if (tiedGroup.length === 1) {
       // No tie, assign rank
       tiedGroup[0].rank = currentRank;
+      trace?.groups.push({
+        majorityVictories: currentMV,
+        firstRank: currentRank,
+        skaterIds: [tiedGroup[0].id],
+        ranks: [currentRank],
+        levels: [],
+        separations: [],
+      });
     } else {
-      // Tie-breaking needed
-      const tiedSkaters = tiedGroup.map(r => ({
-        name: r.name,
-        aScores: r.aScores,
-        bScores: r.bScores,
-      }));
-
-      // Tie-break 1: Direct comparison (Vergleichszahl) - only tied skaters
-      const comparisonScores = tieBreakByDirectComparison(tiedSkaters);
+      // Tie-breaking needed: sort the group by the ruleset's chain
+      const chain = ruleset.tieBreakChain;
+      const { valueOf, places } = sortTiedGroup(tiedGroup, skaters, context, ruleset);
 
-      // Tie-break 2: Sum of B-scores
-      const bScoreSums = new Map<string, number>();
-      for (const skater of tiedSkaters) {
-        bScoreSums.set(skater.name, calculateBScoreSum(skater));
+      // Assign ranks first: skaters equal on every level share the placement and the next one is skipped
+      for (let k = 0; k < tiedGroup.length; k++) {
+        tiedGroup[k].rank = currentRank + places[k];
+        sorted[i + k] = tiedGroup[k];
       }
 
-      // Tie-break 3: Comparison with ALL skaters (Vergleichszahl mit allen Läufern)
-      const comparisonWithAll = tieBreakByComparisonWithAll(tiedSkaters, skaters);
+      // Levels at which the group differentiates at all
+      const varyingLevels = chain.filter(level => new Set(tiedGroup.map(s => valueOf(level, s))).size > 1);
 
-      // Sort the tied group using tie-breaking rules
-      tiedGroup.sort((a, b) => {
-        const compA = comparisonScores.get(a.name)!;
-        const compB = comparisonScores.get(b.name)!;
-        if (compB !== compA) {
-          return compB - compA;
+      // For each skater in the tie-break group, collect all tie-break information
+      for (let k = 0; k < tiedGroup.length; k++) {
+        const current = tiedGroup[k];
+        const compareWith = k < tiedGroup.length - 1 ? tiedGroup[k + 1] : tiedGroup[k - 1];
+
+        // Set backward compatibility fields: the level that separates the skater from its neighbour,
+        // 'none' if no level separates the skater from someone sharing the placement
+        const decidingLevel = chain.find(level => valueOf(level, current) !== valueOf(level, compareWith));
+        if (tiedGroup.some(other => other !== current && other.rank === current.rank)) {
+          current.tieBreakLevel = 'none';
+        } else if (decidingLevel) {
+          current.tieBreakLevel = decidingLevel;
+          current.tieBreakValue = valueOf(decidingLevel, current);
         }
 
-        // Tie-break 2: Sum of B-scores
-        const bSumA = bScoreSums.get(a.name)!;
-        const bSumB = bScoreSums.get(b.name)!;
-        if (bSumB !== bSumA) {
-          return bSumB - bSumA;
-        }
+        // Build tieBreakInfo array: show levels where this skater is still tied with someone
+        const tieBreakInfo: Array<{ level: TieBreakLevel; value: number }> = [];
+        let stillTiedWith = tiedGroup.filter(s => s.id !== current.id);
 
-        // Tie-break 3: Comparison with ALL skaters
-        const compAllA = comparisonWithAll.get(a.name)!;
-        const compAllB = comparisonWithAll.get(b.name)!;
-        if (compAllB !== compAllA) {
-          return compAllB - compAllA;
-        }
+        for (const level of varyingLevels) {
+          const value = valueOf(level, current);
+          tieBreakInfo.push({ level, value });
 
-        // Tie-break 4: Total score (Gesamtpunktzahl) - last resort
-        return b.totalScore - a.totalScore;
-      });
+          // Remove skaters with a different value at this level
+          stillTiedWith = stillTiedWith.filter(other => valueOf(level, other) === value);
+          if (stillTiedWith.length === 0) break;
+        }
 
-      // Assign ranks first
-      for (let k = 0; k < tiedGroup.length; k++) {
-        tiedGroup[k].rank = currentRank + k;
-        sorted[i + k] = tiedGroup[k];
+        current.tieBreakInfo = tieBreakInfo;
       }
 
-      // For each skater in a tie-break group, collect all tie-break information
-      if (tiedGroup.length > 1) {
-        // First, find the first level where ANY differentiation occurs in the group
-        const allDirectComp = tiedGroup.map(s => comparisonScores.get(s.name)!);
-        const allBScoreSum = tiedGroup.map(s => bScoreSums.get(s.name)!);
-        const allCompAll = tiedGroup.map(s => comparisonWithAll.get(s.name)!);
-        const allTotalScore = tiedGroup.map(s => s.totalScore);
-
-        const hasDirectCompVariation = new Set(allDirectComp).size > 1;
-        const hasBScoreSumVariation = new Set(allBScoreSum).size > 1;
-        const hasCompAllVariation = new Set(allCompAll).size > 1;
-        const hasTotalScoreVariation = new Set(allTotalScore).size > 1;
-
-        // Determine the first level where the group differentiates
-        let firstDiffLevel: TieBreakLevel | null = null;
-        if (hasDirectCompVariation) firstDiffLevel = 'direct-comparison';
-        else if (hasBScoreSumVariation) firstDiffLevel = 'b-score-sum';
-        else if (hasCompAllVariation) firstDiffLevel = 'comparison-all';
-        else if (hasTotalScoreVariation) firstDiffLevel = 'total-score';
-
-        for (let k = 0; k < tiedGroup.length; k++) {
-          const current = tiedGroup[k];
-          const compareWith = k < tiedGroup.length - 1 ? tiedGroup[k + 1] : tiedGroup[k - 1];
-
-          const currentComp = comparisonScores.get(current.name)!;
-          const compareComp = comparisonScores.get(compareWith.name)!;
-          const currentBSum = bScoreSums.get(current.name)!;
-          const compareBSum = bScoreSums.get(compareWith.name)!;
-          const currentCompAll = comparisonWithAll.get(current.name)!;
-          const compareCompAll = comparisonWithAll.get(compareWith.name)!;
-
-          // Set backward compatibility fields first
-          if (currentComp !== compareComp) {
-            current.tieBreakLevel = 'direct-comparison';
-            current.tieBreakValue = currentComp;
-          } else if (currentBSum !== compareBSum) {
-            current.tieBreakLevel = 'b-score-sum';
-            current.tieBreakValue = currentBSum;
-          } else if (currentCompAll !== compareCompAll) {
-            current.tieBreakLevel = 'comparison-all';
-            current.tieBreakValue = currentCompAll;
-          } else if (current.totalScore !== compareWith.totalScore) {
-            current.tieBreakLevel = 'total-score';
-            current.tieBreakValue = current.totalScore;
-          }
-
-          // Build tieBreakInfo array: show levels where this skater is still tied with someone
-          const tieBreakInfo: Array<{ level: TieBreakLevel; value: number }> = [];
-
-          let reachedFirstDiff = false;
-          let stillTiedWith = new Set(tiedGroup.map(s => s.name));
-          stillTiedWith.delete(current.name);
-
-          // Direct comparison
-          if (!reachedFirstDiff && firstDiffLevel === 'direct-comparison') {
-            reachedFirstDiff = true;
-          }
-          if (reachedFirstDiff && hasDirectCompVariation) {
-            tieBreakInfo.push({ level: 'direct-comparison', value: currentComp });
-
-            // Remove skaters with different direct comparison values
-            const newStillTiedWith = new Set<string>();
-            for (const name of stillTiedWith) {
-              const other = tiedGroup.find(s => s.name === name)!;
-              if (comparisonScores.get(other.name) === currentComp) {
-                newStillTiedWith.add(name);
-              }
-            }
-            stillTiedWith = newStillTiedWith;
-
-            if (stillTiedWith.size === 0) {
-              current.tieBreakInfo = tieBreakInfo;
-              continue;
-            }
-          }
-
-          // B-Score Sum
-          if (!reachedFirstDiff && firstDiffLevel === 'b-score-sum') {
-            reachedFirstDiff = true;
-          }
-          if (reachedFirstDiff && hasBScoreSumVariation) {
-            tieBreakInfo.push({ level: 'b-score-sum', value: currentBSum });
-
-            // Remove skaters with different B-score sums
-            const newStillTiedWith = new Set<string>();
-            for (const name of stillTiedWith) {
-              const other = tiedGroup.find(s => s.name === name)!;
-              if (bScoreSums.get(other.name) === currentBSum) {
-                newStillTiedWith.add(name);
-              }
-            }
-            stillTiedWith = newStillTiedWith;
-
-            if (stillTiedWith.size === 0) {
-              current.tieBreakInfo = tieBreakInfo;
-              continue;
-            }
-          }
-
-          // Comparison with all
-          if (!reachedFirstDiff && firstDiffLevel === 'comparison-all') {
-            reachedFirstDiff = true;
-          }
-          if (reachedFirstDiff && hasCompAllVariation) {
-            tieBreakInfo.push({ level: 'comparison-all', value: currentCompAll });
-
-            // Remove skaters with different comparison-all values
-            const newStillTiedWith = new Set<string>();
-            for (const name of stillTiedWith) {
-              const other = tiedGroup.find(s => s.name === name)!;
-              if (comparisonWithAll.get(other.name) === currentCompAll) {
-                newStillTiedWith.add(name);
-              }
-            }
-            stillTiedWith = newStillTiedWith;
-
-            if (stillTiedWith.size === 0) {
-              current.tieBreakInfo = tieBreakInfo;
-              continue;
-            }
-          }
-
-          // Total score
-          if (!reachedFirstDiff && firstDiffLevel === 'total-score') {
-            reachedFirstDiff = true;
-          }
-          if (reachedFirstDiff && hasTotalScoreVariation) {
-            tieBreakInfo.push({ level: 'total-score', value: current.totalScore });
-            current.tieBreakInfo = tieBreakInfo;
-            continue;
-          }
-
-          // If we reach here, the skater wasn't separated at any level
-          current.tieBreakInfo = tieBreakInfo;
-        }
-      }
+      trace?.groups.push({
+        majorityVictories: currentMV,
+        firstRank: currentRank,
+        skaterIds: tiedGroup.map(s => s.id),
+        ranks: tiedGroup.map(s => s.rank),
+        levels: chain.map(level => ({
+          level,
+          values: Object.fromEntries(tiedGroup.map(s => [s.id, valueOf(level, s)])),
+        })),
+        separations: tiedGroup.flatMap((higher, k) =>
+          tiedGroup.slice(k + 1).map(lower => ({
+            higherId: higher.id,
+            lowerId: lower.id,
+            level: chain.find(level => valueOf(level, higher) !== valueOf(level, lower)) ?? 'none',
+          }))
+        ),
+      });
     }
 
     currentRank += tiedGroup.length;
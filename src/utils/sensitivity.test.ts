@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+
+import type { SkaterScores } from '../types/SkaterScores';
+import { calculateRankings } from './scoring';
+import { calculateSensitivity } from './sensitivity';
+import { createLinearRanking } from './test-generators';
+import { applyScoreChanges } from './whatIf';
+
+// Lena wins 2:1 - judge 2 decides between Lena and Marie, Nora loses every judge
+const skaters = [
+  { id: 'L1', name: 'Lena', aScores: [5.0, 4.0, 5.0], bScores: [5.0, 4.0, 4.0] },
+  { id: 'L2', name: 'Marie', aScores: [4.0, 4.5, 4.0], bScores: [4.0, 4.5, 4.0] },
+  { id: 'L3', name: 'Nora', aScores: [2.0, 2.0, 2.0], bScores: [2.0, 2.0, 2.0] },
+];
+
+/**
+ * Applies every reported change and checks that it moves the skater with a full re-ranking
+ */
+function expectEveryChangeToMove(field: SkaterScores[]) {
+  const results = calculateRankings(field);
+
+  calculateSensitivity(results).forEach((sensitivity, index) => {
+    const { rank } = results[index];
+    for (const change of [sensitivity.toPass, sensitivity.toDrop]) {
+      if (!change) continue;
+      const skater = field.find(s => s.id === sensitivity.id)!;
+      const scores = change.scoreType === 'a' ? skater.aScores : skater.bScores;
+      const value = Math.round((scores[change.judge - 1]! + change.delta) * 10) / 10;
+      const changed = calculateRankings(
+        applyScoreChanges(field, [{ skaterId: sensitivity.id, judge: change.judge, scoreType: change.scoreType, value }])
+      );
+      const newRank = changed.find(result => result.id === sensitivity.id)!.rank;
+
+      expect(change.delta > 0 ? newRank < rank : newRank > rank).toBe(true);
+    }
+  });
+}
+
+describe('calculateSensitivity', () => {
+  it('should find the smallest single score change to pass the skater above', () => {
+    const [, marie] = calculateSensitivity(calculateRankings(skaters));
+
+    // +1.0 A at judge 3 only levels the judge, +1.0 B wins it
+    expect(marie.toPass).toEqual({ judge: 3, scoreType: 'b', delta: 1, opponentId: 'L1', opponent: 'Lena' });
+  });
+
+  it('should find the smallest single score change to drop behind the skater below', () => {
+    const [lena] = calculateSensitivity(calculateRankings(skaters));
+
+    expect(lena.toDrop).toEqual({ judge: 3, scoreType: 'b', delta: -1, opponentId: 'L2', opponent: 'Marie' });
+    expect(lena.stability).toBe(1);
+  });
+
+  it('should leave out moves past the ends of the field', () => {
+    const [lena, , nora] = calculateSensitivity(calculateRankings(skaters));
+
+    expect(lena.toPass).toBeUndefined();
+    expect(nora.toDrop).toBeUndefined();
+  });
+
+  it('should report no stability if no single score change moves the placement', () => {
+    const [, marie, nora] = calculateSensitivity(calculateRankings(skaters));
+
+    // Two judges would have to change their mind
+    expect(nora.toPass).toBeUndefined();
+    expect(nora.stability).toBeNull();
+    expect(marie.toDrop).toBeUndefined();
+    expect(marie.stability).toBe(1);
+  });
+
+  it('should not count a shared placement as passing', () => {
+    // +0.1 B at judge 1 or 3 makes Marie equal to Lena on every tie-break - they would share 1st place
+    const [, marie] = calculateSensitivity(calculateRankings([
+      { id: 'L1', name: 'Lena', aScores: [5.0, 5.0, 5.0], bScores: [5.0, 5.0, 5.0] },
+      { id: 'L2', name: 'Marie', aScores: [5.0, 5.0, 5.0], bScores: [5.0, 5.0, 4.9] },
+    ]));
+
+    expect(marie.toPass).toEqual({ judge: 1, scoreType: 'b', delta: 0.2, opponentId: 'L1', opponent: 'Lena' });
+  });
+
+  it('should only report changes that really move the skater', () => {
+    expectEveryChangeToMove(createLinearRanking(6, 5));
+  });
+
+  it('should stay fast for a large field with many M.V. ties', () => {
+    // 30 skaters, 7 judges - most M.V. are shared, so many tried changes need the tie-break chain
+    const field = Array.from({ length: 30 }, (_, i) => ({
+      id: `L${i + 1}`,
+      name: `Skater ${i + 1}`,
+      aScores: Array.from({ length: 7 }, (_, j) => 3 + ((i * 7 + j * 13) % 31) / 10),
+      bScores: Array.from({ length: 7 }, (_, j) => 3 + ((i * 11 + j * 5) % 29) / 10),
+    }));
+    const results = calculateRankings(field);
+
+    const start = performance.now();
+    calculateSensitivity(results);
+
+    expect(performance.now() - start).toBeLessThan(2000);
+    expectEveryChangeToMove(field);
+  });
+});
@@ -0,0 +1,188 @@
+import type { RequiredScoreChange, SkaterSensitivity } from '../types/Sensitivity';
+import type { SkaterResult } from '../types/SkaterResult';
+import type { SkaterScores } from '../types/SkaterScores';
+import { MAX_SCORE } from './parser';
+import { comparePairwise, getJudgeCount, rankTiedGroup } from './scoring';
+import type { RankingOptions } from './scoring';
+import { applyScoreChanges, toSkaterScores } from './whatIf';
+
+/**
+ * Scores are changed in steps of 0.1, the resolution judges score in
+ */
+const STEP = 0.1;
+
+type Direction = 'up' | 'down';
+
+/**
+ * The ranked field with the pairwise outcomes precomputed, so a changed score only
+ * needs the comparisons of the changed skater
+ */
+interface Field {
+  skaters: SkaterScores[];
+  ranks: number[];
+  outcomes: number[][]; // Majority outcome of skater i against skater j (1, 0.5 or 0)
+  majorityVictories: number[];
+  options: RankingOptions;
+}
+
+function roundToOneDecimal(num: number): number {
+  return Math.round(num * 10) / 10;
+}
+
+/**
+ * Ranks of the field with one skater replaced. A skater whose new M.V. is unique is placed
+ * by M.V. alone; otherwise the tie-break chain decides within the changed skater's M.V. group.
+ * The ranks of other groups are left as placed by M.V. - only their order relative to the
+ * changed skater is used, which M.V. already decides.
+ */
+function calculateChangedRanks(field: Field, index: number, changed: SkaterScores): number[] {
+  const majorityVictories = [...field.majorityVictories];
+  let own = 0;
+  field.skaters.forEach((other, j) => {
+    if (j === index) return;
+    const outcome = comparePairwise(changed, other, field.options);
+    own += outcome;
+    majorityVictories[j] += field.outcomes[index][j] - outcome;
+  });
+  majorityVictories[index] = own;
+
+  const ranks = majorityVictories.map(victories => 1 + majorityVictories.filter(other => other > victories).length);
+  const tied = majorityVictories.some((victories, j) => j !== index && victories === own);
+  if (!tied) return ranks;
+
+  const skaters = field.skaters.map((skater, j) => (j === index ? changed : skater));
+  const places = rankTiedGroup(skaters.filter((_, j) => majorityVictories[j] === own), skaters, field.options);
+  return skaters.map((skater, j) => ranks[j] + (places.get(skater.id) ?? 0));
+}
+
+/**
+ * The closest skater that ends up behind (up) or ahead of (down) the changed skater
+ * although ranked the other way before. Drawing level only shares the placement,
+ * so it does not count as passing.
+ */
+function findPassedSkater(field: Field, index: number, ranks: number[], direction: Direction): SkaterScores | undefined {
+  const rank = field.ranks[index];
+  const passed = field.skaters
+    .map((skater, j) => ({ skater, before: field.ranks[j], after: ranks[j] }))
+    .filter(({ before, after }) =>
+      direction === 'up'
+        ? before < rank && after > ranks[index]
+        : before > rank && after < ranks[index]
+    )
+    .sort((a, b) => (direction === 'up' ? b.before - a.before : a.before - b.before));
+  return passed[0]?.skater;
+}
+
+/**
+ * Smallest change to one of the skater's own scores that moves them up (raising a score)
+ * or down (lowering a score). Changes of the same size are preferred judge by judge, A before B.
+ *
+ * Raising a score never hurts the skater in any comparison or tie-break sum, so whether a
+ * change moves the skater is monotone in its size: each score is first tried at its limit
+ * (0 or the maximum) and the smallest sufficient change is then found by bisection.
+ */
+function findRequiredChange(field: Field, index: number, direction: Direction): RequiredScoreChange | undefined {
+  const rank = field.ranks[index];
+  const hasNeighbour = field.ranks.some(other => (direction === 'up' ? other < rank : other > rank));
+  if (!hasNeighbour) return undefined;
+
+  const skater = field.skaters[index];
+  const sign = direction === 'up' ? 1 : -1;
+  let best: { steps: number; change: RequiredScoreChange } | undefined;
+
+  for (let judgeIdx = 0; judgeIdx < getJudgeCount(skater); judgeIdx++) {
+    for (const scoreType of ['a', 'b'] as const) {
+      const original = (scoreType === 'a' ? skater.aScores : skater.bScores)[judgeIdx];
+      if (original === null || original === undefined) continue;
+
+      const tryChange = (steps: number) => {
+        const value = roundToOneDecimal(original + sign * steps * STEP);
+        const [changed] = applyScoreChanges([skater], [{ skaterId: skater.id, judge: judgeIdx + 1, scoreType, value }]);
+        return findPassedSkater(field, index, calculateChangedRanks(field, index, changed), direction);
+      };
+
+      // Only a strictly smaller change can beat one found for an earlier score
+      const limit = Math.round((direction === 'up' ? MAX_SCORE - original : original) / STEP);
+      let high = Math.min(limit, best ? best.steps - 1 : limit);
+      let passed = high >= 1 ? tryChange(high) : undefined;
+      if (!passed) continue;
+
+      let low = 1;
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        const found = tryChange(middle);
+        if (found) {
+          high = middle;
+          passed = found;
+        } else {
+          low = middle + 1;
+        }
+      }
+
+      best = {
+        steps: high,
+        change: {
+          judge: judgeIdx + 1,
+          scoreType,
+          delta: roundToOneDecimal(sign * high * STEP),
+          opponentId: passed.id,
+          opponent: passed.name,
+        },
+      };
+    }
+  }
+
+  return best?.change;
+}
+
+function createField(results: SkaterResult[], options: RankingOptions): Field {
+  const skaters = results.map(toSkaterScores);
+  const outcomes = skaters.map((skater, i) =>
+    skaters.map((other, j) => (i === j ? 0 : comparePairwise(skater, other, options)))
+  );
+  return {
+    skaters,
+    ranks: results.map(result => result.rank),
+    outcomes,
+    majorityVictories: outcomes.map(row => row.reduce((sum, outcome) => sum + outcome, 0)),
+    options,
+  };
+}
+
+function calculateFieldSensitivity(field: Field, index: number): SkaterSensitivity {
+  const toPass = findRequiredChange(field, index, 'up');
+  const toDrop = findRequiredChange(field, index, 'down');
+  const deltas = [toPass, toDrop].filter(change => change !== undefined).map(change => Math.abs(change.delta));
+
+  return {
+    id: field.skaters[index].id,
+    ...(toPass && { toPass }),
+    ...(toDrop && { toDrop }),
+    stability: deltas.length > 0 ? Math.min(...deltas) : null,
+  };
+}
+
+/**
+ * Sensitivity of one placement: the smallest change to a single judge's A- or B-score
+ * (in steps of 0.1) that would have moved the skater up or down one place, and the
+ * stability of the placement as the smaller of the two. Only the skater's own scores are changed.
+ */
+export function calculateSkaterSensitivity(
+  results: SkaterResult[],
+  skaterId: string,
+  options: RankingOptions = {}
+): SkaterSensitivity {
+  const index = results.findIndex(result => result.id === skaterId);
+  if (index === -1) {
+    throw new Error(`Unknown skater: ${skaterId}`);
+  }
+  return calculateFieldSensitivity(createField(results, options), index);
+}
+
+/**
+ * Sensitivity of every placement (see calculateSkaterSensitivity), in the order of the results
+ */
+export function calculateSensitivity(results: SkaterResult[], options: RankingOptions = {}): SkaterSensitivity[] {
+  const field = createField(results, options);
+  return results.map((_, index) => calculateFieldSensitivity(field, index));
+}
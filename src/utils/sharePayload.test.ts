@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { compressToEncodedURIComponent } from 'lz-string';
+
+import type { SharePayload } from '../types/SharePayload';
+import { DRIV_2025, getRuleset } from './rulesets';
+import {
+  DEFAULT_SHARE_SETTINGS,
+  MAX_SHARE_URL_LENGTH,
+  SHARE_PAYLOAD_VERSION,
+  createSharePayload,
+  decodeSharePayload,
+  encodeSharePayload,
+  isShareUrlTooLong,
+} from './sharePayload';
+
+const INPUT = `1 Anna: 3.0 3.1 3.2 / 3.0 3.1 3.2
+2 Ben: 2.0 2.1 2.2 / 2.0 2.1 2.2`;
+
+const PAYLOAD: SharePayload = {
+  input: INPUT,
+  settings: {
+    judgeCount: 3,
+    combinationRule: 'weighted-placement',
+    missingScorePolicy: 'exclude-judge',
+    ruleset: getRuleset('driv-2025-sum')!,
+  },
+  metadata: { title: 'Landesmeisterschaft', venue: 'Halle 2' },
+  judgeNames: ['Müller', '', 'Schmidt'],
+};
+
+describe('encodeSharePayload', () => {
+  it('should round-trip input, settings and event details', () => {
+    const hash = encodeSharePayload(PAYLOAD);
+
+    expect(hash.startsWith(`v${SHARE_PAYLOAD_VERSION}.`)).toBe(true);
+    expect(decodeSharePayload(hash)).toEqual(PAYLOAD);
+  });
+
+  it('should be empty when there is nothing to share', () => {
+    expect(encodeSharePayload(createSharePayload())).toBe('');
+    expect(encodeSharePayload({ ...createSharePayload('  \n'), metadata: { title: ' ' }, judgeNames: ['', ''] })).toBe('');
+  });
+
+  it('should keep settings without input', () => {
+    const payload = { ...createSharePayload(), settings: { ...DEFAULT_SHARE_SETTINGS, missingScorePolicy: 'block' as const } };
+
+    expect(decodeSharePayload(encodeSharePayload(payload))).toEqual(payload);
+  });
+
+  it('should leave out defaults', () => {
+    const withDefaults = encodeSharePayload({ ...createSharePayload(INPUT), metadata: { title: '' }, judgeNames: ['', ''] });
+
+    expect(withDefaults).toBe(encodeSharePayload(createSharePayload(INPUT)));
+  });
+});
+
+describe('decodeSharePayload', () => {
+  it('should read version 1 links with settings in the query string', () => {
+    const payload = decodeSharePayload(
+      compressToEncodedURIComponent(INPUT),
+      '?judges=3&combine=weighted&missing=exclude&rules=driv-2025-sum@1&view=print'
+    );
+
+    expect(payload).toEqual({ ...PAYLOAD, metadata: {}, judgeNames: [] });
+  });
+
+  it('should read version 1 links without settings', () => {
+    expect(decodeSharePayload(compressToEncodedURIComponent(INPUT))).toEqual(createSharePayload(INPUT));
+    expect(decodeSharePayload('', '?judges=5').settings.judgeCount).toBe(5);
+  });
+
+  it('should ignore invalid settings', () => {
+    const payload = decodeSharePayload('', '?judges=2.5&combine=median&missing=skip&rules=unknown@1');
+
+    expect(payload.settings).toEqual({ ...DEFAULT_SHARE_SETTINGS, judgeCount: undefined });
+    expect(payload.settings.ruleset).toBe(DRIV_2025);
+  });
+
+  it('should reject links of a newer version', () => {
+    const hash = `v${SHARE_PAYLOAD_VERSION + 1}.${compressToEncodedURIComponent('{}')}`;
+
+    expect(() => decodeSharePayload(hash)).toThrow('newer version');
+  });
+
+  it('should reject damaged links', () => {
+    const hash = encodeSharePayload(PAYLOAD);
+
+    expect(() => decodeSharePayload(hash.slice(0, 10))).toThrow('damaged');
+    expect(() => decodeSharePayload(`v${SHARE_PAYLOAD_VERSION}.${compressToEncodedURIComponent('[1]')}`)).toThrow('damaged');
+  });
+});
+
+describe('isShareUrlTooLong', () => {
+  it('should compare the link with the limit', () => {
+    expect(isShareUrlTooLong('x'.repeat(MAX_SHARE_URL_LENGTH))).toBe(false);
+    expect(isShareUrlTooLong('x'.repeat(MAX_SHARE_URL_LENGTH + 1))).toBe(true);
+  });
+});
@@ -0,0 +1,157 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
+
+import type { CompetitionMetadata } from '../types/CompetitionDocument';
+import type { MissingScorePolicy } from '../types/MissingScorePolicy';
+import type { SharePayload, ShareSettings } from '../types/SharePayload';
+import { METADATA_FIELDS } from './document';
+import { DRIV_2025, findRulesetByKey, getRulesetKey } from './rulesets';
+
+/**
+ * Current share link version, written as a prefix of the hash ("#v2.…").
+ * Version 1 links have no prefix: the hash is the compressed input alone
+ * and the settings are query parameters (see LEGACY_SETTING_PARAMS).
+ */
+export const SHARE_PAYLOAD_VERSION = 2;
+
+/**
+ * Longest link that messengers and mail clients reliably keep intact
+ */
+export const MAX_SHARE_URL_LENGTH = 2000;
+
+/**
+ * Query parameters that held the settings of version 1 links
+ */
+export const LEGACY_SETTING_PARAMS = ['judges', 'combine', 'missing', 'rules'];
+
+export const DEFAULT_SHARE_SETTINGS: ShareSettings = {
+  combinationRule: 'placement-sum',
+  missingScorePolicy: 'zero',
+  ruleset: DRIV_2025,
+};
+
+const VERSION_PREFIX = /^v(\d+)\.(.*)$/; // lz-string's URI alphabet has no ".", so version 1 hashes never match
+
+/**
+ * Settings are stored with the values of the version 1 query parameters;
+ * defaults are left out (e.g. no "missing" for missing scores counted as 0)
+ */
+const MISSING_SCORE_PARAMS: Record<MissingScorePolicy, string | undefined> = {
+  'zero': undefined,
+  'exclude-judge': 'exclude',
+  'block': 'block',
+};
+
+interface SettingParams {
+  judges?: unknown;
+  combine?: unknown;
+  missing?: unknown;
+  rules?: unknown;
+}
+
+export function createSharePayload(input: string = ''): SharePayload {
+  return { input, settings: DEFAULT_SHARE_SETTINGS, metadata: {}, judgeNames: [] };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the settings, ignoring invalid values. Rulesets that are not registered fall back to
+ * DRIV 2025, which links without a ruleset were ranked with.
+ */
+function parseSettings(params: SettingParams): ShareSettings {
+  const judgeCount = Number(params.judges);
+  return {
+    judgeCount: params.judges && Number.isInteger(judgeCount) && judgeCount > 0 ? judgeCount : undefined,
+    combinationRule: params.combine === 'weighted' ? 'weighted-placement' : 'placement-sum',
+    missingScorePolicy: params.missing === 'exclude' ? 'exclude-judge' : params.missing === 'block' ? 'block' : 'zero',
+    ruleset: (typeof params.rules === 'string' && findRulesetByKey(params.rules)) || DRIV_2025,
+  };
+}
+
+function toSettingParams(settings: ShareSettings): SettingParams {
+  return {
+    judges: settings.judgeCount,
+    combine: settings.combinationRule === 'weighted-placement' ? 'weighted' : undefined,
+    missing: MISSING_SCORE_PARAMS[settings.missingScorePolicy],
+    rules: settings.ruleset === DRIV_2025 ? undefined : getRulesetKey(settings.ruleset),
+  };
+}
+
+function parseMetadata(value: unknown): CompetitionMetadata {
+  if (!isObject(value)) return {};
+  return Object.fromEntries(METADATA_FIELDS.filter(field => typeof value[field] === 'string').map(field => [field, value[field]]));
+}
+
+/**
+ * Hash of a share link (without "#"), or an empty string when there is nothing to share.
+ * Defaults and empty fields are left out to keep links short.
+ */
+export function encodeSharePayload(payload: SharePayload): string {
+  const metadata = Object.fromEntries(
+    METADATA_FIELDS.filter(field => payload.metadata[field]?.trim()).map(field => [field, payload.metadata[field]])
+  );
+  const json = JSON.stringify({
+    input: payload.input.trim() ? payload.input : undefined,
+    ...toSettingParams(payload.settings),
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    judgeNames: payload.judgeNames.some(name => name.trim()) ? payload.judgeNames : undefined,
+  });
+  return json === '{}' ? '' : `v${SHARE_PAYLOAD_VERSION}.${compressToEncodedURIComponent(json)}`;
+}
+
+/**
+ * Reads a share link from its hash (without "#") and query string.
+ * Version 1 links are read into the current payload with their query parameters as settings.
+ * Throws for damaged links and links of a newer version.
+ */
+export function decodeSharePayload(hash: string, search: string = ''): SharePayload {
+  const match = hash.match(VERSION_PREFIX);
+
+  if (!match) {
+    const input = hash ? decompressFromEncodedURIComponent(hash) : '';
+    if (hash && !input) {
+      throw new Error('The link is damaged or incomplete');
+    }
+    const params = new URLSearchParams(search);
+    return {
+      ...createSharePayload(input),
+      settings: parseSettings(Object.fromEntries(LEGACY_SETTING_PARAMS.map(key => [key, params.get(key)]))),
+    };
+  }
+
+  const version = Number(match[1]);
+  if (version > SHARE_PAYLOAD_VERSION) {
+    throw new Error(`The link was created with a newer version of this app (share link version ${version})`);
+  }
+  if (version !== SHARE_PAYLOAD_VERSION) {
+    throw new Error(`Unsupported share link version ${version}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(decompressFromEncodedURIComponent(match[2]) || '');
+  } catch {
+    throw new Error('The link is damaged or incomplete');
+  }
+  if (!isObject(data)) {
+    throw new Error('The link is damaged or incomplete');
+  }
+
+  return {
+    input: typeof data.input === 'string' ? data.input : '',
+    settings: parseSettings(data),
+    metadata: parseMetadata(data.metadata),
+    judgeNames: Array.isArray(data.judgeNames)
+      ? data.judgeNames.map((name: unknown) => (typeof name === 'string' ? name : ''))
+      : [],
+  };
+}
+
+/**
+ * Whether a link is longer than messengers reliably keep (see MAX_SHARE_URL_LENGTH)
+ */
+export function isShareUrlTooLong(url: string): boolean {
+  return url.length > MAX_SHARE_URL_LENGTH;
+}
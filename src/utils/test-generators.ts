@@ -47,6 +47,7 @@ function randomScores(judgeCount: number): { aScores: number[], bScores: number[
  */
 function generateRandomTournament(skaterCount: number, judgeCount: number): SkaterScores[] {
   return Array.from({ length: skaterCount }, (_, i) => ({
+    id: `L${i + 1}`,
     name: `Skater${String.fromCharCode(65 + i)}`,
     ...randomScores(judgeCount)
   }));
@@ -121,11 +122,13 @@ export function createDirectComparisonTie(judgeCount: number = 3): SkaterScores[
 export function createPairwiseBScoreTieBreak(): SkaterScores[] {
   return [
     {
+      id: 'SkaterA',
       name: 'SkaterA',
       aScores: [1.0, 1.0, 1.0],
       bScores: [2.0, 2.0, 2.0]  // Total: 3.0, higher B
     },
     {
+      id: 'SkaterB',
       name: 'SkaterB',
       aScores: [1.5, 1.5, 1.5],
       bScores: [1.5, 1.5, 1.5]  // Total: 3.0, lower B
@@ -139,11 +142,13 @@ export function createPairwiseBScoreTieBreak(): SkaterScores[] {
 export function createPairwisePerfectTie(): SkaterScores[] {
   return [
     {
+      id: 'SkaterA',
       name: 'SkaterA',
       aScores: [3.0, 3.0, 3.0],
       bScores: [2.0, 2.0, 2.0]
     },
     {
+      id: 'SkaterB',
       name: 'SkaterB',
       aScores: [3.0, 3.0, 3.0],
       bScores: [2.0, 2.0, 2.0]
@@ -157,11 +162,13 @@ export function createPairwisePerfectTie(): SkaterScores[] {
 export function createSplitDecision(): SkaterScores[] {
   return [
     {
+      id: 'SkaterA',
       name: 'SkaterA',
       aScores: [5.0, 4.0, 5.0],
       bScores: [5.0, 4.0, 5.0]
     },
     {
+      id: 'SkaterB',
       name: 'SkaterB',
       aScores: [4.5, 4.5, 4.5],
       bScores: [4.5, 5.5, 4.5]
@@ -211,21 +218,25 @@ export function createCircularPreferences(): SkaterScores[] {
 export function createBScoreSumTie(judgeCount: number = 5): SkaterScores[] {
   return [
     {
+      id: 'SkaterA',
       name: 'SkaterA',
       aScores: Array(judgeCount).fill(3.0),
       bScores: Array(judgeCount).fill(4.0)  // Sum: 20.0
     },
     {
+      id: 'SkaterB',
       name: 'SkaterB',
       aScores: Array(judgeCount).fill(3.5),
       bScores: Array(judgeCount).fill(3.5)  // Sum: 17.5
     },
     {
+      id: 'SkaterC',
       name: 'SkaterC',
       aScores: Array(judgeCount).fill(2.0),
       bScores: Array(judgeCount).fill(2.0)
     },
     {
+      id: 'SkaterD',
       name: 'SkaterD',
       aScores: Array(judgeCount).fill(1.0),
       bScores: Array(judgeCount).fill(1.0)
@@ -258,16 +269,19 @@ export function createComparisonWithAllTie(judgeCount: number = 3): SkaterScores
 export function createTotalScoreTie(): SkaterScores[] {
   return [
     {
+      id: 'SkaterA',
       name: 'SkaterA',
       aScores: [3.2, 3.2, 3.2],
       bScores: [3.2, 3.2, 3.2]  // Total: 6.4
     },
     {
+      id: 'SkaterB',
       name: 'SkaterB',
       aScores: [3.0, 3.0, 3.0],
       bScores: [3.0, 3.0, 3.0]  // Total: 6.0
     },
     {
+      id: 'SkaterC',
       name: 'SkaterC',
       aScores: [2.0, 2.0, 2.0],
       bScores: [2.0, 2.0, 2.0]
@@ -281,16 +295,19 @@ export function createTotalScoreTie(): SkaterScores[] {
 export function createPerfectTie(judgeCount: number = 3): SkaterScores[] {
   return [
     {
+      id: 'SkaterA',
       name: 'SkaterA',
       aScores: Array(judgeCount).fill(5.0),
       bScores: Array(judgeCount).fill(5.0)
     },
     {
+      id: 'SkaterB',
       name: 'SkaterB',
       aScores: Array(judgeCount).fill(5.0),
       bScores: Array(judgeCount).fill(5.0)
     },
     {
+      id: 'SkaterC',
       name: 'SkaterC',
       aScores: Array(judgeCount).fill(3.0),
       bScores: Array(judgeCount).fill(3.0)
@@ -304,11 +321,13 @@ export function createPerfectTie(judgeCount: number = 3): SkaterScores[] {
 export function createHighVariance(): SkaterScores[] {
   return [
     {
+      id: 'SkaterA',
       name: 'SkaterA',
       aScores: [2.0, 5.0, 5.0, 5.0, 8.0],  // Trimmed: 5.0
       bScores: [2.0, 4.0, 4.0, 4.0, 8.0]   // Trimmed: 4.0
     },
     {
+      id: 'SkaterB',
       name: 'SkaterB',
       aScores: [4.5, 4.5, 4.5, 4.5, 4.5],  // Trimmed: 4.5
       bScores: [4.0, 4.0, 4.0, 4.0, 4.0]   // Trimmed: 4.0
@@ -322,21 +341,25 @@ export function createHighVariance(): SkaterScores[] {
 export function createScoringMdExample(): SkaterScores[] {
   return [
     {
+      id: 'Anna',
       name: 'Anna',
       aScores: [3.9, 4.0, 4.1],
       bScores: [3.9, 3.9, 4.0]
     },
     {
+      id: 'Ben',
       name: 'Ben',
       aScores: [4.0, 3.8, 3.9],
       bScores: [4.0, 3.9, 3.9]
     },
     {
+      id: 'Clara',
       name: 'Clara',
       aScores: [3.8, 4.0, 4.0],
       bScores: [3.7, 4.0, 3.9]
     },
     {
+      id: 'David',
       name: 'David',
       aScores: [3.7, 3.8, 3.8],
       bScores: [3.7, 3.8, 3.7]
@@ -351,16 +374,19 @@ export function createScoringMdExample(): SkaterScores[] {
 export function createHighestTotalLosesScenario(): SkaterScores[] {
   return [
     {
+      id: 'Alice',
       name: 'Alice',
       aScores: [4.0, 4.0, 3.0],  // Wins judges 0,1 → Median: 4.0
       bScores: [4.0, 4.0, 3.0]   // Median total: 8.0
     },
     {
+      id: 'Bob',
       name: 'Bob',
       aScores: [3.0, 3.0, 4.0],  // Wins judge 2 → Median: 3.0
       bScores: [3.0, 3.0, 4.0]   // Median total: 6.0
     },
     {
+      id: 'Carol',
       name: 'Carol',
       aScores: [2.0, 2.0, 5.0],  // Loses all judges! → Median: 2.0
       bScores: [2.0, 2.0, 5.0]   // Median total: 4.0, but has one 10!
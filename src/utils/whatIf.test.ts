@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+
+import { calculateRankings } from './scoring';
+import { applyScoreChanges, compareRankings, setScoreChange } from './whatIf';
+
+// Lena wins 2:1 - judge 2 decides between Lena and Marie
+const skaters = [
+  { id: 'L1', name: 'Lena', aScores: [5.0, 4.0, 5.0], bScores: [5.0, 4.0, 4.0] },
+  { id: 'L2', name: 'Marie', aScores: [4.0, 4.5, 4.0], bScores: [4.0, 4.5, 4.0] },
+  { id: 'L3', name: 'Nora', aScores: [2.0, 2.0, 2.0], bScores: [2.0, 2.0, 2.0] },
+];
+
+describe('setScoreChange', () => {
+  it('should replace an earlier change of the same score', () => {
+    const changes = setScoreChange(
+      setScoreChange([], { skaterId: 'L1', judge: 2, scoreType: 'b', value: 4.1 }),
+      { skaterId: 'L1', judge: 2, scoreType: 'b', value: 4.2 }
+    );
+
+    expect(changes).toEqual([{ skaterId: 'L1', judge: 2, scoreType: 'b', value: 4.2 }]);
+  });
+
+  it('should keep changes of other scores', () => {
+    const changes = setScoreChange(
+      [{ skaterId: 'L1', judge: 2, scoreType: 'b', value: 4.1 }],
+      { skaterId: 'L1', judge: 2, scoreType: 'a', value: 3.9 }
+    );
+
+    expect(changes).toHaveLength(2);
+  });
+});
+
+describe('applyScoreChanges', () => {
+  it('should replace the changed scores without touching the input', () => {
+    const changed = applyScoreChanges(skaters, [{ skaterId: 'L2', judge: 3, scoreType: 'a', value: 6.0 }]);
+
+    expect(changed[1].aScores).toEqual([4.0, 4.5, 6.0]);
+    expect(skaters[1].aScores).toEqual([4.0, 4.5, 4.0]);
+    expect(changed[0]).toBe(skaters[0]);
+  });
+
+  it('should ignore unknown skaters', () => {
+    expect(applyScoreChanges(skaters, [{ skaterId: 'X', judge: 1, scoreType: 'a', value: 1 }])).toEqual(skaters);
+  });
+});
+
+describe('compareRankings', () => {
+  it('should be empty without any effect on the ranking', () => {
+    const baseline = calculateRankings(skaters);
+    const simulated = calculateRankings(applyScoreChanges(skaters, [{ skaterId: 'L3', judge: 1, scoreType: 'b', value: 2.1 }]));
+
+    expect(compareRankings(baseline, simulated)).toEqual([]);
+  });
+
+  it('should list skaters whose rank or M.V. changed', () => {
+    const baseline = calculateRankings(skaters);
+    // Marie now wins judge 3 as well
+    const simulated = calculateRankings(applyScoreChanges(skaters, [{ skaterId: 'L2', judge: 3, scoreType: 'b', value: 5.5 }]));
+
+    expect(compareRankings(baseline, simulated)).toEqual([
+      { id: 'L2', name: 'Marie', rankBefore: 2, rankAfter: 1, majorityVictoriesBefore: 1, majorityVictoriesAfter: 2 },
+      { id: 'L1', name: 'Lena', rankBefore: 1, rankAfter: 2, majorityVictoriesBefore: 2, majorityVictoriesAfter: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { RankingChange } from '../types/RankingChange';
+import type { ScoreChange } from '../types/ScoreChange';
+import type { SkaterResult } from '../types/SkaterResult';
+import type { SkaterScores } from '../types/SkaterScores';
+
+/**
+ * The scores of a result without the ranking fields, ready to be ranked again
+ */
+export function toSkaterScores({ id, name, startNumber, aScores, bScores }: SkaterResult): SkaterScores {
+  return { id, name, ...(startNumber !== undefined && { startNumber }), aScores, bScores };
+}
+
+function isSameScore(a: ScoreChange, b: ScoreChange): boolean {
+  return a.skaterId === b.skaterId && a.judge === b.judge && a.scoreType === b.scoreType;
+}
+
+/**
+ * Adds a score change, replacing an earlier change of the same score
+ */
+export function setScoreChange(changes: ScoreChange[], change: ScoreChange): ScoreChange[] {
+  return [...changes.filter(other => !isSameScore(other, change)), change];
+}
+
+/**
+ * Copies of the skaters with the changed scores. Changes for unknown skaters are ignored;
+ * a change beyond the panel size extends the score list with missing scores.
+ */
+export function applyScoreChanges<T extends SkaterScores>(skaters: T[], changes: ScoreChange[]): T[] {
+  return skaters.map(skater => {
+    const own = changes.filter(change => change.skaterId === skater.id);
+    if (own.length === 0) return skater;
+
+    const aScores = [...skater.aScores];
+    const bScores = [...skater.bScores];
+    for (const { judge, scoreType, value } of own) {
+      const scores = scoreType === 'a' ? aScores : bScores;
+      while (scores.length < judge) scores.push(null);
+      scores[judge - 1] = value;
+    }
+    return { ...skater, aScores, bScores };
+  });
+}
+
+/**
+ * Skaters whose rank, M.V. or deciding tie-break level differ between the baseline
+ * and the simulated ranking, in simulated rank order
+ */
+export function compareRankings(baseline: SkaterResult[], simulated: SkaterResult[]): RankingChange[] {
+  const changes: RankingChange[] = [];
+
+  for (const after of [...simulated].sort((a, b) => a.rank - b.rank)) {
+    const before = baseline.find(result => result.id === after.id);
+    if (!before) continue;
+
+    if (
+      before.rank !== after.rank ||
+      before.majorityVictories !== after.majorityVictories ||
+      before.tieBreakLevel !== after.tieBreakLevel
+    ) {
+      changes.push({
+        id: after.id,
+        name: after.name,
+        rankBefore: before.rank,
+        rankAfter: after.rank,
+        majorityVictoriesBefore: before.majorityVictories,
+        majorityVictoriesAfter: after.majorityVictories,
+        ...(before.tieBreakLevel && { tieBreakLevelBefore: before.tieBreakLevel }),
+        ...(after.tieBreakLevel && { tieBreakLevelAfter: after.tieBreakLevel }),
+      });
+    }
+  }
+
+  return changes;
+}